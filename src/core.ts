@@ -5,7 +5,7 @@ export interface BaseModulatorConfig {
   baudRate: number;
 }
 
-export type ModulationType = 'FSK' | 'PSK' | 'QAM' | 'WebAudio';
+export type ModulationType = 'FSK' | 'PSK' | 'QAM' | 'ASK' | 'OFDM' | 'CSS' | 'DTMF' | 'WebAudio';
 
 export interface SignalQuality {
   snr: number;           // Signal-to-Noise Ratio (dB)
@@ -15,6 +15,25 @@ export interface SignalQuality {
   frequencyOffset: number; // Frequency Offset (Hz)
 }
 
+/**
+ * Soft-decision output: hard decisions together with per-bit reliability for
+ * soft-input FEC decoders
+ */
+export interface SoftDemodulationResult {
+  bytes: Uint8Array;  // Hard decisions, as returned by demodulateData()
+  llr: Float32Array;  // Log-likelihood ratio per data bit of bytes (MSB first); positive favours 1
+}
+
+/**
+ * Pull-based modulated signal: samples are generated as they are requested, so
+ * payloads of any size are sent without holding the whole signal in memory
+ */
+export interface IModulationStream {
+  readonly totalSamples: number;
+  // Writes the next samples from the start of output; returns the count written, 0 at the end
+  fillSamples(_output: Float32Array): number;
+}
+
 /**
  * Audio Processor Interface - リアルタイム音声処理とアプリケーション通信の統合
  * 
@@ -96,10 +115,18 @@ export interface IModulator<TConfig extends BaseModulatorConfig = BaseModulatorC
   // 入力: データ → 出力: 音声信号（Float32Array）
   modulateData(_data: Uint8Array): Promise<Float32Array>;
 
+  // ストリーミング変調（対応する変調方式のみ）: modulateData()と同じ信号を
+  // 要求された分ずつ生成する。大きなデータでも信号全体をメモリに保持しない
+  createModulationStream?(_data: Uint8Array): IModulationStream;
+
   // 音声サンプルからデータを復調（ストリーム処理対応）
   // 入力: 音声サンプル → 出力: 復調されたデータ（即座に処理可能な分のみ）
   // 連続的にsamplesを処理し、復調可能なデータがあれば返す
   demodulateData(_samples: Float32Array): Promise<Uint8Array>;
+
+  // 軟判定復調（対応する変調方式のみ）: demodulateData()と同じくサンプルを処理し、
+  // 硬判定バイトと各ビットの対数尤度比を返す。どちらで取り出しても同じ受信バッファを消費する
+  demodulateSoft?(_samples: Float32Array): Promise<SoftDemodulationResult>;
   
   // State management
   reset(): void;
@@ -0,0 +1,86 @@
+/**
+ * Radix-2 FFT (in-place, iterative)
+ *
+ * Twiddle factors and the bit reversal table are computed once per size,
+ * so a single instance can be reused for every symbol of a stream.
+ */
+export class FFT {
+  readonly size: number;
+  private readonly cosTable: Float64Array;
+  private readonly sinTable: Float64Array;
+  private readonly reverse: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two: ${size}`);
+    }
+    this.size = size;
+
+    this.cosTable = new Float64Array(size / 2);
+    this.sinTable = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos(2 * Math.PI * i / size);
+      this.sinTable[i] = Math.sin(2 * Math.PI * i / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+      this.reverse[i] = reversed;
+    }
+  }
+
+  /**
+   * Forward transform: X[k] = sum x[n] e^(-j 2pi kn/N)
+   */
+  forward(re: Float64Array, im: Float64Array): void {
+    this.transform(re, im, -1);
+  }
+
+  /**
+   * Inverse transform including the 1/N scaling
+   */
+  inverse(re: Float64Array, im: Float64Array): void {
+    this.transform(re, im, 1);
+    for (let i = 0; i < this.size; i++) {
+      re[i] /= this.size;
+      im[i] /= this.size;
+    }
+  }
+
+  private transform(re: Float64Array, im: Float64Array, sign: number): void {
+    const n = this.size;
+    if (re.length !== n || im.length !== n) {
+      throw new Error(`FFT input length must be ${n}`);
+    }
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverse[i];
+      if (j > i) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let length = 2; length <= n; length <<= 1) {
+      const half = length >> 1;
+      const step = n / length;
+      for (let start = 0; start < n; start += length) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * step];
+          const wi = sign * this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+}
@@ -367,3 +367,65 @@ export class FilterFactory {
     return new FIRFilter(coefficients);
   }
 }
+
+/**
+ * Automatic Gain Control processor
+ */
+export class AGCProcessor {
+  private targetLevel: number;
+  private currentGain: number;
+  private attackRate: number;
+  private releaseRate: number;
+
+  constructor(sampleRate: number, targetLevel = 0.5) {
+    this.targetLevel = targetLevel;
+    this.currentGain = 1.0;
+    // AGC time constants (attack faster than release)
+    this.attackRate = 1.0 - Math.exp(-1.0 / (sampleRate * 0.001)); // 1ms attack
+    this.releaseRate = 1.0 - Math.exp(-1.0 / (sampleRate * 0.01)); // 10ms release
+  }
+
+  /**
+   * Process array of samples in-place
+   */
+  process(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = this.processSample(samples[i]);
+    }
+  }
+
+  /**
+   * Process single sample and return gain-adjusted value
+   */
+  processSample(sample: number): number {
+    // Apply current gain
+    const output = sample * this.currentGain;
+    
+    // Measure output level
+    const outputLevel = Math.abs(output);
+    
+    // Update gain based on output level
+    if (outputLevel > this.targetLevel) {
+      // Too loud, reduce gain quickly (attack)
+      const targetGain = this.targetLevel / outputLevel;
+      this.currentGain += (targetGain - this.currentGain) * this.attackRate;
+    } else {
+      // Too quiet, increase gain slowly (release)
+      if (outputLevel > 0) {
+        const targetGain = this.targetLevel / outputLevel;
+        this.currentGain += (targetGain - this.currentGain) * this.releaseRate;
+      }
+    }
+    
+    // Limit gain to reasonable bounds
+    this.currentGain = Math.max(0.1, Math.min(10.0, this.currentGain));
+    return output;
+  }
+
+  /**
+   * Reset gain to unity
+   */
+  reset(): void {
+    this.currentGain = 1.0;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Goertzel algorithm: power of a single frequency over a block of samples
+ *
+ * Cheaper than an FFT when only a few bins are needed, and the frequency
+ * does not have to fall on an FFT bin.
+ */
+export class Goertzel {
+  private readonly coeff: number;
+  private s1 = 0;
+  private s2 = 0;
+  private count = 0;
+
+  constructor(readonly frequency: number, readonly sampleRate: number) {
+    this.coeff = 2 * Math.cos(2 * Math.PI * frequency / sampleRate);
+  }
+
+  process(sample: number): void {
+    const s0 = sample + this.coeff * this.s1 - this.s2;
+    this.s2 = this.s1;
+    this.s1 = s0;
+    this.count++;
+  }
+
+  processBuffer(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) this.process(samples[i]);
+  }
+
+  /**
+   * Squared amplitude of the tone over the processed samples
+   * (a sinusoid of amplitude A gives A^2)
+   */
+  power(): number {
+    if (this.count === 0) return 0;
+    const magnitude = this.s1 * this.s1 + this.s2 * this.s2 - this.coeff * this.s1 * this.s2;
+    return magnitude * 4 / (this.count * this.count);
+  }
+
+  reset(): void {
+    this.s1 = 0;
+    this.s2 = 0;
+    this.count = 0;
+  }
+
+  static power(samples: Float32Array, frequency: number, sampleRate: number): number {
+    const goertzel = new Goertzel(frequency, sampleRate);
+    goertzel.processBuffer(samples);
+    return goertzel.power();
+  }
+}
+
+/**
+ * Bank of sliding single-bin DFTs
+ *
+ * Tone powers over the most recent `length` samples, updated every sample,
+ * for detectors that have to find symbol timing as well as the tone.
+ */
+export class SlidingToneBank {
+  readonly powers: Float64Array;
+
+  // Running I/Q sums over the window against oscillators that run from reset():
+  // a tone of amplitude A gives 2·|sum| / length = A
+  readonly sumI: Float64Array;
+  readonly sumQ: Float64Array;
+
+  // Quadrature oscillators advanced by complex rotation
+  private readonly oscCos: Float64Array;
+  private readonly oscSin: Float64Array;
+  private readonly stepCos: Float64Array;
+  private readonly stepSin: Float64Array;
+
+  // Per-sample terms that leave the window
+  private readonly history: Float64Array;
+  private position = 0;
+  private filled = 0;
+
+  constructor(readonly frequencies: number[], sampleRate: number, readonly length: number) {
+    const count = frequencies.length;
+    this.powers = new Float64Array(count);
+    this.oscCos = new Float64Array(count);
+    this.oscSin = new Float64Array(count);
+    this.stepCos = Float64Array.from(frequencies, f => Math.cos(2 * Math.PI * f / sampleRate));
+    this.stepSin = Float64Array.from(frequencies, f => Math.sin(2 * Math.PI * f / sampleRate));
+    this.sumI = new Float64Array(count);
+    this.sumQ = new Float64Array(count);
+    this.history = new Float64Array(length * count * 2);
+    this.reset();
+  }
+
+  process(sample: number): void {
+    const count = this.frequencies.length;
+    const base = this.position * count * 2;
+    const full = this.filled === this.length;
+    const scale = 4 / (this.length * this.length);
+
+    for (let k = 0; k < count; k++) {
+      const i = sample * this.oscCos[k];
+      const q = -sample * this.oscSin[k];
+      if (full) {
+        this.sumI[k] -= this.history[base + 2 * k];
+        this.sumQ[k] -= this.history[base + 2 * k + 1];
+      }
+      this.history[base + 2 * k] = i;
+      this.history[base + 2 * k + 1] = q;
+      this.sumI[k] += i;
+      this.sumQ[k] += q;
+      this.powers[k] = (this.sumI[k] * this.sumI[k] + this.sumQ[k] * this.sumQ[k]) * scale;
+
+      const c = this.oscCos[k], s = this.oscSin[k];
+      this.oscCos[k] = c * this.stepCos[k] - s * this.stepSin[k];
+      this.oscSin[k] = c * this.stepSin[k] + s * this.stepCos[k];
+    }
+
+    this.position = (this.position + 1) % this.length;
+    if (!full) this.filled++;
+
+    // Keep the oscillators on the unit circle
+    if (this.position === 0) {
+      for (let k = 0; k < count; k++) {
+        const norm = Math.hypot(this.oscCos[k], this.oscSin[k]);
+        this.oscCos[k] /= norm;
+        this.oscSin[k] /= norm;
+      }
+    }
+  }
+
+  reset(): void {
+    this.oscCos.fill(1);
+    this.oscSin.fill(0);
+    this.sumI.fill(0);
+    this.sumQ.fill(0);
+    this.powers.fill(0);
+    this.history.fill(0);
+    this.position = 0;
+    this.filled = 0;
+  }
+}
@@ -0,0 +1,320 @@
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { CRC16 } from '../utils/crc16';
+import { RingBuffer } from '@/utils';
+
+export interface Bell202Config extends BaseModulatorConfig {
+  markFrequency: number;
+  spaceFrequency: number;
+  txDelayFlags: number;       // HDLC flags sent before each frame (TXDELAY)
+  txTailFlags: number;        // Flags after the frame, the first one closes it
+  maxFrameLength: number;     // Longer frames (bytes including FCS) are dropped
+  preFilterBandwidth: number; // 0 disables the bandpass prefilter
+}
+
+export const DEFAULT_BELL202_CONFIG: Bell202Config = {
+  sampleRate: 48000,
+  baudRate: 1200,
+  markFrequency: 1200,
+  spaceFrequency: 2200,
+  txDelayFlags: 32,           // ~213 ms at 1200 baud
+  txTailFlags: 2,
+  maxFrameLength: 400,        // AX.25 frames with 256 byte info field fit
+  preFilterBandwidth: 2400
+};
+
+const HDLC_FLAG = 0x7E;
+
+// Smallest accepted frame: one byte plus FCS
+const MIN_FRAME_BYTES = 3;
+
+// Fraction of the timing error corrected at each symbol transition
+const PLL_GAIN = 0.25;
+
+/**
+ * Bell 202 / AFSK1200 Core implementation
+ *
+ * Compatible with TNCs and APRS radios: HDLC framing (flags, bit stuffing,
+ * LSB-first, CRC-16/X.25 FCS) over NRZI (0 = tone change, 1 = no change).
+ *
+ * modulateData(frame) sends one HDLC frame and appends the FCS;
+ * demodulateData() returns the contents of frames with a valid FCS (without FCS)
+ * and emits 'eod' after each frame.
+ */
+export class Bell202Core extends BaseModulator<Bell202Config> {
+  readonly name = 'Bell202';
+  readonly type: ModulationType = 'FSK';
+
+  // DSP components
+  private readonly dsp = {
+    preFilter: undefined as IIRFilter | undefined
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerBit: 0, windowLength: 0, markOmega: 0, spaceOmega: 0
+  };
+
+  // Tone correlators: I/Q sliding sums over one bit for mark and space
+  private readonly tones = {
+    markPhase: 0, spacePhase: 0,
+    history: undefined as RingBuffer<Float64Array> | undefined,
+    markI: 0, markQ: 0, spaceI: 0, spaceQ: 0
+  };
+
+  // Clock recovery (DPLL) and NRZI state
+  private readonly bitSync = { phase: 0, lastSymbol: 1, lastDecision: 1 };
+
+  // HDLC deframer state
+  private readonly hdlc = {
+    shift: 0, ones: 0, collecting: false, bits: [] as number[], buffer: [] as number[]
+  };
+
+  // Debug counters
+  private readonly debug = {
+    framesReceived: 0, fcsErrors: 0, aborts: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: Bell202Config): void {
+    this.config = { ...DEFAULT_BELL202_CONFIG, ...config } as Bell202Config;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, markFrequency, spaceFrequency } = this.config;
+    Object.assign(this.params, {
+      samplesPerBit: sampleRate / baudRate,
+      windowLength: Math.round(sampleRate / baudRate),
+      markOmega: 2 * Math.PI * markFrequency / sampleRate,
+      spaceOmega: 2 * Math.PI * spaceFrequency / sampleRate
+    });
+  }
+
+  private initializeDSP(): void {
+    const { markFrequency, spaceFrequency, preFilterBandwidth, sampleRate } = this.config;
+    this.dsp.preFilter = preFilterBandwidth > 0
+      ? FilterFactory.createIIRBandpass((markFrequency + spaceFrequency) / 2, preFilterBandwidth, sampleRate)
+      : undefined;
+    // Interleaved mark I, mark Q, space I, space Q per sample
+    this.tones.history = new RingBuffer(Float64Array, this.params.windowLength * 4);
+  }
+
+  private resetState(): void {
+    Object.assign(this.tones, { markPhase: 0, spacePhase: 0, markI: 0, markQ: 0, spaceI: 0, spaceQ: 0 });
+    this.tones.history?.clear();
+    Object.assign(this.bitSync, { phase: 0, lastSymbol: 1, lastDecision: 1 });
+    Object.assign(this.hdlc, { shift: 0, ones: 0, collecting: false, bits: [] });
+    this.dsp.preFilter?.reset();
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('Bell 202 demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        const sample = this.dsp.preFilter ? this.dsp.preFilter.process(samples[i]) : samples[i];
+        this.processSample(sample);
+      }
+
+      if (this.hdlc.buffer.length > 0) {
+        const result = new Uint8Array(this.hdlc.buffer);
+        this.hdlc.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const tones = this.tones;
+    const history = tones.history!;
+
+    const markI = sample * Math.cos(tones.markPhase), markQ = -sample * Math.sin(tones.markPhase);
+    const spaceI = sample * Math.cos(tones.spacePhase), spaceQ = -sample * Math.sin(tones.spacePhase);
+    tones.markPhase = (tones.markPhase + this.params.markOmega) % (2 * Math.PI);
+    tones.spacePhase = (tones.spacePhase + this.params.spaceOmega) % (2 * Math.PI);
+
+    // Sliding sums over one bit
+    if (history.length === history.capacity) {
+      tones.markI -= history.get(0);
+      tones.markQ -= history.get(1);
+      tones.spaceI -= history.get(2);
+      tones.spaceQ -= history.get(3);
+    }
+    history.put(markI, markQ, spaceI, spaceQ);
+    tones.markI += markI;
+    tones.markQ += markQ;
+    tones.spaceI += spaceI;
+    tones.spaceQ += spaceQ;
+
+    const markEnergy = tones.markI * tones.markI + tones.markQ * tones.markQ;
+    const spaceEnergy = tones.spaceI * tones.spaceI + tones.spaceQ * tones.spaceQ;
+    const symbol = markEnergy > spaceEnergy ? 1 : 0;
+
+    // DPLL: transitions belong half way between bit decisions
+    const sync = this.bitSync;
+    sync.phase += 1 / this.params.samplesPerBit;
+    if (symbol !== sync.lastSymbol) {
+      sync.phase += (0.5 - sync.phase) * PLL_GAIN;
+      sync.lastSymbol = symbol;
+    }
+    if (sync.phase >= 1) {
+      sync.phase -= 1;
+      // NRZI: no tone change = 1, tone change = 0
+      this.processBit(symbol === sync.lastDecision ? 1 : 0);
+      sync.lastDecision = symbol;
+    }
+  }
+
+  /**
+   * HDLC deframing: flag detection, bit unstuffing, abort detection
+   */
+  private processBit(bit: number): void {
+    const hdlc = this.hdlc;
+    hdlc.shift = ((hdlc.shift << 1) | bit) & 0xFF;
+
+    if (hdlc.shift === HDLC_FLAG) {
+      // The first seven flag bits were already collected as data
+      if (hdlc.collecting) this.finishFrame(hdlc.bits.slice(0, -7));
+      Object.assign(hdlc, { collecting: true, bits: [], ones: 0 });
+      return;
+    }
+
+    if (!hdlc.collecting) return;
+
+    if (bit === 1) {
+      hdlc.ones++;
+      if (hdlc.ones >= 7) {
+        // Abort sequence (or idle mark tone)
+        if (hdlc.bits.length > 16) this.debug.aborts++;
+        Object.assign(hdlc, { collecting: false, bits: [], ones: 0 });
+        return;
+      }
+      hdlc.bits.push(1);
+    } else {
+      // Zero after five ones is a stuffed bit
+      if (hdlc.ones !== 5) hdlc.bits.push(0);
+      hdlc.ones = 0;
+    }
+
+    if (hdlc.bits.length > (this.config.maxFrameLength + 1) * 8) {
+      Object.assign(hdlc, { collecting: false, bits: [], ones: 0 });
+    }
+  }
+
+  private finishFrame(bits: number[]): void {
+    // Back-to-back flags and fragments between them are not frames
+    if (bits.length < MIN_FRAME_BYTES * 8 || bits.length % 8 !== 0) return;
+
+    const bytes = new Uint8Array(bits.length / 8);
+    for (let i = 0; i < bits.length; i++) {
+      bytes[i >> 3] |= bits[i] << (i & 7);
+    }
+
+    const data = bytes.subarray(0, bytes.length - 2);
+    const fcs = bytes[bytes.length - 2] | (bytes[bytes.length - 1] << 8);
+    if (CRC16.calculateX25(data) !== fcs) {
+      this.debug.fcsErrors++;
+      return;
+    }
+
+    this.debug.framesReceived++;
+    this.hdlc.buffer.push(...data);
+    this.emit('eod');
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('Bell 202 modulator not configured');
+    }
+
+    return this.generateAFSKSignal(this.buildFrameBits(data));
+  }
+
+  /**
+   * TXDELAY flags, bit-stuffed frame with FCS (LSB first), closing flags
+   */
+  private buildFrameBits(data: Uint8Array): number[] {
+    const bits: number[] = [];
+    const pushFlags = (count: number) => {
+      for (let n = 0; n < count; n++) {
+        for (let i = 0; i < 8; i++) bits.push((HDLC_FLAG >> i) & 1);
+      }
+    };
+
+    pushFlags(this.config.txDelayFlags);
+    if (data.length === 0) return bits;
+
+    const fcs = CRC16.calculateX25(data);
+    let ones = 0;
+    for (const byte of [...data, fcs & 0xFF, fcs >> 8]) {
+      for (let i = 0; i < 8; i++) {
+        const bit = (byte >> i) & 1;
+        bits.push(bit);
+        ones = bit ? ones + 1 : 0;
+        if (ones === 5) {
+          bits.push(0);
+          ones = 0;
+        }
+      }
+    }
+    pushFlags(Math.max(1, this.config.txTailFlags));
+    return bits;
+  }
+
+  private generateAFSKSignal(bits: number[]): Float32Array {
+    const { sampleRate, baudRate } = this.config;
+    const output = new Float32Array(Math.round(bits.length * sampleRate / baudRate));
+
+    let sampleIndex = 0;
+    let phase = 0;
+    let tone = 1;
+    bits.forEach((bit, n) => {
+      // NRZI: 0 changes the tone, 1 keeps it
+      if (bit === 0) tone ^= 1;
+      const omega = tone ? this.params.markOmega : this.params.spaceOmega;
+      const end = Math.round((n + 1) * sampleRate / baudRate);
+      for (; sampleIndex < end; sampleIndex++) {
+        output[sampleIndex] = Math.sin(phase);
+        phase = (phase + omega) % (2 * Math.PI);
+      }
+    });
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.hdlc.buffer = [];
+    Object.assign(this.debug, { framesReceived: 0, fcsErrors: 0, aborts: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      flagSync: this.hdlc.collecting,
+      byteBufferLength: this.hdlc.buffer.length,
+      framesReceived: this.debug.framesReceived,
+      fcsErrors: this.debug.fcsErrors,
+      aborts: this.debug.aborts,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,522 @@
+import { BaseModulator, type BaseModulatorConfig, type ModulationType, type SignalQuality } from '../core';
+import { FFT } from '../dsp/fft';
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { RingBuffer } from '@/utils';
+
+export interface CSSConfig extends BaseModulatorConfig {
+  spreadingFactor: number;  // Bits per symbol, 2^SF chips per chirp (5..12)
+  bandwidth: number;        // Chirp sweep width = chip rate (Hz)
+  centerFrequency: number;  // Centre of the sweep
+  preambleLength: number;   // Up-chirps before the two sync down-chirps
+  syncThreshold: number;    // Dechirped peak power relative to the mean bin power
+}
+
+export const DEFAULT_CSS_CONFIG: CSSConfig = {
+  sampleRate: 48000,
+  baudRate: 1000 / 256,     // Derived: bandwidth / 2^spreadingFactor
+  spreadingFactor: 8,
+  bandwidth: 1000,
+  centerFrequency: 2000,
+  preambleLength: 8,
+  syncThreshold: 4
+};
+
+// Frame header: 16-bit length + its complement
+const HEADER_BITS = 32;
+
+// Consecutive windows with the same up-chirp peak needed for preamble detection
+const PREAMBLE_DETECT_WINDOWS = 3;
+
+// Down-chirps that mark the start of the frame
+const SYNC_DOWNCHIRPS = 2;
+
+// Windows without a preamble or sync chirp before the receiver gives up
+const SYNC_MISS_LIMIT = 3;
+
+// Fraction of the residual peak offset (in chips) corrected per data symbol
+const TIMING_GAIN = 0.5;
+
+// Frame is dropped when the dechirped peak stays below syncThreshold / 2
+const CARRIER_LOSS_SYMBOLS = 3;
+
+// Receive lowpass (complex baseband), relative to the bandwidth
+const LOWPASS_CUTOFF = 0.6;
+const LOWPASS_STAGES = 3;
+
+// Smoothing of the per-symbol SNR estimate
+const SNR_SMOOTHING = 0.1;
+
+function bytesToBits(data: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let b = 7; b >= 0; b--) bits.push((data[i] >> b) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[start + i];
+  return value;
+}
+
+interface ChirpPeak {
+  bin: number;     // Strongest bin
+  offset: number;  // Fractional peak position relative to bin (-0.5..0.5)
+  power: number;
+  ratio: number;   // Peak power / mean power of the other bins
+}
+
+/**
+ * Chirp Spread Spectrum (LoRa-style) Core implementation
+ *
+ * Each symbol is a linear up-chirp over `bandwidth`, cyclically shifted by one of
+ * 2^SF chip positions. The receiver multiplies by the conjugate base chirp and
+ * takes an FFT of 2^SF chips, which collects the whole symbol energy into one bin:
+ * the processing gain (10*log10(2^SF) dB) lets frames through well below 0 dB SNR,
+ * at a bitrate of SF * bandwidth / 2^SF.
+ *
+ * Frame: preamble up-chirps, two down-chirps (frame sync), 32-bit length header,
+ * payload. The up-chirp peak bin gives the symbol timing, the data symbol peaks
+ * keep tracking it. demodulateData() emits 'eod' when the announced length has
+ * been received.
+ */
+export class CSSCore extends BaseModulator<CSSConfig> {
+  readonly name = 'CSS';
+  readonly type: ModulationType = 'CSS';
+
+  // DSP components
+  private readonly dsp = {
+    fft: undefined as FFT | undefined,
+    lowpassI: [] as IIRFilter[],
+    lowpassQ: [] as IIRFilter[],
+    // Base up-chirp sampled at the chip rate
+    chirpCos: new Float64Array(0),
+    chirpSin: new Float64Array(0),
+    // FFT work buffers
+    re: new Float64Array(0),
+    im: new Float64Array(0),
+    loPhase: 0
+  };
+
+  // Processing parameters
+  private readonly params = {
+    chips: 0, samplesPerChip: 0, samplesPerSymbol: 0, loOmega: 0
+  };
+
+  // Complex baseband history
+  private readonly history = {
+    i: undefined as RingBuffer<Float64Array> | undefined,
+    q: undefined as RingBuffer<Float64Array> | undefined,
+    sampleCount: 0
+  };
+
+  // Receiver state: the next dechirp window starts at `windowStart` (absolute sample)
+  private readonly sync = {
+    state: 'search' as 'search' | 'preamble' | 'data',
+    windowStart: 0,
+    detections: [] as ChirpPeak[],
+    misses: 0,
+    preambleWindows: 0
+  };
+
+  // Frame state
+  private readonly frame = {
+    weakSymbols: 0, bits: [] as number[], expectedBits: 0
+  };
+
+  // Byte assembly state
+  private readonly byteState = { buffer: [] as number[] };
+
+  // Signal quality (dechirped peak relative to the noise bins)
+  private readonly quality = { snr: 0, symbols: 0 };
+
+  // Debug counters
+  private readonly debug = {
+    syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: CSSConfig): void {
+    const merged = { ...DEFAULT_CSS_CONFIG, ...config } as CSSConfig;
+    if (!Number.isInteger(merged.spreadingFactor) || merged.spreadingFactor < 5 || merged.spreadingFactor > 12) {
+      throw new Error(`Spreading factor must be between 5 and 12: ${merged.spreadingFactor}`);
+    }
+    if (merged.centerFrequency - merged.bandwidth / 2 <= 0 || merged.centerFrequency + merged.bandwidth / 2 >= merged.sampleRate / 2) {
+      throw new Error('Chirp sweep must lie between 0 Hz and the Nyquist frequency');
+    }
+    if (merged.preambleLength < PREAMBLE_DETECT_WINDOWS + 1) {
+      throw new Error(`Preamble must have at least ${PREAMBLE_DETECT_WINDOWS + 1} up-chirps`);
+    }
+    merged.baudRate = merged.bandwidth / 2 ** merged.spreadingFactor;
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  get bitsPerSymbol(): number {
+    return this.config?.spreadingFactor ?? 0;
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, bandwidth, spreadingFactor, centerFrequency } = this.config;
+    const chips = 2 ** spreadingFactor;
+    const samplesPerChip = sampleRate / bandwidth;
+    Object.assign(this.params, {
+      chips,
+      samplesPerChip,
+      samplesPerSymbol: chips * samplesPerChip,
+      loOmega: 2 * Math.PI * centerFrequency / sampleRate
+    });
+  }
+
+  private initializeDSP(): void {
+    const { chips, samplesPerSymbol } = this.params;
+    const { bandwidth, sampleRate } = this.config;
+    const dsp = this.dsp;
+
+    dsp.fft = new FFT(chips);
+    dsp.re = new Float64Array(chips);
+    dsp.im = new Float64Array(chips);
+    dsp.lowpassI = Array.from({ length: LOWPASS_STAGES }, () => FilterFactory.createIIRLowpass(LOWPASS_CUTOFF * bandwidth, sampleRate));
+    dsp.lowpassQ = Array.from({ length: LOWPASS_STAGES }, () => FilterFactory.createIIRLowpass(LOWPASS_CUTOFF * bandwidth, sampleRate));
+
+    // Baseband up-chirp from -B/2 to +B/2: phase 2pi (c^2 / 2N - c / 2) at chip c
+    dsp.chirpCos = new Float64Array(chips);
+    dsp.chirpSin = new Float64Array(chips);
+    for (let c = 0; c < chips; c++) {
+      const phase = 2 * Math.PI * (c * c / (2 * chips) - c / 2);
+      dsp.chirpCos[c] = Math.cos(phase);
+      dsp.chirpSin[c] = Math.sin(phase);
+    }
+
+    // Window realignment may look back up to one symbol
+    const historyLength = Math.ceil(2 * samplesPerSymbol) + 2;
+    this.history.i = new RingBuffer(Float64Array, historyLength);
+    this.history.q = new RingBuffer(Float64Array, historyLength);
+  }
+
+  private resetState(): void {
+    this.dsp.lowpassI.forEach(filter => filter.reset());
+    this.dsp.lowpassQ.forEach(filter => filter.reset());
+    this.dsp.loPhase = 0;
+    this.history.i?.clear();
+    this.history.q?.clear();
+    this.history.sampleCount = 0;
+    Object.assign(this.sync, { state: 'search', windowStart: 0, detections: [], misses: 0, preambleWindows: 0 });
+    Object.assign(this.quality, { snr: 0, symbols: 0 });
+    this.endFrame();
+  }
+
+  private endFrame(): void {
+    Object.assign(this.frame, { weakSymbols: 0, bits: [], expectedBits: 0 });
+    if (this.sync.state !== 'search') {
+      Object.assign(this.sync, { state: 'search', detections: [], misses: 0, preambleWindows: 0 });
+    }
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('CSS demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const dsp = this.dsp;
+
+    // Mix the sweep centre down to 0 Hz and keep only the chirp band
+    let i = sample * Math.cos(dsp.loPhase);
+    let q = -sample * Math.sin(dsp.loPhase);
+    dsp.loPhase = (dsp.loPhase + this.params.loOmega) % (2 * Math.PI);
+    for (const filter of dsp.lowpassI) i = filter.process(i);
+    for (const filter of dsp.lowpassQ) q = filter.process(q);
+
+    this.history.i!.put(i);
+    this.history.q!.put(q);
+    this.history.sampleCount++;
+
+    const lastChip = Math.round(this.sync.windowStart + (this.params.chips - 1) * this.params.samplesPerChip);
+    if (this.history.sampleCount > lastChip) {
+      this.processWindow();
+    }
+  }
+
+  /**
+   * Dechirp one symbol window (one sample per chip) against the up-chirp or,
+   * with `down`, the down-chirp and find the strongest FFT bin
+   */
+  private dechirp(windowStart: number, down: boolean): ChirpPeak {
+    const { chips, samplesPerChip } = this.params;
+    const { re, im, chirpCos, chirpSin } = this.dsp;
+    const newest = this.history.sampleCount - 1;
+
+    for (let c = 0; c < chips; c++) {
+      const ago = newest - Math.round(windowStart + c * samplesPerChip);
+      const i = this.history.i!.get(-1 - ago);
+      const q = this.history.q!.get(-1 - ago);
+      // Up-chirp: multiply by the conjugate base chirp; down-chirp (its conjugate): by the base chirp
+      const s = down ? chirpSin[c] : -chirpSin[c];
+      re[c] = i * chirpCos[c] - q * s;
+      im[c] = i * s + q * chirpCos[c];
+    }
+    this.dsp.fft!.forward(re, im);
+
+    let bin = 0;
+    let total = 0;
+    for (let k = 0; k < chips; k++) {
+      re[k] = re[k] * re[k] + im[k] * im[k];
+      total += re[k];
+      if (re[k] > re[bin]) bin = k;
+    }
+
+    // Parabolic interpolation on the magnitudes around the peak
+    const left = Math.sqrt(re[(bin + chips - 1) % chips]);
+    const center = Math.sqrt(re[bin]);
+    const right = Math.sqrt(re[(bin + 1) % chips]);
+    const denominator = 2 * (2 * center - left - right);
+    const offset = denominator > 0 ? Math.max(-0.5, Math.min(0.5, (right - left) / denominator)) : 0;
+
+    const noise = (total - re[bin]) / (chips - 1);
+    return { bin, offset, power: re[bin], ratio: noise > 0 ? re[bin] / noise : 0 };
+  }
+
+  // Peak position as a signed chip offset (-N/2..N/2)
+  private signedOffset(peak: ChirpPeak): number {
+    const { chips } = this.params;
+    const position = peak.bin + peak.offset;
+    return position > chips / 2 ? position - chips : position;
+  }
+
+  private processWindow(): void {
+    const sync = this.sync;
+    const { samplesPerSymbol, samplesPerChip } = this.params;
+    const windowStart = sync.windowStart;
+    sync.windowStart += samplesPerSymbol;
+
+    if (sync.state === 'search') {
+      this.searchPreamble(windowStart);
+    } else if (sync.state === 'preamble') {
+      this.searchSyncChirps(windowStart);
+    } else {
+      const peak = this.dechirp(windowStart, false);
+      // A peak between bins means the window is off by that many chips
+      sync.windowStart -= TIMING_GAIN * peak.offset * samplesPerChip;
+      this.decideSymbol(peak);
+    }
+  }
+
+  /**
+   * Free-running windows see cyclically shifted up-chirps during the preamble:
+   * the same peak bin in consecutive windows is the timing offset in chips
+   */
+  private searchPreamble(windowStart: number): void {
+    const sync = this.sync;
+    const { chips, samplesPerSymbol, samplesPerChip } = this.params;
+    const peak = this.dechirp(windowStart, false);
+
+    if (peak.ratio < this.config.syncThreshold) {
+      sync.detections = [];
+      return;
+    }
+    const previous = sync.detections[sync.detections.length - 1];
+    const distance = previous ? Math.abs(peak.bin - previous.bin) % chips : 0;
+    if (previous && Math.min(distance, chips - distance) > 1) {
+      sync.detections = [];
+    }
+    sync.detections.push(peak);
+    if (sync.detections.length < PREAMBLE_DETECT_WINDOWS) return;
+
+    // This window started `position` chips after an up-chirp boundary
+    const position = peak.bin + peak.offset;
+    sync.windowStart = windowStart + samplesPerSymbol - position * samplesPerChip;
+    this.debug.syncDetections++;
+    Object.assign(sync, { state: 'preamble', detections: [], misses: 0, preambleWindows: 0 });
+  }
+
+  /**
+   * Aligned windows: keep refining timing on the remaining up-chirps until the
+   * first down-chirp, the data starts after the last one
+   */
+  private searchSyncChirps(windowStart: number): void {
+    const sync = this.sync;
+    const { samplesPerChip, samplesPerSymbol } = this.params;
+    const threshold = this.config.syncThreshold;
+    const up = this.dechirp(windowStart, false);
+    const upOffset = this.signedOffset(up);
+    const down = this.dechirp(windowStart, true);
+
+    if (down.ratio > threshold && down.ratio > up.ratio) {
+      sync.windowStart += (SYNC_DOWNCHIRPS - 1) * samplesPerSymbol;
+      Object.assign(sync, { state: 'data', misses: 0 });
+      return;
+    }
+
+    if (up.ratio > threshold) {
+      sync.windowStart -= upOffset * samplesPerChip;
+      sync.misses = 0;
+    } else {
+      sync.misses++;
+    }
+    if (sync.misses >= SYNC_MISS_LIMIT || ++sync.preambleWindows > this.config.preambleLength + SYNC_MISS_LIMIT) {
+      this.endFrame();
+    }
+  }
+
+  private decideSymbol(peak: ChirpPeak): void {
+    const { chips } = this.params;
+
+    if (peak.ratio < this.config.syncThreshold / 2) {
+      if (++this.frame.weakSymbols >= CARRIER_LOSS_SYMBOLS) {
+        this.debug.carrierLosses++;
+        this.endFrame();
+        return;
+      }
+    } else {
+      this.frame.weakSymbols = 0;
+    }
+
+    // Processing gain N: peak / noise bin = N * SNR + 1
+    const snr = Math.max(peak.ratio - 1, 1e-3) / chips;
+    this.quality.snr = this.quality.symbols === 0 ? snr : this.quality.snr + SNR_SMOOTHING * (snr - this.quality.snr);
+    this.quality.symbols++;
+
+    // Gray code: neighbouring bins (the likely errors) differ in one bit
+    const value = peak.bin ^ (peak.bin >> 1);
+    for (let b = this.config.spreadingFactor - 1; b >= 0; b--) this.frame.bits.push((value >> b) & 1);
+
+    this.processBits();
+  }
+
+  private processBits(): void {
+    const frame = this.frame;
+
+    if (frame.expectedBits === 0 && frame.bits.length >= HEADER_BITS) {
+      const length = bitsToNumber(frame.bits, 0, 16);
+      const check = bitsToNumber(frame.bits, 16, 16);
+      if ((length ^ check) !== 0xFFFF) {
+        this.debug.headerErrors++;
+        this.endFrame();
+        return;
+      }
+      frame.expectedBits = HEADER_BITS + length * 8;
+    }
+
+    if (frame.expectedBits > 0 && frame.bits.length >= frame.expectedBits) {
+      for (let i = HEADER_BITS; i < frame.expectedBits; i += 8) {
+        this.byteState.buffer.push(bitsToNumber(frame.bits, i, 8));
+      }
+      this.endFrame();
+      this.emit('eod');
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('CSS modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error('CSS frame too long');
+    }
+
+    const { spreadingFactor, preambleLength } = this.config;
+    const length = data.length;
+    const bits = bytesToBits([length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...data]);
+    while (bits.length % spreadingFactor !== 0) bits.push(0);
+
+    const symbols: number[] = [];
+    for (let i = 0; i < bits.length; i += spreadingFactor) {
+      let shift = bitsToNumber(bits, i, spreadingFactor);
+      for (let s = 1; s < spreadingFactor; s <<= 1) shift ^= shift >> s;
+      symbols.push(shift);
+    }
+
+    return this.generateChirps(preambleLength, symbols);
+  }
+
+  /**
+   * Preamble up-chirps, sync down-chirps and data chirps, phase continuous,
+   * followed by one symbol of silence for the receive filter delay
+   */
+  private generateChirps(preambleLength: number, symbols: number[]): Float32Array {
+    const { sampleRate, bandwidth, centerFrequency } = this.config;
+    const { chips, samplesPerSymbol } = this.params;
+    const chirps: { shift: number; down: boolean }[] = [
+      ...Array.from({ length: preambleLength }, () => ({ shift: 0, down: false })),
+      ...Array.from({ length: SYNC_DOWNCHIRPS }, () => ({ shift: 0, down: true })),
+      ...symbols.map(shift => ({ shift, down: false }))
+    ];
+    const output = new Float32Array(Math.round((chirps.length + 1) * samplesPerSymbol));
+
+    let phase = 0;
+    let sampleIndex = 0;
+    chirps.forEach((chirp, n) => {
+      const end = Math.round((n + 1) * samplesPerSymbol);
+      const start = sampleIndex;
+      for (; sampleIndex < end; sampleIndex++) {
+        // Position in the sweep (0..1), cyclically shifted by the symbol value
+        const position = ((sampleIndex - start) / samplesPerSymbol + chirp.shift / chips) % 1;
+        const sweep = chirp.down ? 0.5 - position : position - 0.5;
+        output[sampleIndex] = Math.sin(phase);
+        phase = (phase + 2 * Math.PI * (centerFrequency + sweep * bandwidth) / sampleRate) % (2 * Math.PI);
+      }
+    });
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getSignalQuality(): SignalQuality {
+    return {
+      snr: this.quality.symbols > 0 ? 10 * Math.log10(this.quality.snr) : 0,
+      ber: 0,
+      eyeOpening: 0,
+      phaseJitter: 0,
+      frequencyOffset: 0
+    };
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      syncState: this.sync.state,
+      spreadingFactor: this.config?.spreadingFactor,
+      receivedBits: this.frame.bits.length,
+      byteBufferLength: this.byteState.buffer.length,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      carrierLosses: this.debug.carrierLosses,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,556 @@
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { RingBuffer } from '@/utils';
+import { BARKER_CODES } from '../utils/spreading-codes';
+
+export interface DSSSConfig extends BaseModulatorConfig {
+  carrierFrequency: number;
+  chipRate: number;          // Chips per second; baudRate is derived as chipRate / code length
+  spreadingCode: number[];   // ±1 chips per bit (Barker, m-sequence or Gold code)
+  preambleBits: number;      // Unmodulated code periods for acquisition
+  syncThreshold: number;     // Correlation peak to average power ratio to acquire and hold lock
+  maxSyncErrors: number;     // Bit errors tolerated in preamble tail + sync word
+}
+
+export const DEFAULT_DSSS_CONFIG: DSSSConfig = {
+  sampleRate: 48000,
+  baudRate: 100,
+  carrierFrequency: 2000,
+  chipRate: 1300,
+  spreadingCode: BARKER_CODES[13],
+  preambleBits: 16,
+  syncThreshold: 6,
+  maxSyncErrors: 2
+};
+
+// Sync pattern: last 8 preamble bits (all 1) followed by the sync word
+const SYNC_WORD = 0x2DD4;
+const SYNC_PATTERN = 0xFF << 16 | SYNC_WORD;
+const SYNC_MASK = 0xFFFFFF;
+
+// Frame header: 16-bit length + its complement
+const HEADER_BITS = 32;
+
+// Unmodulated code periods after the frame flush the receive filters
+const TAIL_BITS = 2;
+
+// Receive lowpass on the complex baseband, cutoff relative to the chip rate
+const RX_FILTER_CUTOFF = 2.0;
+const RX_FILTER_STAGES = 2;
+
+// Narrowband interference canceller: NLMS prediction taps one chip apart, and step size
+const CANCELLER_TAPS = 4;
+const CANCELLER_STEP = 0.002;
+
+// Fraction of the correlation peak offset corrected every bit
+const TRACKING_GAIN = 0.5;
+
+// Lock is dropped after this many bits below the sync threshold
+const LOCK_LOSS_BITS = 4;
+
+function bytesToBits(data: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let b = 7; b >= 0; b--) bits.push((data[i] >> b) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[start + i];
+  return value;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v !== 0; v &= v - 1) count++;
+  return count;
+}
+
+/**
+ * Direct-sequence spread spectrum Core implementation
+ *
+ * Every bit is multiplied by the spreading code and sent as BPSK chips, differentially
+ * encoded (bit 1 = no phase change, bit 0 = phase reversal) so that no carrier recovery
+ * is needed. The receiver correlates the complex baseband with the code at every sample
+ * (sliding correlator); the correlation peak once per bit gives acquisition, is tracked
+ * within ±half a chip, and the phase change between successive peaks gives the bit.
+ *
+ * Despreading collects the signal into one bit while narrowband interference (hum,
+ * whistles) is spread over the code bandwidth, a processing gain of 10·log10(N) dB;
+ * an adaptive prediction error filter removes tones well above the signal level first.
+ * Transmitters with different codes (e.g. Gold codes) can share the same band.
+ * Frame: preamble, 16-bit sync word, 32-bit length header, payload.
+ */
+export class DSSSCore extends BaseModulator<DSSSConfig> {
+  readonly name = 'DSSS';
+  readonly type: ModulationType = 'PSK';
+
+  // DSP components
+  private readonly dsp = {
+    lowpassI: [] as IIRFilter[],
+    lowpassQ: [] as IIRFilter[],
+    loPhase: 0
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerChip: 0, samplesPerBit: 0, chipSamples: 0, window: 0,
+    loOmega: 0, tapOffsets: [] as number[]
+  };
+
+  // Chip matched filter (moving sum over one chip) and its output history for the correlator
+  private readonly matched = {
+    chipI: undefined as RingBuffer<Float64Array> | undefined,
+    chipQ: undefined as RingBuffer<Float64Array> | undefined,
+    sumI: 0, sumQ: 0,
+    historyI: undefined as RingBuffer<Float64Array> | undefined,
+    historyQ: undefined as RingBuffer<Float64Array> | undefined
+  };
+
+  // Narrowband interference canceller: matched filter output predicted from earlier chips
+  private readonly canceller = {
+    weightsI: new Float64Array(CANCELLER_TAPS),
+    weightsQ: new Float64Array(CANCELLER_TAPS),
+    inputI: undefined as RingBuffer<Float64Array> | undefined,
+    inputQ: undefined as RingBuffer<Float64Array> | undefined,
+    averagePower: 0
+  };
+
+  // Correlator output history covering the tracking window, and its power over one bit
+  private readonly correlation = {
+    i: undefined as RingBuffer<Float64Array> | undefined,
+    q: undefined as RingBuffer<Float64Array> | undefined,
+    metric: undefined as RingBuffer<Float64Array> | undefined,
+    power: undefined as RingBuffer<Float64Array> | undefined,
+    powerSum: 0
+  };
+
+  // Code phase acquisition and tracking
+  private readonly tracking = {
+    locked: false, confirmed: false, sampleIndex: 0,
+    candidateEnd: -1, candidatePower: 0, candidateMetric: 0, candidateIndex: 0, candidateI: 0, candidateQ: 0,
+    nextPeak: 0, previousI: 0, previousQ: 0, metric: 0, weakBits: 0
+  };
+
+  // Frame state
+  private readonly frame = {
+    started: false, shift: 0, bits: [] as number[], expectedBits: 0
+  };
+
+  // Byte assembly state
+  private readonly byteState = { buffer: [] as number[] };
+
+  // Debug counters
+  private readonly debug = {
+    acquisitions: 0, syncDetections: 0, headerErrors: 0, lockLosses: 0,
+    demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: DSSSConfig): void {
+    const merged = { ...DEFAULT_DSSS_CONFIG, ...config } as DSSSConfig;
+    const { spreadingCode, chipRate, carrierFrequency, sampleRate } = merged;
+    // Shorter codes repeat within the canceller taps and would be cancelled themselves
+    if (spreadingCode.length < 7 || spreadingCode.some(chip => chip !== 1 && chip !== -1)) {
+      throw new Error('DSSS spreading code must have at least 7 chips of ±1');
+    }
+    if (carrierFrequency - chipRate <= 0 || carrierFrequency + chipRate >= sampleRate / 2) {
+      throw new Error('DSSS signal must lie between 0 Hz and the Nyquist frequency');
+    }
+    if (sampleRate / chipRate < 4) {
+      throw new Error('DSSS chip rate too high for the sample rate');
+    }
+    if (merged.preambleBits < 8) {
+      throw new Error('DSSS preamble must have at least 8 bits');
+    }
+    merged.baudRate = chipRate / spreadingCode.length;
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, chipRate, carrierFrequency, spreadingCode } = this.config;
+    const samplesPerChip = sampleRate / chipRate;
+    const length = spreadingCode.length;
+    Object.assign(this.params, {
+      samplesPerChip,
+      samplesPerBit: samplesPerChip * length,
+      chipSamples: Math.round(samplesPerChip),
+      window: Math.ceil(samplesPerChip / 2),
+      loOmega: 2 * Math.PI * carrierFrequency / sampleRate,
+      // Distance of each code chip from the newest matched filter output
+      tapOffsets: spreadingCode.map((_, k) => Math.round((length - 1 - k) * samplesPerChip))
+    });
+  }
+
+  private initializeDSP(): void {
+    const { chipRate, sampleRate } = this.config;
+    const { chipSamples, tapOffsets, window } = this.params;
+    const createChain = () => Array.from({ length: RX_FILTER_STAGES }, () =>
+      FilterFactory.createIIRLowpass(RX_FILTER_CUTOFF * chipRate, sampleRate));
+    this.dsp.lowpassI = createChain();
+    this.dsp.lowpassQ = createChain();
+
+    this.matched.chipI = new RingBuffer(Float64Array, chipSamples);
+    this.matched.chipQ = new RingBuffer(Float64Array, chipSamples);
+    this.matched.historyI = new RingBuffer(Float64Array, tapOffsets[0] + 1);
+    this.matched.historyQ = new RingBuffer(Float64Array, tapOffsets[0] + 1);
+    this.canceller.inputI = new RingBuffer(Float64Array, CANCELLER_TAPS * chipSamples + 1);
+    this.canceller.inputQ = new RingBuffer(Float64Array, CANCELLER_TAPS * chipSamples + 1);
+    this.correlation.i = new RingBuffer(Float64Array, 2 * window + 1);
+    this.correlation.q = new RingBuffer(Float64Array, 2 * window + 1);
+    this.correlation.metric = new RingBuffer(Float64Array, 2 * window + 1);
+    this.correlation.power = new RingBuffer(Float64Array, Math.round(this.params.samplesPerBit));
+  }
+
+  private resetState(): void {
+    [...this.dsp.lowpassI, ...this.dsp.lowpassQ].forEach(filter => filter.reset());
+    this.dsp.loPhase = 0;
+    const matched = this.matched;
+    [matched.chipI, matched.chipQ, matched.historyI, matched.historyQ].forEach(buffer => buffer?.clear());
+    Object.assign(matched, { sumI: 0, sumQ: 0 });
+    const canceller = this.canceller;
+    canceller.weightsI.fill(0);
+    canceller.weightsQ.fill(0);
+    canceller.inputI?.clear();
+    canceller.inputQ?.clear();
+    canceller.averagePower = 0;
+    const correlation = this.correlation;
+    [correlation.i, correlation.q, correlation.metric, correlation.power].forEach(buffer => buffer?.clear());
+    correlation.powerSum = 0;
+    Object.assign(this.tracking, { sampleIndex: 0 });
+    this.unlock();
+  }
+
+  private unlock(): void {
+    Object.assign(this.tracking, {
+      locked: false, confirmed: false, candidateEnd: -1, candidatePower: 0, candidateMetric: 0, candidateIndex: 0,
+      candidateI: 0, candidateQ: 0, nextPeak: 0, previousI: 0, previousQ: 0, metric: 0, weakBits: 0
+    });
+    this.endFrame();
+  }
+
+  private endFrame(): void {
+    Object.assign(this.frame, { started: false, shift: 0, bits: [], expectedBits: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('DSSS demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const dsp = this.dsp;
+    let i = sample * Math.cos(dsp.loPhase);
+    let q = -sample * Math.sin(dsp.loPhase);
+    dsp.loPhase = (dsp.loPhase + this.params.loOmega) % (2 * Math.PI);
+    for (const filter of dsp.lowpassI) i = filter.process(i);
+    for (const filter of dsp.lowpassQ) q = filter.process(q);
+
+    // Chip matched filter: running sum over one chip
+    const matched = this.matched;
+    const chipI = matched.chipI!;
+    const chipQ = matched.chipQ!;
+    if (chipI.length === chipI.capacity) {
+      matched.sumI -= chipI.get(0);
+      matched.sumQ -= chipQ.get(0);
+    }
+    chipI.put(i);
+    chipQ.put(q);
+    matched.sumI += i;
+    matched.sumQ += q;
+
+    const [errorI, errorQ] = this.cancelInterference(matched.sumI, matched.sumQ);
+    const historyI = matched.historyI!;
+    const historyQ = matched.historyQ!;
+    historyI.put(errorI);
+    historyQ.put(errorQ);
+    if (historyI.length < historyI.capacity) return;
+
+    this.correlate();
+  }
+
+  /**
+   * Prediction error filter: tones are predictable from the matched filter output one
+   * or more chips earlier, the spread signal is not. The NLMS predictor learns the
+   * interference and only the unpredictable part is passed on to the correlator.
+   */
+  private cancelInterference(i: number, q: number): [number, number] {
+    const canceller = this.canceller;
+    const inputI = canceller.inputI!;
+    const inputQ = canceller.inputQ!;
+    inputI.put(i);
+    inputQ.put(q);
+    if (inputI.length < inputI.capacity) return [i, q];
+
+    const { chipSamples } = this.params;
+    const { weightsI, weightsQ } = canceller;
+    const newest = inputI.length - 1;
+
+    // e = x[n] - Σ w_k x[n - kD]
+    let errorI = i, errorQ = q, power = 0;
+    for (let k = 0; k < CANCELLER_TAPS; k++) {
+      const xI = inputI.get(newest - (k + 1) * chipSamples);
+      const xQ = inputQ.get(newest - (k + 1) * chipSamples);
+      errorI -= weightsI[k] * xI - weightsQ[k] * xQ;
+      errorQ -= weightsI[k] * xQ + weightsQ[k] * xI;
+      power += xI * xI + xQ * xQ;
+    }
+
+    // w_k += μ e conj(x[n - kD]) / Σ|x|². The norm includes x[n] and is held at the average
+    // over one bit, so neither the onset after silence nor the decaying filter tail at the
+    // end of a transmission throws the taps off
+    power += i * i + q * q;
+    canceller.averagePower += (power - canceller.averagePower) / this.params.samplesPerBit;
+    if (power > 0) {
+      const step = CANCELLER_STEP / Math.max(power, canceller.averagePower);
+      for (let k = 0; k < CANCELLER_TAPS; k++) {
+        const xI = inputI.get(newest - (k + 1) * chipSamples);
+        const xQ = inputQ.get(newest - (k + 1) * chipSamples);
+        weightsI[k] += step * (errorI * xI + errorQ * xQ);
+        weightsQ[k] += step * (errorQ * xI - errorI * xQ);
+      }
+    }
+
+    return [errorI, errorQ];
+  }
+
+  /**
+   * Sliding correlator. The metric is the correlation power relative to its average
+   * over one bit: the aligned code stands out by up to N times, while noise and
+   * despread interference raise the average instead of producing a peak
+   */
+  private correlate(): void {
+    const { spreadingCode } = this.config;
+    const { tapOffsets } = this.params;
+    const historyI = this.matched.historyI!;
+    const historyQ = this.matched.historyQ!;
+    const newest = historyI.length - 1;
+
+    let corrI = 0, corrQ = 0;
+    for (let k = 0; k < spreadingCode.length; k++) {
+      const mI = historyI.get(newest - tapOffsets[k]);
+      const mQ = historyQ.get(newest - tapOffsets[k]);
+      corrI += spreadingCode[k] * mI;
+      corrQ += spreadingCode[k] * mQ;
+    }
+
+    const correlation = this.correlation;
+    const power = corrI * corrI + corrQ * corrQ;
+    const powerHistory = correlation.power!;
+    if (powerHistory.length === powerHistory.capacity) correlation.powerSum -= powerHistory.get(0);
+    powerHistory.put(power);
+    correlation.powerSum += power;
+    const average = correlation.powerSum / powerHistory.length;
+    const metric = powerHistory.length === powerHistory.capacity && average > 0 ? power / average : 0;
+
+    correlation.i!.put(corrI);
+    correlation.q!.put(corrQ);
+    correlation.metric!.put(metric);
+
+    const tracking = this.tracking;
+    const index = tracking.sampleIndex++;
+    if (tracking.locked) {
+      if (index >= Math.round(tracking.nextPeak) + this.params.window) this.trackPeak(index);
+    } else {
+      this.acquire(index, corrI, corrQ, power, metric);
+    }
+  }
+
+  /**
+   * Acquisition: the strongest correlation within one bit after the threshold is crossed.
+   * After silence the metric already crosses on the partial correlation of the leading
+   * edge, so the search covers a whole code period and compares raw power.
+   */
+  private acquire(index: number, corrI: number, corrQ: number, power: number, metric: number): void {
+    const tracking = this.tracking;
+    if (tracking.candidateEnd < 0) {
+      if (metric < this.config.syncThreshold) return;
+      tracking.candidateEnd = index + Math.round(this.params.samplesPerBit);
+      tracking.candidatePower = 0;
+    }
+    if (power > tracking.candidatePower) {
+      Object.assign(tracking, { candidatePower: power, candidateMetric: metric, candidateIndex: index, candidateI: corrI, candidateQ: corrQ });
+    }
+    if (index < tracking.candidateEnd) return;
+
+    this.debug.acquisitions++;
+    Object.assign(tracking, {
+      locked: true, confirmed: false, candidateEnd: -1, weakBits: 0,
+      nextPeak: tracking.candidateIndex + this.params.samplesPerBit,
+      previousI: tracking.candidateI, previousQ: tracking.candidateQ, metric: tracking.candidateMetric
+    });
+  }
+
+  /**
+   * Tracking: strongest correlation within ±half a chip of the expected peak
+   */
+  private trackPeak(index: number): void {
+    const tracking = this.tracking;
+    const { samplesPerBit } = this.params;
+    const correlation = this.correlation;
+    const metrics = correlation.metric!;
+
+    let best = 0;
+    for (let j = 1; j < metrics.length; j++) {
+      if (metrics.get(j) > metrics.get(best)) best = j;
+    }
+    const peakI = correlation.i!.get(best);
+    const peakQ = correlation.q!.get(best);
+    const metric = metrics.get(best);
+    tracking.metric = metric;
+
+    if (metric >= this.config.syncThreshold) {
+      tracking.confirmed = true;
+      tracking.weakBits = 0;
+      const offset = (index - (metrics.length - 1) + best) - tracking.nextPeak;
+      tracking.nextPeak += samplesPerBit + offset * TRACKING_GAIN;
+    } else {
+      tracking.nextPeak += samplesPerBit;
+      // An unconfirmed lock was a false alarm; a confirmed one survives short fades
+      if (!tracking.confirmed || ++tracking.weakBits >= LOCK_LOSS_BITS) {
+        if (tracking.confirmed) this.debug.lockLosses++;
+        this.unlock();
+        return;
+      }
+    }
+
+    // Differential detection: phase change between successive correlation peaks
+    const dot = peakI * tracking.previousI + peakQ * tracking.previousQ;
+    tracking.previousI = peakI;
+    tracking.previousQ = peakQ;
+    this.processBit(dot >= 0 ? 1 : 0);
+  }
+
+  private processBit(bit: number): void {
+    const frame = this.frame;
+
+    if (!frame.started) {
+      frame.shift = ((frame.shift << 1) | bit) & SYNC_MASK;
+      if (popcount(frame.shift ^ SYNC_PATTERN) <= this.config.maxSyncErrors) {
+        this.debug.syncDetections++;
+        Object.assign(frame, { started: true, bits: [], expectedBits: 0 });
+      }
+      return;
+    }
+
+    frame.bits.push(bit);
+
+    if (frame.expectedBits === 0 && frame.bits.length >= HEADER_BITS) {
+      const length = bitsToNumber(frame.bits, 0, 16);
+      const check = bitsToNumber(frame.bits, 16, 16);
+      if ((length ^ check) !== 0xFFFF) {
+        this.debug.headerErrors++;
+        this.endFrame();
+        return;
+      }
+      frame.expectedBits = HEADER_BITS + length * 8;
+    }
+
+    if (frame.expectedBits > 0 && frame.bits.length >= frame.expectedBits) {
+      for (let i = HEADER_BITS; i < frame.expectedBits; i += 8) {
+        this.byteState.buffer.push(bitsToNumber(frame.bits, i, 8));
+      }
+      this.endFrame();
+      this.emit('eod');
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('DSSS modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error('DSSS frame too long');
+    }
+
+    const length = data.length;
+    const bits = [
+      ...new Array(this.config.preambleBits).fill(1),
+      ...bytesToBits([SYNC_WORD >> 8, SYNC_WORD & 0xFF, length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...data]),
+      ...new Array(TAIL_BITS).fill(1)
+    ];
+
+    return this.generateSignal(bits);
+  }
+
+  /**
+   * Differentially encoded bits spread by the code, BPSK on the carrier
+   */
+  private generateSignal(bits: number[]): Float32Array {
+    const { spreadingCode } = this.config;
+    const { samplesPerChip, loOmega } = this.params;
+    const chips = bits.length * spreadingCode.length;
+    const output = new Float32Array(Math.round(chips * samplesPerChip));
+
+    let symbol = 1;
+    let sampleIndex = 0;
+    for (let b = 0; b < bits.length; b++) {
+      if (!bits[b]) symbol = -symbol;
+      for (let k = 0; k < spreadingCode.length; k++) {
+        const end = Math.round((b * spreadingCode.length + k + 1) * samplesPerChip);
+        const amplitude = symbol * spreadingCode[k];
+        for (; sampleIndex < end; sampleIndex++) {
+          output[sampleIndex] = amplitude * Math.sin(loOmega * sampleIndex);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, {
+      acquisitions: 0, syncDetections: 0, headerErrors: 0, lockLosses: 0,
+      demodulationCalls: 0, totalSamples: 0
+    });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      locked: this.tracking.locked,
+      correlation: this.tracking.metric,
+      frameStarted: this.frame.started,
+      receivedBits: this.frame.bits.length,
+      byteBufferLength: this.byteState.buffer.length,
+      acquisitions: this.debug.acquisitions,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      lockLosses: this.debug.lockLosses,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { Goertzel } from '../dsp/goertzel';
+
+export interface DTMFConfig extends BaseModulatorConfig {
+  toneDurationMs: number;   // Tone length per digit (Q.24: at least 40 ms)
+  pauseDurationMs: number;  // Silence between digits (Q.24: at least 40 ms)
+  minLevel: number;         // Minimum amplitude of each tone
+  maxForwardTwist: number;  // dB the high group may exceed the low group
+  maxReverseTwist: number;  // dB the low group may exceed the high group
+}
+
+export const DEFAULT_DTMF_CONFIG: DTMFConfig = {
+  sampleRate: 48000,
+  baudRate: 1000 / 120,     // Derived: digits per second
+  toneDurationMs: 70,
+  pauseDurationMs: 50,
+  minLevel: 0.01,
+  maxForwardTwist: 4,
+  maxReverseTwist: 8
+};
+
+// ITU-T Q.23 keypad: digit = row * 4 + column
+export const DTMF_LOW_FREQUENCIES = [697, 770, 852, 941];
+export const DTMF_HIGH_FREQUENCIES = [1209, 1336, 1477, 1633];
+const KEYPAD = '123A456B789C*0#D';
+
+// Nibble values of the byte API: 0x0-0x9 are the digits, 0xA-0xF the other keys
+export const DTMF_DIGITS = '0123456789*#ABCD';
+
+// Amplitude of each tone (the pair peaks at 1.0)
+const TONE_AMPLITUDE = 0.5;
+
+// Detector window (as Q.24 reference receivers use 205 samples at 8 kHz) and hop
+const WINDOW_SECONDS = 0.0256;
+
+// A digit is accepted after this many consecutive windows (fully inside a 40 ms tone)
+// and released after as many windows without it
+const MIN_DETECTIONS = 2;
+
+// Tones must carry most of the window energy (speech and noise spread wider)
+const MIN_TONE_ENERGY_RATIO = 0.7;
+
+// The second strongest tone of each group must be this much weaker
+const MIN_GROUP_DOMINANCE = 4;
+
+// Silence that ends a digit sequence ('eod')
+const EOD_SILENCE_SECONDS = 0.2;
+
+function digitFrequencies(digit: string): [number, number] {
+  const key = KEYPAD.indexOf(digit);
+  if (digit.length !== 1 || key < 0) {
+    throw new Error(`Invalid DTMF digit: ${digit}`);
+  }
+  return [DTMF_LOW_FREQUENCIES[key >> 2], DTMF_HIGH_FREQUENCIES[key & 3]];
+}
+
+function strongest(powers: number[]): number {
+  let index = 0;
+  for (let i = 1; i < powers.length; i++) {
+    if (powers[i] > powers[index]) index = i;
+  }
+  return index;
+}
+
+/**
+ * DTMF (ITU-T Q.23 / Q.24) Core implementation
+ *
+ * Digits are sent as a pair of tones, one from the low and one from the high group.
+ * The detector runs Goertzel filters over half-overlapping windows and accepts a
+ * digit when both tones dominate the window energy, the twist between them is
+ * within limits and the tone lasts for two consecutive windows (rejecting short
+ * bursts the way Q.24 asks).
+ *
+ * - modulateDigits() / 'digit' events: signalling with any of 0-9 * # A-D
+ * - modulateData() / demodulateData(): bytes packed as two digits (high nibble first),
+ *   'eod' after a pause following the last digit
+ */
+export class DTMFCore extends BaseModulator<DTMFConfig> {
+  readonly name = 'DTMF';
+  readonly type: ModulationType = 'DTMF';
+
+  // DSP components
+  private readonly dsp = {
+    low: [] as Goertzel[],
+    high: [] as Goertzel[],
+    window: new Float32Array(0)
+  };
+
+  // Processing parameters
+  private readonly params = {
+    windowLength: 0, hopLength: 0, eodWindows: 0
+  };
+
+  // Detector state
+  private readonly detector = {
+    filled: 0,
+    candidate: null as string | null,
+    candidateCount: 0,
+    digit: null as string | null,
+    missCount: 0,
+    silentWindows: 0,
+    pendingEod: false
+  };
+
+  // Byte assembly state: high nibble waiting for its low nibble
+  private readonly byteState = { buffer: [] as number[], highNibble: -1 };
+
+  // Debug counters
+  private readonly debug = {
+    digits: 0, twistRejects: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: DTMFConfig): void {
+    const merged = { ...DEFAULT_DTMF_CONFIG, ...config } as DTMFConfig;
+    if (merged.toneDurationMs < 40 || merged.pauseDurationMs < 40) {
+      throw new Error('DTMF tone and pause must last at least 40 ms');
+    }
+    if (DTMF_HIGH_FREQUENCIES[3] >= merged.sampleRate / 2) {
+      throw new Error('DTMF tones must be below Nyquist frequency');
+    }
+    merged.baudRate = 1000 / (merged.toneDurationMs + merged.pauseDurationMs);
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const windowLength = Math.round(this.config.sampleRate * WINDOW_SECONDS);
+    const hopLength = Math.round(windowLength / 2);
+    Object.assign(this.params, {
+      windowLength,
+      hopLength,
+      eodWindows: Math.ceil(this.config.sampleRate * EOD_SILENCE_SECONDS / hopLength)
+    });
+  }
+
+  private initializeDSP(): void {
+    const { sampleRate } = this.config;
+    this.dsp.low = DTMF_LOW_FREQUENCIES.map(frequency => new Goertzel(frequency, sampleRate));
+    this.dsp.high = DTMF_HIGH_FREQUENCIES.map(frequency => new Goertzel(frequency, sampleRate));
+    this.dsp.window = new Float32Array(this.params.windowLength);
+  }
+
+  private resetState(): void {
+    this.dsp.window.fill(0);
+    Object.assign(this.detector, {
+      filled: 0, candidate: null, candidateCount: 0, digit: null, missCount: 0, silentWindows: 0, pendingEod: false
+    });
+    this.byteState.highNibble = -1;
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('DTMF demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      const { windowLength, hopLength } = this.params;
+      const window = this.dsp.window;
+      const detector = this.detector;
+
+      for (let i = 0; i < samples.length; i++) {
+        window[detector.filled++] = samples[i];
+        if (detector.filled === windowLength) {
+          this.processWindow();
+          // Keep the second half: windows overlap by one hop
+          window.copyWithin(0, hopLength);
+          detector.filled = windowLength - hopLength;
+        }
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processWindow(): void {
+    const detector = this.detector;
+    const candidate = this.detectDigit();
+
+    if (candidate !== null && candidate === detector.candidate) {
+      detector.candidateCount++;
+    } else {
+      detector.candidate = candidate;
+      detector.candidateCount = candidate !== null ? 1 : 0;
+    }
+
+    if (detector.digit === null) {
+      if (candidate !== null && detector.candidateCount >= MIN_DETECTIONS) {
+        detector.digit = candidate;
+        detector.missCount = 0;
+        this.acceptDigit(candidate);
+      }
+    } else if (candidate !== detector.digit) {
+      // The digit ends after a pause long enough to separate repeated digits
+      if (++detector.missCount >= MIN_DETECTIONS) {
+        detector.digit = null;
+      }
+    } else {
+      detector.missCount = 0;
+    }
+
+    if (candidate === null && detector.digit === null) {
+      if (++detector.silentWindows >= this.params.eodWindows && detector.pendingEod) {
+        detector.pendingEod = false;
+        this.byteState.highNibble = -1;
+        this.emit('eod');
+      }
+    } else {
+      detector.silentWindows = 0;
+    }
+  }
+
+  /**
+   * Digit in the current window, or null when the window fails a Q.24 check
+   */
+  private detectDigit(): string | null {
+    const { window } = this.dsp;
+    const { minLevel, maxForwardTwist, maxReverseTwist } = this.config;
+
+    const lowPowers = this.dsp.low.map(goertzel => this.tonePower(goertzel));
+    const highPowers = this.dsp.high.map(goertzel => this.tonePower(goertzel));
+    const row = strongest(lowPowers);
+    const column = strongest(highPowers);
+    const lowPower = lowPowers[row];
+    const highPower = highPowers[column];
+
+    // Both tones present
+    if (lowPower < minLevel * minLevel || highPower < minLevel * minLevel) return null;
+
+    // Single tone per group
+    if (lowPowers.some((power, i) => i !== row && power * MIN_GROUP_DOMINANCE > lowPower)) return null;
+    if (highPowers.some((power, i) => i !== column && power * MIN_GROUP_DOMINANCE > highPower)) return null;
+
+    // Tone pair carries the window energy (a sinusoid of amplitude A has mean square A^2 / 2)
+    let energy = 0;
+    for (let i = 0; i < window.length; i++) energy += window[i] * window[i];
+    if (lowPower + highPower < MIN_TONE_ENERGY_RATIO * 2 * energy / window.length) return null;
+
+    // Twist between the groups
+    const twist = 10 * Math.log10(highPower / lowPower);
+    if (twist > maxForwardTwist || -twist > maxReverseTwist) {
+      this.debug.twistRejects++;
+      return null;
+    }
+
+    return KEYPAD[row * 4 + column];
+  }
+
+  private tonePower(goertzel: Goertzel): number {
+    goertzel.reset();
+    goertzel.processBuffer(this.dsp.window);
+    return goertzel.power();
+  }
+
+  private acceptDigit(digit: string): void {
+    this.debug.digits++;
+    this.detector.pendingEod = true;
+    this.emit('digit', { data: { digit } });
+
+    const nibble = DTMF_DIGITS.indexOf(digit);
+    if (this.byteState.highNibble < 0) {
+      this.byteState.highNibble = nibble;
+    } else {
+      this.byteState.buffer.push((this.byteState.highNibble << 4) | nibble);
+      this.byteState.highNibble = -1;
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    const digits = Array.from(data, byte => DTMF_DIGITS[byte >> 4] + DTMF_DIGITS[byte & 0x0F]).join('');
+    return this.modulateDigits(digits);
+  }
+
+  /**
+   * Tone pair for each digit followed by the inter-digit pause
+   */
+  async modulateDigits(digits: string): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('DTMF modulator not configured');
+    }
+
+    const { sampleRate, toneDurationMs, pauseDurationMs } = this.config;
+    const toneSamples = Math.round(sampleRate * toneDurationMs / 1000);
+    const digitSamples = toneSamples + Math.round(sampleRate * pauseDurationMs / 1000);
+    const pairs = Array.from(digits, digitFrequencies);
+    const output = new Float32Array(pairs.length * digitSamples);
+
+    pairs.forEach(([low, high], n) => {
+      const offset = n * digitSamples;
+      for (let i = 0; i < toneSamples; i++) {
+        const t = i / sampleRate;
+        output[offset + i] = TONE_AMPLITUDE * (Math.sin(2 * Math.PI * low * t) + Math.sin(2 * Math.PI * high * t));
+      }
+    });
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { digits: 0, twistRejects: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      currentDigit: this.detector.digit,
+      pendingNibble: this.byteState.highNibble >= 0,
+      byteBufferLength: this.byteState.buffer.length,
+      digits: this.debug.digits,
+      twistRejects: this.debug.twistRejects,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
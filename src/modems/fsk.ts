@@ -1,19 +1,242 @@
-import { FilterFactory, IIRFilter } from '../dsp/filters';
-import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { AGCProcessor, FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType, type SignalQuality, type SoftDemodulationResult, type IModulationStream } from '../core';
+import { SlidingToneBank } from '../dsp/goertzel';
 import { RingBuffer } from '@/utils';
 
 export interface FSKConfig extends BaseModulatorConfig {
   markFrequency: number;
   spaceFrequency: number;
+  // UART characters leading the frame. Without them and a sync word there is no frame
+  // sync: characters are received while the carrier is detected, each from its start bit
   preamblePattern: number[];
   sfdPattern: number[];
   startBits: number;
-  stopBits: number;
+  dataBits: number;         // 5 to 8
+  bitOrder: 'msb' | 'lsb';  // Order of the data bits on the line
+  stopBits: number;         // 1 to 2, fractional allowed (1.5)
   parity: 'none' | 'even' | 'odd';
   syncThreshold: number;
   agcEnabled: boolean;
   preFilterBandwidth: number;
   adaptiveThreshold: boolean;
+  afcEnabled: boolean;
+  afcRange: number;         // Largest carrier offset corrected by AFC (Hz)
+  // 'discriminator': I/Q phase difference around the centre frequency. 'tone': non-coherent
+  // mark/space tone energy over a bit, for shifts wider than the baud rate
+  detector: 'discriminator' | 'tone';
+  // 'uart': start/stop (and parity) bits around every byte. 'sync': after the UART-framed
+  // preamble and SFD, a 32-bit length header and the payload as a continuous bit stream
+  framing: 'uart' | 'sync';
+  // Bits (0/1) sent after the preamble in place of the SFD and found by correlating the
+  // soft discriminator, e.g. Barker-13 or a 32-bit access code. Empty matches the SFD bytes
+  syncWord: number[];
+  syncFalseAlarmRate: number; // Frame starts per second allowed on noise by the correlator threshold
+  // Transmit envelope: peak amplitude (0 to 1), raised-cosine rise and fall of the carrier,
+  // and mark carrier held after the rise (TX delay) and before the fall (TX tail), in seconds.
+  // Zero times start and stop the carrier at full level with the first and last bit
+  txLevel: number;
+  txRampTime: number;
+  txDelay: number;
+  txTail: number;
+}
+
+// 'overrun' is reported by the FSK processor when its received bytes are not read in time
+export type FSKReceiveErrorType = 'parity' | 'framing' | 'overrun' | 'header';
+
+/**
+ * Payload of the 'receiveError' event
+ */
+export interface FSKReceiveError {
+  type: FSKReceiveErrorType;
+  byteIndex: number;       // Index of the byte within the frame (overrun: among the bytes received since reset)
+  samplePosition: number;  // Input sample at which the error was detected
+}
+
+/**
+ * Payload of the 'sync' event, emitted at every frame start
+ */
+export interface FSKSync {
+  // Normalised correlation peak of the sync word, or the share of the preamble and SFD
+  // samples matched when no sync word is configured; 1 without frame sync
+  correlation: number;
+  samplePosition: number;  // Input sample at which the frame was found
+}
+
+/**
+ * Payload of the 'dcd' event, emitted when the carrier appears or goes
+ */
+export interface FSKCarrierDetect {
+  active: boolean;
+  samplePosition: number;  // Input sample at which the change was detected
+}
+
+/**
+ * Payload of the 'eod' event, emitted when the frame fades into silence
+ */
+export interface FSKEndOfData {
+  samplePosition: number;
+}
+
+// Longest stop run a sender may use. The receiver takes mark beyond its own stop bits as
+// idle, and the preamble and SFD characters may be this far apart
+const MAX_STOP_BITS = 2;
+
+// Synchronous framing: 16-bit payload length followed by its complement
+const STREAM_HEADER_BITS = 32;
+
+// Soft decisions: bits over which the noise power around the nominal levels is averaged,
+// and its floor relative to the deviation power, which bounds the LLR of a clean signal
+const SOFT_NOISE_BITS = 32;
+const SOFT_NOISE_FLOOR = 1e-3;
+
+// AFC while searching for the preamble averages the discriminator since the signal
+// onset, over at most this many bits; during the frame it tracks with a small gain per bit
+const AFC_ACQUISITION_BITS = 20;
+const AFC_TRACKING_GAIN = 0.05;
+
+// Symbol timing recovery: share of the timing error corrected per transition, and the
+// gain that follows the sample clock rate once the first bits have aligned the phase
+const TIMING_GAIN = 0.1;
+const TIMING_RATE_GAIN = 0.0005;
+const TIMING_SETTLE_BITS = 20;
+const MAX_CLOCK_SKEW = 0.005;
+
+// Carrier detect: error power of the discriminator around the nominal levels, relative to
+// the deviation power and averaged over DCD_BITS, below which the carrier is detected and
+// above which it is lost. The tone detector output is bounded by the deviation, which keeps
+// its error power on noise near 0.5; the discriminator spreads noise over ±π
+const DCD_BITS = 8;
+const DCD_LEVELS = {
+  discriminator: { on: 1, off: 2 },
+  tone: { on: 0.35, off: 0.42 }
+};
+
+// Eye statistics are kept per pattern of the bit and EYE_NEIGHBOURS bits on either side,
+// so the intersymbol interference of the filters is part of the expected level, not the noise
+const EYE_NEIGHBOURS = 2;
+const EYE_PATTERNS = 1 << (2 * EYE_NEIGHBOURS + 1);
+const EYE_NOISE_MARGIN = 3;
+
+// Sync words shorter than this cannot be told from noise at a useful false alarm rate
+const MIN_SYNC_WORD_BITS = 7;
+
+// Complementary error function for x >= 0, Abramowitz & Stegun 7.1.26
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  return t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+}
+
+// Gaussian tail probability Q(x)
+function gaussianTail(x: number): number {
+  return x >= 0 ? 0.5 * erfc(x / Math.SQRT2) : 1 - 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/**
+ * Correlation of a sync word of the given length exceeded by noise with the given
+ * probability. With independent zero-mean Gaussian bit means the normalised correlation
+ * has the density (1 - r²)^((L - 3) / 2) on [-1, 1]; its tail is solved by bisection.
+ */
+function correlationThreshold(length: number, probability: number): number {
+  const density = (r: number) => Math.pow(Math.max(0, 1 - r * r), (length - 3) / 2);
+  // Simpson's rule over [from, 1]
+  const tail = (from: number) => {
+    const steps = 200;
+    const h = (1 - from) / steps;
+    let sum = density(from) + density(1);
+    for (let i = 1; i < steps; i++) sum += (i % 2 ? 4 : 2) * density(from + i * h);
+    return sum * h / 3;
+  };
+  const total = 2 * tail(0);
+  let low = 0, high = 1;
+  for (let i = 0; i < 40; i++) {
+    const middle = (low + high) / 2;
+    if (tail(middle) / total > probability) low = middle;
+    else high = middle;
+  }
+  return high;
+}
+
+// Gain of a raised-cosine ramp of the given length at a position from its start, 1 beyond it
+function raisedCosine(position: number, length: number): number {
+  return position < length ? 0.5 - 0.5 * Math.cos(Math.PI * (position + 0.5) / length) : 1;
+}
+
+// Line state held for a number of samples
+interface LineRun {
+  value: number;
+  samples: number;
+}
+
+/**
+ * Line runs of a transmission: mark lead, preamble and sync, the frame and mark tail.
+ * Without character runs the frame is the length header and payload as a bit stream.
+ */
+function* lineRuns(data: Uint8Array, header: LineRun[], characters: LineRun[][], samplesPerBit: number, leadSamples: number, tailSamples: number): Generator<LineRun> {
+  yield { value: 1, samples: leadSamples };
+  yield* header;
+  if (characters.length === 0) {
+    // Length header, data bits (MSB first) and an idle mark to settle the filters on the last bit
+    for (const word of [data.length, data.length ^ 0xFFFF]) {
+      for (let i = 15; i >= 0; i--) yield { value: (word >> i) & 1, samples: samplesPerBit };
+    }
+    for (const byte of data) {
+      for (let i = 7; i >= 0; i--) yield { value: (byte >> i) & 1, samples: samplesPerBit };
+    }
+    yield { value: 1, samples: samplesPerBit };
+  } else {
+    for (const byte of data) yield* characters[byte];
+  }
+  yield { value: 1, samples: tailSamples };
+}
+
+/**
+ * Transmitted signal generated on demand: leading padding, the carrier following the
+ * line runs under the transmit envelope, and trailing silence
+ */
+class FSKModulationStream implements IModulationStream {
+  readonly totalSamples: number;
+  private readonly runs: Iterator<LineRun>;
+  private readonly paddingSamples: number;
+  private readonly carrierSamples: number;
+  private readonly rampSamples: number;
+  private readonly config: Readonly<FSKConfig>;
+  private position = 0;
+  private phase = 0;
+  private phaseStep = 0;
+  private runRemaining = 0;
+
+  constructor(runs: Iterator<LineRun>, paddingSamples: number, carrierSamples: number, silenceSamples: number, rampSamples: number, config: Readonly<FSKConfig>) {
+    this.runs = runs;
+    this.paddingSamples = paddingSamples;
+    this.carrierSamples = carrierSamples;
+    this.rampSamples = rampSamples;
+    this.config = config;
+    this.totalSamples = paddingSamples + carrierSamples + silenceSamples;
+  }
+
+  fillSamples(output: Float32Array): number {
+    const { sampleRate, txLevel } = this.config;
+    const count = Math.min(output.length, this.totalSamples - this.position);
+    for (let i = 0; i < count; i++, this.position++) {
+      const fromStart = this.position - this.paddingSamples;
+      const fromEnd = this.paddingSamples + this.carrierSamples - 1 - this.position;
+      if (fromStart < 0 || fromEnd < 0) {
+        output[i] = 0;
+        continue;
+      }
+      while (this.runRemaining === 0) {
+        const { value, samples } = this.runs.next().value as LineRun;
+        const frequency = value === 1 ? this.config.markFrequency : this.config.spaceFrequency;
+        this.phaseStep = 2 * Math.PI * frequency / sampleRate;
+        this.runRemaining = samples;
+      }
+      const envelope = raisedCosine(fromStart, this.rampSamples) * raisedCosine(fromEnd, this.rampSamples);
+      output[i] = txLevel * envelope * Math.sin(this.phase);
+      this.phase += this.phaseStep;
+      this.runRemaining--;
+    }
+    return count;
+  }
 }
 
 export const DEFAULT_FSK_CONFIG: FSKConfig = {
@@ -24,58 +247,26 @@ export const DEFAULT_FSK_CONFIG: FSKConfig = {
   preamblePattern: [0x55, 0x55],
   sfdPattern: [0x7E],
   startBits: 1,
+  dataBits: 8,
+  bitOrder: 'msb',
   stopBits: 1,
   parity: 'none',
   syncThreshold: 0.85,
   agcEnabled: true,
   preFilterBandwidth: 800,
-  adaptiveThreshold: true
+  adaptiveThreshold: true,
+  afcEnabled: false,
+  afcRange: 60,
+  detector: 'discriminator',
+  framing: 'uart',
+  syncWord: [],
+  syncFalseAlarmRate: 0.01,
+  txLevel: 1,
+  txRampTime: 0,
+  txDelay: 0,
+  txTail: 0
 };
 
-/**
- * Automatic Gain Control processor
- */
-class AGCProcessor {
-  private targetLevel: number;
-  private currentGain: number;
-  private attackRate: number;
-  private releaseRate: number;
-
-  constructor(sampleRate: number, targetLevel = 0.5) {
-    this.targetLevel = targetLevel;
-    this.currentGain = 1.0;
-    // AGC time constants (attack faster than release)
-    this.attackRate = 1.0 - Math.exp(-1.0 / (sampleRate * 0.001)); // 1ms attack
-    this.releaseRate = 1.0 - Math.exp(-1.0 / (sampleRate * 0.01)); // 10ms release
-  }
-
-  process(samples: Float32Array): void {
-    for (let i = 0; i < samples.length; i++) {
-      // Apply current gain in-place
-      samples[i] *= this.currentGain;
-      
-      // Measure output level
-      const outputLevel = Math.abs(samples[i]);
-      
-      // Update gain based on output level
-      if (outputLevel > this.targetLevel) {
-        // Too loud, reduce gain quickly (attack)
-        const targetGain = this.targetLevel / outputLevel;
-        this.currentGain += (targetGain - this.currentGain) * this.attackRate;
-      } else {
-        // Too quiet, increase gain slowly (release)
-        if (outputLevel > 0) {
-          const targetGain = this.targetLevel / outputLevel;
-          this.currentGain += (targetGain - this.currentGain) * this.releaseRate;
-        }
-      }
-      
-      // Limit gain to reasonable bounds
-      this.currentGain = Math.max(0.1, Math.min(10.0, this.currentGain));
-    }
-  }
-}
-
 /**
  * FSK Core implementation with sample-by-sample processing
  */
@@ -88,18 +279,27 @@ export class FSKCore extends BaseModulator<FSKConfig> {
     agc: undefined as AGCProcessor | undefined,
     preFilter: undefined as IIRFilter | undefined,
     iqFilters: undefined as { i: IIRFilter; q: IIRFilter } | undefined,
-    postFilter: undefined as IIRFilter | undefined
+    postFilter: undefined as IIRFilter | undefined,
+    toneBank: undefined as SlidingToneBank | undefined
   };
   
   // Processing parameters
   private readonly params = {
     samplesPerBit: 0, bitsPerByte: 0, markFreq: 0, spaceFreq: 0, 
     sampleRate: 0, centerFreq: 0, downsampleRate: 0, downsampleRatio: 0,
-    downsampledSamplesPerBit: 0
+    downsampledSamplesPerBit: 0, afcActive: false
   };
   
   // I/Q demodulation state
   private readonly iqState = { localOscPhase: 0, lastPhase: 0 };
+
+  // Automatic frequency control: local oscillator offset (Hz), steadiness and balance
+  // of the discriminator while searching, its history over the sync pattern, and the
+  // sum over the current bit once the frame has started
+  private readonly afc = {
+    offset: 0, deviation: 0, errorPower: 0, samples: 0, windowMarks: 0, bitSum: 0, bitCount: 0,
+    history: undefined as RingBuffer<Float32Array> | undefined
+  };
   
   // Downsampling state for I/Q signals
   private readonly downsample = { 
@@ -111,27 +311,97 @@ export class FSKCore extends BaseModulator<FSKConfig> {
   // Bit synchronization state
   private readonly bitSync = {
     globalSampleCounter: 0, bitSampleCounter: 0, bitAccumulator: 0,
-    bitAccumCount: 0, nextBitSampleIndex: 0
+    bitAccumCount: 0, nextBitSampleIndex: 0,
+    // Gardner timing detector: discriminator at the bit boundary and the bit centres,
+    // complete bits since sync, and the sample clock skew relative to the sender
+    lastSample: 0, boundary: 0, center: 0, lastCenter: 0, timingBits: 0, clockSkew: 0,
+    // End of the idle mark left by a fractional stop bit
+    idleUntil: 0
   };
+
+  // Mark after the stop bits while the next start bit is waited for, or from an unknown
+  // line state until idle mark has been seen (fresh): samples since then, the running
+  // discriminator sum and its peak, where the mark-to-space edge is taken, and the samples
+  // to replay into the start bit
+  private readonly hunt = { active: false, fresh: false, count: 0, sum: 0, peak: 0, edge: 0, samples: [] as number[] };
   
   // Frame detection state
   private readonly frame = {
-    preambleSfdBits: [] as number[], maxSyncBits: 0, started: false,
+    // Expected bit of every downsampled sample of the preamble and SFD, oldest first
+    syncPattern: [] as number[], maxSyncBits: 0, started: false,
+    // Where each preamble and SFD character after the first starts in the pattern, and the
+    // longer stop run allowed before it, in samples
+    syncBoundaries: [] as number[], stopSlack: 0,
+    // A frame has started since the last end of data
+    pendingEOD: false,
     syncSamplesBuffer: undefined as RingBuffer<Uint8Array> | undefined,
     syncAmplitudeBuffer: undefined as RingBuffer<Float32Array> | undefined
   };
 
+  // Sync word correlator: the word as ±1 and its threshold, the discriminator over the
+  // last bit and its sum, the bit means, and the best correlation above the threshold
+  // with the samples since
+  private readonly correlator = {
+    word: [] as number[], threshold: 1, sum: 0, peak: 0, age: 0,
+    samples: undefined as RingBuffer<Float32Array> | undefined,
+    means: undefined as RingBuffer<Float32Array> | undefined
+  };
+
   // Byte assembly state
-  private readonly byteState = { current: 0, bitPosition: 0, buffer: [] as number[] };
+  private readonly byteState = { current: 0, bitPosition: 0, index: 0, buffer: [] as number[] };
+
+  // Synchronous framing: length header collected after the SFD, then the announced length
+  private readonly stream = { header: 0, headerBits: 0, length: 0 };
+
+  // Soft decisions: noise power of the bit means, LLRs of the data bits of the byte being
+  // assembled and of the bytes waiting in the receive buffer
+  private readonly soft = { noisePower: 0, bits: 0, byte: new Float32Array(8), buffer: [] as number[] };
+  
+  // Carrier detect: averaged error power relative to the deviation power, and its state
+  private readonly carrier = { errorPower: 4, active: false };
   
   // Silence detection state  
   private readonly silence = { threshold: 0.01, samplesForEOD: 0, sampleCount: 0 };
 
   // Debug counters
-  private readonly debug = { syncDetections: 0, demodulationCalls: 0, totalSamples: 0 };
+  private readonly debug = { syncDetections: 0, demodulationCalls: 0, totalSamples: 0, samplePosition: 0 };
+
+  // Receive error counters
+  private readonly errors = { parity: 0, framing: 0, header: 0 };
+
+  // Eye diagram of the current frame: discriminator statistics of marks and spaces at every
+  // sample phase within the bit, also per pattern of the bit and its neighbours (a bit is added
+  // once the next one is decided), the symbol timing error and the frequency error of framed bytes
+  private readonly quality = {
+    bitSamples: [] as number[], marks: 0, spaces: 0, afcOffset: 0, errorSum: 0, errorBits: 0, byteErrorSum: 0, byteErrorBits: 0,
+    markSum: new Float64Array(0), spaceSum: new Float64Array(0), patternCount: new Float64Array(EYE_PATTERNS), patternSum: new Float64Array(0), patternSquares: new Float64Array(0),
+    pending: [] as { samples: number[] | null; bit: number }[], timingSum: 0, timingSquares: 0, timings: 0
+  };
 
   configure(config: FSKConfig): void {
-    this.config = { ...DEFAULT_FSK_CONFIG, ...config } as FSKConfig;
+    const merged = { ...DEFAULT_FSK_CONFIG, ...config } as FSKConfig;
+    if (!Number.isInteger(merged.dataBits) || merged.dataBits < 5 || merged.dataBits > 8) {
+      throw new Error(`FSK data bits must be between 5 and 8: ${merged.dataBits}`);
+    }
+    if (merged.stopBits < 1 || merged.stopBits > MAX_STOP_BITS) {
+      throw new Error(`FSK stop bits must be between 1 and 2: ${merged.stopBits}`);
+    }
+    if (merged.syncWord.length > 0 && (merged.syncWord.length < MIN_SYNC_WORD_BITS || merged.syncWord.some(bit => bit !== 0 && bit !== 1))) {
+      throw new Error(`FSK sync word must be at least ${MIN_SYNC_WORD_BITS} bits of 0 or 1: ${merged.syncWord.join('')}`);
+    }
+    if (!(merged.syncFalseAlarmRate > 0)) {
+      throw new Error(`FSK sync false alarm rate must be positive: ${merged.syncFalseAlarmRate}`);
+    }
+    if (!(merged.txLevel > 0 && merged.txLevel <= 1)) {
+      throw new Error(`FSK transmit level must be between 0 and 1: ${merged.txLevel}`);
+    }
+    if (!(merged.txRampTime >= 0 && merged.txDelay >= 0 && merged.txTail >= 0)) {
+      throw new Error('FSK transmit ramp, delay and tail must not be negative');
+    }
+    if (merged.framing === 'sync' && merged.preamblePattern.length + merged.sfdPattern.length + merged.syncWord.length === 0) {
+      throw new Error('FSK synchronous framing needs a preamble, SFD or sync word');
+    }
+    this.config = merged;
     
     // Initialize parameters
     this.calculateParameters();
@@ -140,54 +410,117 @@ export class FSKCore extends BaseModulator<FSKConfig> {
     this.initializeDSP();
 
     // Initialize frame detection
-    this.frame.preambleSfdBits = [];
-    [...this.config.preamblePattern, ...this.config.sfdPattern].forEach(byte => this.addByteToPattern(byte));
-    this.frame.maxSyncBits = this.frame.preambleSfdBits.length + 32;
+    this.frame.syncPattern = [];
+    this.syncBits().forEach(({ value, length }) => {
+      const samples = Math.round(length * this.params.downsampledSamplesPerBit);
+      for (let k = 0; k < samples; k++) this.frame.syncPattern.push(value);
+    });
+    this.frame.syncBoundaries = [];
+    if (this.config.syncWord.length === 0) {
+      let position = 0;
+      for (const byte of [...this.config.preamblePattern, ...this.config.sfdPattern]) {
+        if (position > 0) this.frame.syncBoundaries.push(position);
+        position += this.characterBits(byte).reduce((sum, { length }) => sum + Math.round(length * this.params.downsampledSamplesPerBit), 0);
+      }
+    }
+    this.frame.stopSlack = Math.round((MAX_STOP_BITS - this.config.stopBits) * this.params.downsampledSamplesPerBit);
+    this.frame.maxSyncBits = Math.ceil(this.frame.syncPattern.length / this.params.downsampledSamplesPerBit) + this.frame.syncBoundaries.length + 32;
     
     // Initialize buffers and silence detection (use downsampled parameters)
     this.silence.samplesForEOD = this.params.bitsPerByte * this.params.downsampledSamplesPerBit * 0.7;
-    this.frame.syncSamplesBuffer = new RingBuffer(Uint8Array, this.frame.maxSyncBits * this.params.downsampledSamplesPerBit * 1.1);
+    this.frame.syncSamplesBuffer = new RingBuffer(Uint8Array, Math.ceil(this.frame.maxSyncBits * this.params.downsampledSamplesPerBit * 1.1));
     this.frame.syncAmplitudeBuffer = new RingBuffer(Float32Array, this.params.downsampledSamplesPerBit * 8);
+    // The correlator finds the frame up to a quarter bit after the sync word; without
+    // frame sync the history covers the carrier detection delay
+    const historyLength = Math.max(this.frame.syncPattern.length, DCD_BITS * this.params.downsampledSamplesPerBit);
+    this.afc.history = new RingBuffer(Float32Array, historyLength + this.params.downsampledSamplesPerBit);
+
+    // One trial per bit: bit means further apart than a bit are independent under noise
+    const word = this.config.syncWord;
+    Object.assign(this.correlator, {
+      word: word.map(bit => bit ? 1 : -1),
+      threshold: word.length > 0 ? correlationThreshold(word.length, this.config.syncFalseAlarmRate / this.config.baudRate) : 1,
+      samples: new RingBuffer(Float32Array, this.params.downsampledSamplesPerBit),
+      means: new RingBuffer(Float32Array, Math.max(1, (word.length - 1) * this.params.downsampledSamplesPerBit + 1))
+    });
     
     // Reset all state
     this.resetState();
+    this.bitSync.clockSkew = 0;
+    Object.assign(this.carrier, { errorPower: 4, active: false });
+    this.frame.pendingEOD = false;
+    this.resetQuality();
+    this.resetAFC();
     
     this.ready = true;
     this.emit('configured');
   }
   
-  private addByteToPattern(byte: number): void {
-    const bits = this.frame.preambleSfdBits;
-    
-    // Add start bits, data bits (MSB first), parity bit, stop bits
-    for (let i = 0; i < this.config.startBits; i++) bits.push(0);
-    for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
-    
-    if (this.config.parity !== 'none') {
-      let parity = 0;
-      for (let i = 0; i < 8; i++) parity ^= (byte >> i) & 1;
-      bits.push(this.config.parity === 'even' ? parity : 1 - parity);
+  // Line states of the preamble characters followed by the sync word or the SFD characters
+  private syncBits(): { value: number; length: number }[] {
+    const bits = this.config.preamblePattern.flatMap(byte => this.characterBits(byte));
+    if (this.config.syncWord.length > 0) {
+      this.config.syncWord.forEach(value => bits.push({ value, length: 1 }));
+    } else {
+      this.config.sfdPattern.forEach(byte => bits.push(...this.characterBits(byte)));
     }
-    
-    for (let i = 0; i < this.config.stopBits; i++) bits.push(1);
+    return bits;
+  }
+
+  /**
+   * UART character as line states and their lengths in bit times: start bits, data
+   * bits in the configured order, parity bit and stop bits (one run, may be fractional)
+   */
+  private characterBits(byte: number): { value: number; length: number }[] {
+    const { startBits, dataBits, stopBits, parity } = this.config;
+    const bits: { value: number; length: number }[] = [];
+    for (let i = 0; i < startBits; i++) bits.push({ value: 0, length: 1 });
+    for (let i = 0; i < dataBits; i++) {
+      const weight = this.config.bitOrder === 'lsb' ? i : dataBits - 1 - i;
+      bits.push({ value: (byte >> weight) & 1, length: 1 });
+    }
+
+    if (parity !== 'none') {
+      let ones = 0;
+      for (let i = 0; i < dataBits; i++) ones ^= (byte >> i) & 1;
+      bits.push({ value: parity === 'even' ? ones : 1 - ones, length: 1 });
+    }
+
+    bits.push({ value: 1, length: stopBits });
+    return bits;
   }
   
   private resetState(): void {
     // Reset all state objects
     Object.assign(this.iqState, { localOscPhase: 0, lastPhase: 0 });
-    Object.assign(this.bitSync, { globalSampleCounter: 0, bitSampleCounter: 0, bitAccumulator: 0, bitAccumCount: 0, nextBitSampleIndex: 0 });
-    Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+    Object.assign(this.bitSync, { globalSampleCounter: 0, bitSampleCounter: 0, bitAccumulator: 0, bitAccumCount: 0, nextBitSampleIndex: 0, idleUntil: 0 });
+    this.resetHunt(false);
+    Object.assign(this.byteState, { current: 0, bitPosition: 0, index: 0 });
     this.frame.started = false;
     this.silence.sampleCount = 0;
+    // Bit means of a finished frame would correlate against the silence that follows it
+    Object.assign(this.correlator, { sum: 0, peak: 0 });
+    this.correlator.samples?.clear();
+    this.correlator.means?.clear();
     
     // Reset filters and downsampling state
     this.dsp.iqFilters?.i.reset();
     this.dsp.iqFilters?.q.reset();
     this.dsp.postFilter?.reset();
+    this.dsp.toneBank?.reset();
     Object.assign(this.downsample, { counter: 0, iAccumulator: 0, qAccumulator: 0 });
   }
 
   async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    return (await this.demodulateSoft(samples)).bytes;
+  }
+
+  /**
+   * Demodulates like demodulateData(), also returning the LLR of each data bit of the
+   * received bytes. Both draw from the same receive buffer. The LLR weighs the middle of
+   * the bit, so its sign may disagree with a marginal hard decision.
+   */
+  async demodulateSoft(samples: Float32Array): Promise<SoftDemodulationResult> {
     if (!this.ready || !this.config) {
       throw new Error('FSK demodulator not configured');
     }
@@ -202,30 +535,30 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       if (this.dsp.preFilter) processedSamples = this.dsp.preFilter.processBuffer(processedSamples);
       
       // Stream processing: process each sample individually
+      const firstSample = this.debug.totalSamples - samples.length;
       for (let i = 0; i < processedSamples.length; i++) {
+        this.debug.samplePosition = firstSample + i;
         this.processSample(processedSamples[i]);
       }
       
       // Return accumulated bytes
-      if (this.byteState.buffer.length > 0) {
-        const result = new Uint8Array(this.byteState.buffer);
-        this.byteState.buffer = [];
-        return result;
-      }
-      
-      return new Uint8Array(0);
+      const result = { bytes: new Uint8Array(this.byteState.buffer), llr: new Float32Array(this.soft.buffer) };
+      this.byteState.buffer = [];
+      this.soft.buffer = [];
+      return result;
       
     } catch (error) {
       this.emit('error', { data: error });
-      return new Uint8Array(0);
+      return { bytes: new Uint8Array(0), llr: new Float32Array(0) };
     }
   }
 
   private processSample(sample: number): boolean {
     if (!this.frame.syncSamplesBuffer || !this.frame.syncAmplitudeBuffer) return false;
+    if (this.dsp.toneBank) return this.processToneSample(this.dsp.toneBank, sample);
 
     // I/Q demodulation
-    const omega = 2 * Math.PI * this.params.centerFreq / this.params.sampleRate;
+    const omega = 2 * Math.PI * (this.params.centerFreq + this.afc.offset) / this.params.sampleRate;
     let i = sample * Math.cos(this.iqState.localOscPhase);
     let q = sample * Math.sin(this.iqState.localOscPhase);
     
@@ -269,24 +602,157 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       this.downsample.counter = 0;
       
       // Process with downsampled data
-      return this.processDownsampledBit(bitValue, amplitude);
+      return this.processDownsampledBit(bitValue, amplitude, filteredPhaseDiff);
     }
     
     return false; // Continue processing
   }
 
-  private processDownsampledBit(bitValue: number, amplitude: number): boolean {
+  /**
+   * Non-coherent detection: mark and space tone magnitudes over the last bit. Their
+   * normalised difference, scaled to ±deviation, stands in for the discriminator so
+   * that sync, timing recovery and byte assembly are shared with the I/Q path.
+   */
+  private processToneSample(toneBank: SlidingToneBank, sample: number): boolean {
+    toneBank.process(sample);
+    if (++this.downsample.counter < this.params.downsampleRatio) return false;
+    this.downsample.counter = 0;
+
+    const mark = Math.sqrt(toneBank.powers[0]);
+    const space = Math.sqrt(toneBank.powers[1]);
+    const discriminator = mark + space > 0 ? this.afc.deviation * (mark - space) / (mark + space) : 0;
+    // Half the tone amplitude, on the scale of the I/Q magnitude
+    return this.processDownsampledBit(discriminator > 0 ? 1 : 0, (mark + space) / 2, discriminator);
+  }
+
+  /**
+   * Noise and the filter transient at the signal onset spread the discriminator far
+   * beyond the deviation. The error around the nominal levels, averaged over a bit,
+   * tells whether it is steady enough to measure the frequency.
+   */
+  private discriminatorSteady(discriminator: number, amplitude: number): boolean {
+    const afc = this.afc;
+    if (amplitude < this.silence.threshold) {
+      afc.errorPower = 4 * afc.deviation * afc.deviation;
+      afc.samples = 0;
+      return false;
+    }
+    const error = discriminator - (discriminator > 0 ? afc.deviation : -afc.deviation);
+    afc.errorPower += (error * error - afc.errorPower) / this.params.downsampledSamplesPerBit;
+    return afc.errorPower <= afc.deviation * afc.deviation;
+  }
+
+  // Carrier on or off with hysteresis; silence counts as the largest error
+  private detectCarrier(discriminator: number, amplitude: number): void {
+    const carrier = this.carrier;
+    const deviation = this.afc.deviation;
+    const error = amplitude < this.silence.threshold ? 2 : discriminator / deviation - (discriminator > 0 ? 1 : -1);
+    carrier.errorPower += (error * error - carrier.errorPower) / (DCD_BITS * this.params.downsampledSamplesPerBit);
+
+    const levels = DCD_LEVELS[this.config.detector];
+    if (carrier.active ? carrier.errorPower <= levels.off : carrier.errorPower >= levels.on) return;
+    carrier.active = !carrier.active;
+    const carrierDetect: FSKCarrierDetect = { active: carrier.active, samplePosition: this.debug.samplePosition };
+    this.emit('dcd', { data: carrierDetect });
+  }
+
+  // Mark samples over the last two bits
+  private updateMarkWindow(bitValue: number): void {
+    const buffer = this.frame.syncSamplesBuffer;
+    const window = 2 * this.params.downsampledSamplesPerBit;
+    if (!buffer) return;
+    this.afc.windowMarks += bitValue;
+    if (buffer.length > window) this.afc.windowMarks -= buffer.get(buffer.length - window - 1);
+  }
+
+  // Runs of marks or spaces, as in the sync word, would pull the mean discriminator
+  private markWindowBalanced(): boolean {
+    const window = 2 * this.params.downsampledSamplesPerBit;
+    return Math.abs(2 * this.afc.windowMarks - window) <= window / 4;
+  }
+
+  /**
+   * AFC while searching for the preamble: marks and spaces alternate, so the mean of the
+   * discriminator is the carrier offset and the mixer is moved to bring it to zero.
+   */
+  private acquireFrequency(discriminator: number): void {
+    const samplesPerBit = this.params.downsampledSamplesPerBit;
+    // Averages over two bits at first, growing to AFC_ACQUISITION_BITS
+    this.afc.samples++;
+    const gain = 1 / Math.min(this.afc.samples + 2 * samplesPerBit, AFC_ACQUISITION_BITS * samplesPerBit);
+    this.adjustFrequency(-discriminator * gain);
+  }
+
+  /**
+   * Once the sync pattern is found its bits are known. Filtering does not change the
+   * mean frequency, so the discriminator averaged over the pattern, less the nominal
+   * deviation of its bits, is the offset left after acquisition.
+   */
+  private estimateSyncFrequency(delay: number): void {
+    const history = this.afc.history;
+    const pattern = this.frame.syncPattern;
+    if (!history || history.length < pattern.length + delay) return;
+
+    // Filter delay leaves the last pattern bit in the newest bit period; the first
+    // one is left out as the search may lock a fraction of a bit early
+    const count = pattern.length - this.params.downsampledSamplesPerBit;
+    let sum = 0;
+    for (let k = 0; k < count; k++) {
+      const expected = pattern[pattern.length - 1 - k] ? this.afc.deviation : -this.afc.deviation;
+      sum += history.get(history.length - delay - k - 1) - expected;
+    }
+    const radiansPerHz = 2 * Math.PI / this.params.downsampleRate;
+    this.adjustFrequency(-sum / count - this.afc.offset * radiansPerHz);
+  }
+
+  /**
+   * Data-aided frequency error of a decided bit: its mean discriminator less the nominal
+   * deviation. Undefined for partial bits and bits that fade into silence or noise.
+   */
+  private bitFrequencyError(bit: number, windowLength: number): number | undefined {
+    const afc = this.afc;
+    const complete = afc.bitCount === windowLength && windowLength >= this.params.downsampledSamplesPerBit - 1;
+    const error = afc.bitSum / afc.bitCount - (bit ? afc.deviation : -afc.deviation);
+    Object.assign(afc, { bitSum: 0, bitCount: 0 });
+    return complete ? error : undefined;
+  }
+
+  // Moves the mixer by a discriminator correction (radians per sample), within afcRange
+  private adjustFrequency(correction: number): void {
+    // Discriminator output is -2π·offset / rate per sample
+    const radiansPerHz = 2 * Math.PI / this.params.downsampleRate;
+    const range = this.config.afcRange;
+    this.afc.offset = Math.max(-range, Math.min(range, this.afc.offset + correction / radiansPerHz));
+  }
+
+  private resetAFC(): void {
+    // Nominal discriminator levels: marks and spaces half the shift either side of the centre
+    const deviation = Math.PI * Math.abs(this.params.spaceFreq - this.params.markFreq) / this.params.downsampleRate;
+    Object.assign(this.afc, { offset: 0, errorPower: 4 * deviation * deviation, samples: 0, windowMarks: 0, bitSum: 0, bitCount: 0, deviation });
+    this.afc.history?.clear();
+  }
+
+  private processDownsampledBit(bitValue: number, amplitude: number, discriminator: number): boolean {
     if (!this.frame.syncSamplesBuffer || !this.frame.syncAmplitudeBuffer) return false;
     
     this.frame.syncSamplesBuffer.put(bitValue);
+    this.updateMarkWindow(bitValue);
     this.frame.syncAmplitudeBuffer.put(amplitude);
+    // Referred to an unshifted mixer, as the offset moves while the pattern arrives
+    this.afc.history?.put(discriminator - this.afc.offset * 2 * Math.PI / this.params.downsampleRate);
+    const steady = this.discriminatorSteady(discriminator, amplitude);
+    this.detectCarrier(discriminator, amplitude);
 
     // Silence detection and sample counting
     this.bitSync.globalSampleCounter++;
     if (amplitude < this.silence.threshold) {
       this.silence.sampleCount++;
       if (this.silence.sampleCount >= this.silence.samplesForEOD) {
-        this.emit('eod');
+        if (this.frame.pendingEOD) {
+          const endOfData: FSKEndOfData = { samplePosition: this.debug.samplePosition };
+          this.emit('eod', { data: endOfData });
+          this.frame.pendingEOD = false;
+        }
         this.resetState();
         return true;
       }
@@ -294,135 +760,560 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       this.silence.sampleCount = 0;
     }
 
+    this.updateBitMean(discriminator);
     if (!this.frame.started) {
-      const sampleCount = this.frame.preambleSfdBits.length * this.params.downsampledSamplesPerBit;
+      if (this.params.afcActive && steady && this.markWindowBalanced()) this.acquireFrequency(discriminator);
+
+      if (this.correlator.word.length > 0) {
+        this.searchSyncWord();
+        return false;
+      }
+
+      const pattern = this.frame.syncPattern;
+      if (pattern.length === 0) {
+        // No frame sync: the carrier starts the frame, and every start bit is hunted
+        if (this.carrier.active) {
+          this.startFrame(1, 0);
+          this.resetHunt(true, true);
+          this.huntDetectionDelay();
+        }
+        return false;
+      }
       const sampleCountForBitDecision = Math.round(this.params.downsampledSamplesPerBit / 4);
-      let matched = 0, total = 0;
       
-      if (this.frame.syncSamplesBuffer.length >= sampleCount && this.bitSync.globalSampleCounter % sampleCountForBitDecision === 0) {
-        // Frame sync pattern matching
-        for (let j = 0; j < this.frame.preambleSfdBits.length; j++) {
-          for (let k = 0; k < this.params.downsampledSamplesPerBit; k++) {
-            if (this.frame.syncSamplesBuffer.get(this.frame.syncSamplesBuffer.length - (j * this.params.downsampledSamplesPerBit + k) - 1) === 
-                this.frame.preambleSfdBits[this.frame.preambleSfdBits.length - j]) {
-              matched++;
-            }
-            total++;
-          }
-        }
-
-        const matchRatio = total > 0 ? matched / total : 0;
+      if (this.frame.syncSamplesBuffer.length >= pattern.length && this.bitSync.globalSampleCounter % sampleCountForBitDecision === 0) {
+        const matchRatio = pattern.length > 0 ? this.matchSyncPattern(sampleCountForBitDecision) / pattern.length : 0;
         if (matchRatio > this.config.syncThreshold) {
-          this.frame.started = true;
-          Object.assign(this.byteState, { current: 0, bitPosition: 0 });
-          Object.assign(this.bitSync, { bitAccumulator: 0, bitAccumCount: 0, bitSampleCounter: 0, nextBitSampleIndex: 0 });
-          this.debug.syncDetections++;
+          this.startFrame(matchRatio, 0);
+          this.bitSync.lastSample = discriminator;
 
-          // Set silence threshold based on average amplitude
-          let sum = 0;
-          for (let i = 0; i < this.frame.syncAmplitudeBuffer.length; i++) {
-            sum += this.frame.syncAmplitudeBuffer.get(i);
+          // Filter delay puts the bit following the SFD in the newest bit period
+          let marks = 0;
+          for (let k = 1; k <= this.params.downsampledSamplesPerBit; k++) {
+            marks += this.frame.syncSamplesBuffer.get(this.frame.syncSamplesBuffer.length - k);
           }
-          this.silence.threshold = (sum / this.frame.syncAmplitudeBuffer.length) * 0.1;
+          this.processBit(marks > this.params.downsampledSamplesPerBit / 2 ? 1 : 0);
         }
       }
-    } else {
-      // After frame sync: bit accumulation and decision
-      this.bitSync.bitAccumulator += bitValue;
-      this.bitSync.bitAccumCount++;
+    } else if (this.bitSync.bitSampleCounter < this.bitSync.idleUntil) {
+      // Idle mark between characters
       this.bitSync.bitSampleCounter++;
-      
-      if (this.bitSync.bitSampleCounter >= this.bitSync.nextBitSampleIndex) {
-        const bit = this.bitSync.bitAccumulator > (this.bitSync.bitAccumCount / 2) ? 1 : 0;
-        Object.assign(this.bitSync, { bitAccumulator: 0, bitAccumCount: 0 });
-        this.bitSync.nextBitSampleIndex += this.params.downsampledSamplesPerBit;
-        this.processByte(bit);
-      }
+      this.bitSync.lastSample = discriminator;
+    } else if (this.hunt.active) {
+      // Quiet is no start bit
+      this.huntStartBit(amplitude < this.silence.threshold ? this.afc.deviation : discriminator);
+    } else {
+      this.receiveSample(discriminator, steady);
     }
     
     return false; // Continue processing
   }
 
-  private processByte(bit: number): void {
+  /**
+   * Frame sync pattern matching, one bit period behind the newest sample. Going back from
+   * the SFD, the stop bits ending each earlier character may run up to MAX_STOP_BITS; the
+   * longer run that matches its character best is taken, tried in steps of the given
+   * number of samples. The first bit of the pattern is left out. Returns the matched samples.
+   */
+  private matchSyncPattern(step: number): number {
+    const buffer = this.frame.syncSamplesBuffer;
+    if (!buffer) return 0;
+    const { syncPattern: pattern, syncBoundaries: boundaries, stopSlack } = this.frame;
+    const samplesPerBit = this.params.downsampledSamplesPerBit;
+    // Buffer index of the pattern sample at the given index, delayed by the longer stop runs
+    const newest = buffer.length - 1 - samplesPerBit - (pattern.length - 1);
+    let matched = 0, shift = 0, end = pattern.length;
+    for (let c = boundaries.length; c >= 0; c--) {
+      const start = c > 0 ? boundaries[c - 1] : 0;
+      let best = -1;
+      let bestShift = shift;
+      for (let extra = 0; extra <= (c < boundaries.length ? stopSlack : 0); extra += step) {
+        let count = 0;
+        for (let j = Math.max(start, samplesPerBit); j < end; j++) {
+          const index = newest + j - shift - extra;
+          if (index >= 0 && buffer.get(index) === pattern[j]) count++;
+        }
+        if (count > best) {
+          best = count;
+          bestShift = shift + extra;
+        }
+      }
+      matched += Math.max(0, best);
+      shift = bestShift;
+      end = start;
+    }
+    return matched;
+  }
+
+  /**
+   * Frame found: clears the byte, timing and quality state, and measures the carrier
+   * offset over the sync pattern, which ends the given number of samples ago
+   */
+  private startFrame(correlation: number, delay: number): void {
+    this.frame.started = true;
+    this.frame.pendingEOD = true;
+    Object.assign(this.byteState, { current: 0, bitPosition: 0, index: 0 });
+    Object.assign(this.stream, { header: 0, headerBits: 0, length: 0 });
+    Object.assign(this.bitSync, {
+      bitAccumulator: 0, bitAccumCount: 0, bitSampleCounter: 0,
+      nextBitSampleIndex: this.params.downsampledSamplesPerBit, timingBits: 0, idleUntil: 0
+    });
+    this.resetHunt(false);
+    this.debug.syncDetections++;
+    this.resetQuality();
+    Object.assign(this.soft, { noisePower: 0, bits: 0 });
+    if (this.params.afcActive && this.frame.syncPattern.length > 0) this.estimateSyncFrequency(delay);
+    Object.assign(this.afc, { bitSum: 0, bitCount: 0 });
+
+    // Set silence threshold based on average amplitude
+    const amplitudes = this.frame.syncAmplitudeBuffer;
+    if (amplitudes) {
+      let sum = 0;
+      for (let i = 0; i < amplitudes.length; i++) {
+        sum += amplitudes.get(i);
+      }
+      this.silence.threshold = (sum / amplitudes.length) * 0.1;
+    }
+
+    const sync: FSKSync = { correlation, samplePosition: this.debug.samplePosition };
+    this.emit('sync', { data: sync });
+  }
+
+  // The carrier is detected some bits into it: the hunt starts over the averaging time
+  private huntDetectionDelay(): void {
+    const history = this.afc.history;
+    const amplitudes = this.frame.syncAmplitudeBuffer;
+    if (!history || !amplitudes) return;
+    const offset = this.afc.offset * 2 * Math.PI / this.params.downsampleRate;
+    const count = Math.min(history.length, amplitudes.length, DCD_BITS * this.params.downsampledSamplesPerBit);
+    for (let k = count; k > 0; k--) {
+      const quiet = amplitudes.get(amplitudes.length - k) < this.silence.threshold;
+      const sample = quiet ? this.afc.deviation : history.get(history.length - k) + offset;
+      if (this.hunt.active) this.huntStartBit(sample);
+      else this.receiveSample(sample, true);
+    }
+  }
+
+  private resetHunt(active: boolean, fresh = false): void {
+    Object.assign(this.hunt, { active, fresh, count: 0, sum: 0, peak: 0, edge: 0, samples: [] });
+  }
+
+  /**
+   * Mark after the stop bits, as long as the sender keeps it, until the next start bit.
+   * The mark-to-space edge is where the running sum of the discriminator peaks, taken half
+   * a bit later so that noise in the mark does not end the wait. Unless the wait held an
+   * eighth of a bit of mark, the edge is the bit timing drifting or noise early in the start
+   * bit, and the wait goes into the start bit; after an idle the bit timing is re-aligned
+   * on the edge. A fresh hunt takes an edge only after a stop length of mark.
+   */
+  private huntStartBit(discriminator: number): void {
+    const hunt = this.hunt;
+    const samplesPerBit = this.params.downsampledSamplesPerBit;
+    const idleMark = this.afc.deviation * samplesPerBit / 8;
+    // Without frame sync the frame lasts as long as the carrier
+    if (this.frame.syncPattern.length === 0 && !this.carrier.active) {
+      this.frame.started = false;
+      return;
+    }
+    hunt.count++;
+    hunt.sum += discriminator;
+    hunt.samples.push(discriminator);
+    if (hunt.sum >= hunt.peak) {
+      // Only the samples from the edge on are replayed after an idle
+      if (hunt.sum >= idleMark) hunt.samples = [discriminator];
+      Object.assign(hunt, { peak: hunt.sum, edge: hunt.count });
+    }
+
+    if (hunt.fresh && hunt.sum < 0) {
+      // Space before any idle mark: no edge to find yet
+      this.resetHunt(true, true);
+      return;
+    }
+
+    const spaces = hunt.count - hunt.edge;
+    const stopMark = this.afc.deviation * samplesPerBit * this.config.stopBits;
+    if (spaces < Math.round(samplesPerBit / 2) || (hunt.fresh && hunt.peak < stopMark)) return;
+
+    let samples = hunt.samples;
+    if (hunt.peak >= idleMark) {
+      // The edge sits between samples: the Gardner error of the start bit is not skew
+      const timing = this.bitSync;
+      Object.assign(timing, {
+        bitAccumulator: 0, bitAccumCount: 0, bitSampleCounter: 0, idleUntil: 0, timingBits: 0,
+        nextBitSampleIndex: samplesPerBit * (1 + timing.clockSkew),
+        lastSample: samples[samples.length - spaces - 1] ?? timing.lastSample
+      });
+      Object.assign(this.afc, { bitSum: 0, bitCount: 0 });
+      this.quality.bitSamples = [];
+      samples = samples.slice(samples.length - spaces);
+    }
+    this.resetHunt(false);
+    // A start bit found wrong among these goes back to the hunt
+    for (const sample of samples) {
+      if (this.hunt.active) this.huntStartBit(sample);
+      else this.receiveSample(sample, true);
+    }
+  }
+
+  // After frame sync: bit accumulation and decision
+  private receiveSample(discriminator: number, steady: boolean): void {
+    this.bitSync.bitAccumulator += discriminator > 0 ? 1 : 0;
+    this.bitSync.bitAccumCount++;
+    this.bitSync.bitSampleCounter++;
+    this.quality.bitSamples.push(discriminator);
+    this.sampleTiming(discriminator);
+    if (steady) {
+      this.afc.bitSum += discriminator;
+      this.afc.bitCount++;
+    }
+    
+    if (this.bitSync.bitSampleCounter >= this.bitSync.nextBitSampleIndex) {
+      const bit = this.bitSync.bitAccumulator > (this.bitSync.bitAccumCount / 2) ? 1 : 0;
+      const windowLength = this.bitSync.bitAccumCount;
+      const timingAdjustment = this.recoverTiming(windowLength);
+      Object.assign(this.bitSync, { bitAccumulator: 0, bitAccumCount: 0 });
+      const frequencyError = this.bitFrequencyError(bit, windowLength);
+      const llr = this.bitLikelihood(bit, this.quality.bitSamples);
+      this.updateQuality(bit, frequencyError);
+      if (this.params.afcActive && frequencyError !== undefined) {
+        this.adjustFrequency(-frequencyError * AFC_TRACKING_GAIN);
+      }
+      this.bitSync.nextBitSampleIndex += this.params.downsampledSamplesPerBit * (1 + this.bitSync.clockSkew) + timingAdjustment;
+      this.processBit(bit, llr);
+    }
+  }
+
+  /**
+   * Mean discriminator over the last bit. Its sign over the bit matches the hard
+   * decisions, also for the tone detector whose output is integrated over a bit already.
+   */
+  private updateBitMean(discriminator: number): void {
+    const correlator = this.correlator;
+    if (correlator.word.length === 0 || !correlator.samples || !correlator.means) return;
+    if (correlator.samples.length === correlator.samples.capacity) correlator.sum -= correlator.samples.get(0);
+    correlator.samples.put(discriminator);
+    correlator.sum += discriminator;
+    correlator.means.put(correlator.sum / correlator.samples.length);
+  }
+
+  /**
+   * Normalised correlation of the sync word with the bit means ending at the newest
+   * sample, Σ word·mean / sqrt(L·Σ mean²): 1 for the word received at any level.
+   */
+  private correlateSyncWord(): number {
+    const { word, means } = this.correlator;
+    if (!means || means.length < means.capacity) return 0;
+    const samplesPerBit = this.params.downsampledSamplesPerBit;
+    let sum = 0, energy = 0;
+    for (let b = 0; b < word.length; b++) {
+      const mean = means.get(means.length - 1 - (word.length - 1 - b) * samplesPerBit);
+      sum += word[b] * mean;
+      energy += mean * mean;
+    }
+    return energy > 0 ? sum / Math.sqrt(word.length * energy) : 0;
+  }
+
+  /**
+   * Follows the correlation above the threshold to its peak, where the bit means line up
+   * with the sync word. A quarter bit without a higher value ends the search; the samples
+   * since the peak belong to the first bit after the word.
+   */
+  private searchSyncWord(): void {
+    const correlator = this.correlator;
+    const correlation = this.correlateSyncWord();
+    if (correlation > correlator.threshold && correlation > correlator.peak) {
+      Object.assign(correlator, { peak: correlation, age: 0 });
+      return;
+    }
+    if (correlator.peak === 0 || ++correlator.age < Math.round(this.params.downsampledSamplesPerBit / 4)) return;
+
+    const { peak, age } = correlator;
+    const samples = correlator.samples;
+    correlator.peak = 0;
+    this.startFrame(peak, age);
+    if (!samples) return;
+    this.bitSync.lastSample = samples.get(samples.length - 1 - age);
+    for (let k = age; k > 0; k--) this.receiveSample(samples.get(samples.length - k), true);
+  }
+
+  // Discriminator between the previous bit and this one, and at the middle of this bit
+  private sampleTiming(discriminator: number): void {
+    const timing = this.bitSync;
+    if (timing.bitAccumCount === 1) timing.boundary = (timing.lastSample + discriminator) / 2;
+    if (timing.bitAccumCount === Math.ceil(this.params.downsampledSamplesPerBit / 2)) timing.center = discriminator;
+    timing.lastSample = discriminator;
+  }
+
+  /**
+   * Gardner timing recovery. At a transition the discriminator crosses zero halfway
+   * between the bit centres; the value at the window boundary, relative to the step
+   * between the centres, is how far the window lags (negative) or leads the bits.
+   * Returns the correction to the next decision point in samples.
+   */
+  private recoverTiming(windowLength: number): number {
+    const timing = this.bitSync;
+    const samplesPerBit = this.params.downsampledSamplesPerBit;
+    // Too short to hold both a boundary and a centre
+    if (windowLength < samplesPerBit - 1) {
+      timing.timingBits = 0;
+      return 0;
+    }
+    const { lastCenter, center, boundary } = timing;
+    timing.lastCenter = center;
+    if (++timing.timingBits < 2 || Math.sign(lastCenter) === Math.sign(center)) return 0;
+
+    const error = Math.max(-0.5, Math.min(0.5, boundary / (lastCenter - center)));
+    this.quality.timingSum += error;
+    this.quality.timingSquares += error * error;
+    this.quality.timings++;
+    if (timing.timingBits > TIMING_SETTLE_BITS) {
+      timing.clockSkew = Math.max(-MAX_CLOCK_SKEW, Math.min(MAX_CLOCK_SKEW, timing.clockSkew + error * TIMING_RATE_GAIN));
+    }
+    return error * TIMING_GAIN * samplesPerBit;
+  }
+
+  /**
+   * Log-likelihood ratio of a bit from its mean discriminator, for Gaussian noise around
+   * the nominal ±deviation levels: 2·deviation·mean / noise power. The mean is taken over
+   * the middle half of the window, clear of the transitions, and the noise power over the
+   * decided bits of the frame; positive favours a mark (1).
+   */
+  private bitLikelihood(bit: number, samples: number[]): number {
+    const middle = samples.slice(Math.floor(samples.length / 4), Math.ceil(samples.length * 3 / 4));
+    if (middle.length === 0) return 0;
+    const soft = this.soft;
+    const deviation = this.afc.deviation;
+    const mean = middle.reduce((sum, value) => sum + value, 0) / middle.length;
+    const error = mean - (bit ? deviation : -deviation);
+    soft.noisePower += (error * error - soft.noisePower) / Math.min(++soft.bits, SOFT_NOISE_BITS);
+    return 2 * deviation * mean / Math.max(soft.noisePower, SOFT_NOISE_FLOOR * deviation * deviation);
+  }
+
+  private processBit(bit: number, llr = 0): void {
+    if (this.config.framing === 'sync') {
+      this.processStreamBit(bit, llr);
+    } else {
+      this.processByte(bit, llr);
+    }
+  }
+
+  private processByte(bit: number, llr: number): void {
+    const { startBits, dataBits, stopBits } = this.config;
     const { bitPosition } = this.byteState;
-    const stopBitPosition = this.config.parity === 'none' ? 9 : 10;
+    const parityPosition = startBits + dataBits;
+    const stopPosition = parityPosition + (this.config.parity === 'none' ? 0 : 1);
     
-    if (bitPosition === 0) {
-      // Start bit validation
+    if (bitPosition < startBits) {
+      // A mark is more idle: wait for the start bit
       if (bit !== 0) {
-        this.resetState();
+        this.resetHunt(true);
         return;
       }
-    } else if (bitPosition >= 1 && bitPosition <= 8) {
-      // Data bits (MSB first)
-      this.byteState.current |= (bit << (8 - bitPosition));
-    } else if (this.config.parity !== 'none' && bitPosition === 9) {
-      // Parity bit (validation could be added here)
-    } else if (bitPosition === stopBitPosition) {
-      // Stop bit validation and byte completion
+    } else if (bitPosition < parityPosition) {
+      // Data bits in the configured order; LLRs are kept MSB first like the byte
+      const weight = this.config.bitOrder === 'lsb' ? bitPosition - startBits : parityPosition - 1 - bitPosition;
+      this.byteState.current |= bit << weight;
+      this.soft.byte[dataBits - 1 - weight] = llr;
+    } else if (bitPosition < stopPosition) {
+      // Parity bit: kept above the data until the stop bit
+      this.byteState.current |= bit << dataBits;
+    } else {
+      // Stop bit validation and byte completion after the last whole stop bit
       if (bit !== 1) {
-        this.frame.started = false;
+        this.reportError('framing');
+        if (this.frame.syncPattern.length > 0) {
+          this.frame.started = false;
+        } else {
+          // Without frame sync the next start bit follows the line's return to mark
+          this.byteState.index++;
+          Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+          this.resetHunt(true, true);
+        }
         return;
       }
-      this.byteState.buffer.push(this.byteState.current);
-      Object.assign(this.byteState, { current: 0, bitPosition: -1 }); // -1 because it will be incremented below
-    } else {
-      this.frame.started = false;
+      if (bitPosition < stopPosition + Math.floor(stopBits) - 1) {
+        this.byteState.bitPosition++;
+        return;
+      }
+      this.commitFrequencyError();
+      if (!this.parityValid(this.byteState.current)) {
+        this.reportError('parity');
+      } else {
+        this.receiveByte(this.byteState.current & ((1 << dataBits) - 1), dataBits);
+      }
+      this.byteState.index++;
+      Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+
+      // The rest of a fractional stop bit is mark before the next start bit is hunted
+      const idle = (stopBits - Math.floor(stopBits)) * this.params.downsampledSamplesPerBit;
+      this.bitSync.idleUntil = this.bitSync.bitSampleCounter + idle;
+      this.bitSync.nextBitSampleIndex += idle;
+      this.resetHunt(true);
       return;
     }
     
     this.byteState.bitPosition++;
   }
 
-  async modulateData(data: Uint8Array): Promise<Float32Array> {
-    if (!this.ready || !this.config) {
-      throw new Error('FSK modulator not configured');
+  /**
+   * Synchronous framing: the length header, then data bits (MSB first) packed from the
+   * SFD onwards. The frame ends once the announced length has been received.
+   */
+  private processStreamBit(bit: number, llr: number): void {
+    const stream = this.stream;
+    if (stream.headerBits < STREAM_HEADER_BITS) {
+      stream.header = stream.header * 2 + bit;
+      if (++stream.headerBits < STREAM_HEADER_BITS) return;
+
+      const length = Math.floor(stream.header / 0x10000);
+      if ((length ^ (stream.header & 0xFFFF)) !== 0xFFFF) {
+        this.reportError('header');
+        this.frame.started = false;
+        return;
+      }
+      stream.length = length;
+      if (length === 0) this.frame.started = false;
+      return;
     }
-    
-    return this.generateFSKSignal(data);
+
+    const { bitPosition } = this.byteState;
+    this.byteState.current |= bit << (7 - bitPosition);
+    this.soft.byte[bitPosition] = llr;
+    if (bitPosition < 7) {
+      this.byteState.bitPosition++;
+      return;
+    }
+
+    this.commitFrequencyError();
+    this.receiveByte(this.byteState.current, 8);
+    this.byteState.index++;
+    Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+    if (this.byteState.index >= stream.length) this.frame.started = false;
   }
 
-  private generateFSKSignal(dataBytes: Uint8Array): Float32Array {
-    return this.generateFSKSignalInternal(this.config.preamblePattern, this.config.sfdPattern, dataBytes);
+  private receiveByte(byte: number, dataBits: number): void {
+    this.byteState.buffer.push(byte);
+    this.soft.buffer.push(...this.soft.byte.subarray(0, dataBits));
   }
 
-  private generateFSKSignalInternal(preambleBytes: number[], sfdBytes: number[], dataBytes: Uint8Array): Float32Array {
-    const { samplesPerBit, bitsPerByte } = this.params;
-    const totalBytes = preambleBytes.length + sfdBytes.length + dataBytes.length;
-    const paddingSamples = totalBytes > 0 ? samplesPerBit * 2 : 0;
-    const silenceSamples = bitsPerByte * samplesPerBit;
-    const totalSamples = totalBytes * bitsPerByte * samplesPerBit + paddingSamples + silenceSamples;
-    const output = new Float32Array(totalSamples);
-    
-    let sampleIndex = paddingSamples;
-    let phase = 0;
-    
-    const generateBit = (bit: number) => {
-      const frequency = bit === 1 ? this.config.markFrequency : this.config.spaceFrequency;
-      for (let i = 0; i < samplesPerBit && sampleIndex < output.length; i++) {
-        output[sampleIndex++] = Math.sin(phase);
-        phase += 2 * Math.PI * frequency / this.config.sampleRate;
-      }
-    };
-    
-    const generateByte = (byte: number) => {
-      // Start bits, data bits (MSB first), parity bit, stop bits
-      for (let i = 0; i < this.config.startBits; i++) generateBit(0);
-      for (let i = 7; i >= 0; i--) generateBit((byte >> i) & 1);
-      
-      if (this.config.parity !== 'none') {
-        let parity = 0;
-        for (let i = 0; i < 8; i++) parity ^= (byte >> i) & 1;
-        generateBit(this.config.parity === 'even' ? parity : 1 - parity);
+  /**
+   * Adds the discriminator samples of a decided bit to the eye diagram
+   */
+  private updateQuality(bit: number, frequencyError: number | undefined): void {
+    const q = this.quality;
+    const length = q.markSum.length;
+    const samples = q.bitSamples;
+    q.bitSamples = [];
+
+    // Timing recovery stretches or shrinks a window by a sample
+    q.pending.push({ samples: samples.length >= length ? samples : null, bit });
+    if (q.pending.length > 2 * EYE_NEIGHBOURS + 1) q.pending.shift();
+    // The middle bit now has all its neighbours
+    const middle = q.pending.length === 2 * EYE_NEIGHBOURS + 1 ? q.pending[EYE_NEIGHBOURS].samples : null;
+    if (middle) {
+      const pattern = q.pending.reduce((value, { bit }) => value * 2 + bit, 0);
+      q.patternCount[pattern]++;
+      for (let k = 0; k < length; k++) {
+        q.patternSum[pattern * length + k] += middle[k];
+        q.patternSquares[pattern * length + k] += middle[k] * middle[k];
       }
-      
-      for (let i = 0; i < this.config.stopBits; i++) generateBit(1);
-    };
-    
-    [...preambleBytes, ...sfdBytes, ...dataBytes].forEach(generateByte);
+    }
+    if (samples.length < length - 1) return;
+
+    const sums = bit ? q.markSum : q.spaceSum;
+    for (let k = 0; k < Math.min(samples.length, length); k++) sums[k] += samples[k];
+    if (bit) q.marks++;
+    else q.spaces++;
+
+    if (frequencyError !== undefined) {
+      q.byteErrorSum += frequencyError;
+      q.byteErrorBits++;
+    }
+  }
+
+  // Bits after the frame are noise; only those of framed bytes count towards the offset,
+  // taken with the AFC correction applied to them
+  private commitFrequencyError(): void {
+    const q = this.quality;
+    Object.assign(q, {
+      afcOffset: this.afc.offset, errorSum: q.errorSum + q.byteErrorSum, errorBits: q.errorBits + q.byteErrorBits,
+      byteErrorSum: 0, byteErrorBits: 0
+    });
+  }
+
+  private resetQuality(): void {
+    const q = this.quality;
+    const length = this.params.downsampledSamplesPerBit;
+    if (q.markSum.length !== length) {
+      Object.assign(q, {
+        markSum: new Float64Array(length), spaceSum: new Float64Array(length),
+        patternSum: new Float64Array(EYE_PATTERNS * length), patternSquares: new Float64Array(EYE_PATTERNS * length)
+      });
+    }
+    [q.markSum, q.spaceSum, q.patternCount, q.patternSum, q.patternSquares].forEach(values => values.fill(0));
+    Object.assign(q, {
+      bitSamples: [], marks: 0, spaces: 0, afcOffset: 0, errorSum: 0, errorBits: 0, byteErrorSum: 0, byteErrorBits: 0,
+      pending: [], timingSum: 0, timingSquares: 0, timings: 0
+    });
+  }
+
+  private parityValid(received: number): boolean {
+    if (this.config.parity === 'none') return true;
+    let ones = 0;
+    for (let i = 0; i <= this.config.dataBits; i++) ones ^= (received >> i) & 1;
+    return ones === (this.config.parity === 'even' ? 0 : 1);
+  }
+
+  private reportError(type: keyof typeof this.errors): void {
+    this.errors[type]++;
+    const error: FSKReceiveError = { type, byteIndex: this.byteState.index, samplePosition: this.debug.samplePosition };
+    this.emit('receiveError', { data: error });
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    const stream = this.createModulationStream(data);
+    const output = new Float32Array(stream.totalSamples);
+    stream.fillSamples(output);
     return output;
   }
 
+  /**
+   * The signal of modulateData() generated as it is pulled. Line states are produced per
+   * byte from the configuration at the time of the call, so memory does not grow with data.
+   */
+  createModulationStream(data: Uint8Array): IModulationStream {
+    if (!this.ready || !this.config) {
+      throw new Error('FSK modulator not configured');
+    }
+    if (this.config.framing === 'sync' && data.length > 0xFFFF) {
+      throw new Error('FSK frame too long');
+    }
+
+    const { samplesPerBit, bitsPerByte } = this.params;
+    const toRun = ({ value, length }: { value: number; length: number }): LineRun => ({ value, samples: Math.round(length * samplesPerBit) });
+    const header = this.syncBits().map(toRun);
+    const characters = this.config.framing === 'sync' ? [] : Array.from({ length: 256 }, (_, byte) => this.characterBits(byte).map(toRun));
+    let frameSamples = header.reduce((sum, { samples }) => sum + samples, 0);
+    if (this.config.framing === 'sync') {
+      frameSamples += (STREAM_HEADER_BITS + 8 * data.length + 1) * samplesPerBit;
+    } else {
+      for (const byte of data) frameSamples += characters[byte].reduce((sum, { samples }) => sum + samples, 0);
+    }
+
+    // Mark carrier around the bits: the rise and TX delay before them, the TX tail and the fall
+    // after. It takes the place of the leading padding and trailing silence where it fits.
+    const hasBits = header.length > 0 || this.config.framing === 'sync' || data.length > 0;
+    const { sampleRate } = this.config;
+    const rampSamples = hasBits ? Math.round(this.config.txRampTime * sampleRate) : 0;
+    const leadSamples = hasBits ? rampSamples + Math.round(this.config.txDelay * sampleRate) : 0;
+    const tailSamples = hasBits ? Math.round(this.config.txTail * sampleRate) + rampSamples : 0;
+    const paddingSamples = hasBits ? Math.max(0, samplesPerBit * 2 - leadSamples) : 0;
+    const silenceSamples = Math.max(0, Math.round(bitsPerByte * samplesPerBit) - tailSamples);
+
+    const runs = lineRuns(data, header, characters, samplesPerBit, leadSamples, tailSamples);
+    return new FSKModulationStream(runs, paddingSamples, leadSamples + frameSamples + tailSamples, silenceSamples, rampSamples, this.config);
+  }
+
   private calculateParameters(): void {
     // Optimal 2x downsampling: 48kHz -> 24kHz for 1200Hz signals
     // Proven optimal balance: 50% performance improvement with full precision
@@ -436,17 +1327,20 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       spaceFreq: this.config.spaceFrequency,
       centerFreq: (this.config.markFrequency + this.config.spaceFrequency) / 2,
       samplesPerBit: Math.floor(this.config.sampleRate / this.config.baudRate), // Keep original for modulation
-      bitsPerByte: 8 + this.config.startBits + this.config.stopBits + (this.config.parity !== 'none' ? 1 : 0),
+      bitsPerByte: this.config.startBits + this.config.dataBits + this.config.stopBits + (this.config.parity !== 'none' ? 1 : 0),
       downsampleRate: downsampleRate,
       downsampleRatio: downsampleRatio,
-      downsampledSamplesPerBit: Math.floor(downsampleRate / this.config.baudRate) // For demodulation
+      downsampledSamplesPerBit: Math.floor(downsampleRate / this.config.baudRate), // For demodulation
+      afcActive: this.config.afcEnabled && this.config.detector === 'discriminator' // Steers the I/Q mixer
     });
   }
 
   private initializeDSP(): void {
-    if (this.config.agcEnabled) {
-      this.dsp.agc = new AGCProcessor(this.params.sampleRate);
-    }
+    // The tone detector is normalised by the tone energy, and the AGC's gain ripple within
+    // a cycle would mix the tones
+    this.dsp.agc = this.config.agcEnabled && this.config.detector === 'discriminator'
+      ? new AGCProcessor(this.params.sampleRate)
+      : undefined;
     
     const freqSpan = Math.abs(this.params.spaceFreq - this.params.markFreq);
     const deviation = freqSpan / 2;
@@ -459,22 +1353,86 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       q: FilterFactory.createIIRLowpass(this.config.baudRate, this.params.sampleRate)
     };
     this.dsp.postFilter = FilterFactory.createIIRLowpass(this.config.baudRate, this.params.sampleRate);
+    this.dsp.toneBank = this.config.detector === 'tone'
+      ? new SlidingToneBank([this.params.markFreq, this.params.spaceFreq], this.params.sampleRate, this.params.samplesPerBit)
+      : undefined;
   }
 
   reset(): void {
     this.resetState();
     this.frame.syncSamplesBuffer?.clear();
     this.byteState.buffer = [];
-    Object.assign(this.debug, { syncDetections: 0, demodulationCalls: 0, totalSamples: 0 });
+    Object.assign(this.soft, { noisePower: 0, bits: 0, buffer: [] });
+    Object.assign(this.debug, { syncDetections: 0, demodulationCalls: 0, totalSamples: 0, samplePosition: 0 });
+    Object.assign(this.errors, { parity: 0, framing: 0, header: 0 });
+    this.bitSync.clockSkew = 0;
+    Object.assign(this.carrier, { errorPower: 4, active: false });
+    this.frame.pendingEOD = false;
+    this.resetQuality();
+    this.resetAFC();
   }
 
-  getSignalQuality() {
+  /**
+   * Link quality from the eye diagram of the last frame, taken at the sample phase with the
+   * best SNR (the filters delay the bit centre). The discriminator output is the phase step
+   * per downsampled sample: marks and spaces sit ±deviation around the mean slope. Noise is
+   * the spread around the mean level of each pattern of neighbouring bits, and the BER
+   * averages the chance of each pattern crossing the decision threshold at zero. The eye
+   * opening is that of the worst patterns less EYE_NOISE_MARGIN deviations of noise.
+   * Phase jitter is the standard deviation of the timing error of the bit transitions in
+   * radians of the bit clock.
+   * The carrier frequency offset is the AFC correction plus the mean error left over the
+   * bits of the frame; the tone detector does not measure it.
+   */
+  getSignalQuality(): SignalQuality {
+    const q = this.quality;
+    if (q.marks === 0 || q.spaces === 0) {
+      return { snr: 0, ber: 0, eyeOpening: 0, phaseJitter: 0, frequencyOffset: 0 };
+    }
+
+    const length = q.markSum.length;
+    const patterns = Array.from(q.patternCount.keys()).filter(pattern => q.patternCount[pattern] > 0);
+    const degrees = patterns.reduce((sum, pattern) => sum + q.patternCount[pattern] - 1, 0);
+    let best = { ratio: -1, markLevel: 0, spaceLevel: 0, variance: 0, phase: 0 };
+    let eyeOpening = 0;
+    for (let k = 0; k < length; k++) {
+      const markLevel = q.markSum[k] / q.marks;
+      const spaceLevel = q.spaceSum[k] / q.spaces;
+      let squares = 0, lowestMark = Infinity, highestSpace = -Infinity;
+      for (const pattern of patterns) {
+        const count = q.patternCount[pattern];
+        const mean = q.patternSum[pattern * length + k] / count;
+        squares += q.patternSquares[pattern * length + k] - count * mean * mean;
+        if ((pattern >> EYE_NEIGHBOURS) & 1) lowestMark = Math.min(lowestMark, mean);
+        else highestSpace = Math.max(highestSpace, mean);
+      }
+      const variance = degrees > 0 ? Math.max(0, squares / degrees) : 0;
+      const amplitude = (markLevel - spaceLevel) / 2;
+      const ratio = variance > 0 ? amplitude * Math.abs(amplitude) / variance : Infinity;
+      if (ratio > best.ratio) best = { ratio, markLevel, spaceLevel, variance, phase: k };
+      // Worst-case patterns, closed by EYE_NOISE_MARGIN standard deviations of noise on either side
+      const opening = lowestMark - highestSpace - 2 * EYE_NOISE_MARGIN * Math.sqrt(variance);
+      if (amplitude > 0) eyeOpening = Math.max(eyeOpening, Math.min(1, opening / (2 * amplitude)));
+    }
+
+    const separation = best.markLevel - best.spaceLevel;
+    const noise = Math.sqrt(best.variance);
+    const timingMean = q.timings > 0 ? q.timingSum / q.timings : 0;
+    // Gaussian noise at the decision instant around the level of each pattern
+    let errors = 0, bits = 0;
+    for (const pattern of patterns) {
+      const count = q.patternCount[pattern];
+      const level = q.patternSum[pattern * length + best.phase] / count;
+      const distance = (pattern >> EYE_NEIGHBOURS) & 1 ? level : -level;
+      errors += count * (noise > 0 ? gaussianTail(distance / noise) : distance > 0 ? 0 : 1);
+      bits += count;
+    }
     return {
-      snr: 0,
-      ber: 0,
-      eyeOpening: 0,
-      phaseJitter: 0,
-      frequencyOffset: 0
+      snr: best.variance > 0 && separation > 0 ? 10 * Math.log10(best.ratio) : 0,
+      ber: bits > 0 ? errors / bits : 0,
+      eyeOpening,
+      phaseJitter: q.timings > 0 ? 2 * Math.PI * Math.sqrt(Math.max(0, q.timingSquares / q.timings - timingMean * timingMean)) : 0,
+      frequencyOffset: this.dsp.toneBank ? 0 : q.afcOffset - (q.errorBits > 0 ? q.errorSum / q.errorBits : 0) * this.params.downsampleRate / (2 * Math.PI)
     };
   }
 
@@ -488,6 +1446,12 @@ export class FSKCore extends BaseModulator<FSKConfig> {
       demodulationCalls: this.debug.demodulationCalls,
       syncDetections: this.debug.syncDetections,
       silenceThreshold: this.silence.threshold,
+      parityErrors: this.errors.parity,
+      framingErrors: this.errors.framing,
+      headerErrors: this.errors.header,
+      carrierDetected: this.carrier.active,
+      afcOffset: this.afc.offset,
+      clockSkew: this.bitSync.clockSkew * 1e6, // ppm, positive when our sample clock is faster
       totalSamplesProcessed: this.debug.totalSamples
     };
   }
@@ -0,0 +1,363 @@
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { RingBuffer } from '@/utils';
+
+export interface GMSKConfig extends BaseModulatorConfig {
+  carrierFrequency: number;  // Centre frequency, tones at ±baudRate/4
+  bt: number;                // Gaussian filter bandwidth-time product, 0 = plain MSK
+  preambleBits: number;      // Alternating bits before the sync word
+  maxSyncErrors: number;     // Bit errors tolerated in preamble tail + sync word
+}
+
+export const DEFAULT_GMSK_CONFIG: GMSKConfig = {
+  sampleRate: 48000,
+  baudRate: 1200,
+  carrierFrequency: 1800,
+  bt: 0.5,
+  preambleBits: 32,
+  maxSyncErrors: 2
+};
+
+// Sync pattern: last 16 preamble bits (0101...) followed by the sync word
+const SYNC_WORD = 0x2DD4;
+const SYNC_PATTERN = (0x5555 << 16 | SYNC_WORD) >>> 0;
+
+// Frame header: 16-bit length + its complement
+const HEADER_BITS = 32;
+
+// Gaussian frequency pulse is truncated to this many bit periods
+const PULSE_SPAN_BITS = 4;
+
+// Alternating bits after the frame flush the pulse tail and the receive filters
+const TAIL_BITS = 4;
+
+// Receive lowpass on the complex baseband, cutoff relative to the baud rate
+const RX_FILTER_CUTOFF = 0.8;
+const RX_FILTER_STAGES = 2;
+
+// Fraction of the timing error corrected at each transition
+const PLL_GAIN = 0.25;
+
+// Frame is dropped when the baseband level stays below this fraction of the
+// level at sync for this many bits
+const CARRIER_LOSS_RATIO = 0.1;
+const CARRIER_LOSS_BITS = 8;
+
+function bytesToBits(data: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let b = 7; b >= 0; b--) bits.push((data[i] >> b) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[start + i];
+  return value;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v !== 0; v &= v - 1) count++;
+  return count;
+}
+
+// Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const a = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * a);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-a * a));
+}
+
+/**
+ * Frequency pulse of one bit at time u (in bit periods, centred on the bit):
+ * a rectangular bit convolved with the Gaussian filter, area 1 bit period
+ */
+function frequencyPulse(u: number, bt: number): number {
+  if (bt <= 0) return Math.abs(u) < 0.5 ? 1 : (Math.abs(u) === 0.5 ? 0.5 : 0);
+  const k = Math.PI * bt * Math.sqrt(2 / Math.LN2);
+  return 0.5 * (erf(k * (u + 0.5)) - erf(k * (u - 0.5)));
+}
+
+/**
+ * MSK / GMSK Core implementation
+ *
+ * Continuous phase FSK with modulation index 0.5: every bit turns the carrier phase
+ * by exactly ±90°. GMSK passes the bit stream through a Gaussian filter (bandwidth
+ * BT/T) before the frequency modulator, so the frequency moves smoothly between the
+ * tones and the spectrum stays compact; adjacent channels can sit 1.5 × baud apart.
+ *
+ * The receiver mixes to baseband and uses the matching 1-bit differential detector
+ * (sign of the phase change over one bit), which needs no carrier recovery.
+ * Frame: alternating preamble, 16-bit sync word, 32-bit length header, payload.
+ */
+export class GMSKCore extends BaseModulator<GMSKConfig> {
+  readonly name = 'GMSK';
+  readonly type: ModulationType = 'FSK';
+
+  // DSP components
+  private readonly dsp = {
+    lowpassI: [] as IIRFilter[],
+    lowpassQ: [] as IIRFilter[],
+    loPhase: 0
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerBit: 0, delay: 0, loOmega: 0
+  };
+
+  // Complex baseband delayed by one bit for the differential detector
+  private readonly history = {
+    i: undefined as RingBuffer<Float64Array> | undefined,
+    q: undefined as RingBuffer<Float64Array> | undefined
+  };
+
+  // Clock recovery (DPLL): decisions at phase wrap, transitions half way between
+  private readonly bitSync = { phase: 0, lastSymbol: 0, level: 0 };
+
+  // Frame state
+  private readonly frame = {
+    started: false, shift: 0, syncLevel: 0, weakBits: 0,
+    bits: [] as number[], expectedBits: 0
+  };
+
+  // Byte assembly state
+  private readonly byteState = { buffer: [] as number[] };
+
+  // Debug counters
+  private readonly debug = {
+    syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: GMSKConfig): void {
+    const merged = { ...DEFAULT_GMSK_CONFIG, ...config } as GMSKConfig;
+    if (merged.carrierFrequency - merged.baudRate / 2 <= 0 || merged.carrierFrequency + merged.baudRate / 2 >= merged.sampleRate / 2) {
+      throw new Error('GMSK signal must lie between 0 Hz and the Nyquist frequency');
+    }
+    if (merged.preambleBits < 16) {
+      throw new Error('GMSK preamble must have at least 16 bits');
+    }
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, carrierFrequency } = this.config;
+    const samplesPerBit = sampleRate / baudRate;
+    Object.assign(this.params, {
+      samplesPerBit,
+      delay: Math.round(samplesPerBit),
+      loOmega: 2 * Math.PI * carrierFrequency / sampleRate
+    });
+  }
+
+  private initializeDSP(): void {
+    const { baudRate, sampleRate } = this.config;
+    const createChain = () => Array.from({ length: RX_FILTER_STAGES }, () =>
+      FilterFactory.createIIRLowpass(RX_FILTER_CUTOFF * baudRate, sampleRate));
+    this.dsp.lowpassI = createChain();
+    this.dsp.lowpassQ = createChain();
+    this.history.i = new RingBuffer(Float64Array, this.params.delay + 1);
+    this.history.q = new RingBuffer(Float64Array, this.params.delay + 1);
+  }
+
+  private resetState(): void {
+    [...this.dsp.lowpassI, ...this.dsp.lowpassQ].forEach(filter => filter.reset());
+    this.dsp.loPhase = 0;
+    this.history.i?.clear();
+    this.history.q?.clear();
+    Object.assign(this.bitSync, { phase: 0, lastSymbol: 0, level: 0 });
+    this.endFrame();
+  }
+
+  private endFrame(): void {
+    Object.assign(this.frame, { started: false, shift: 0, syncLevel: 0, weakBits: 0, bits: [], expectedBits: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('GMSK demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const dsp = this.dsp;
+    let i = sample * Math.cos(dsp.loPhase);
+    let q = -sample * Math.sin(dsp.loPhase);
+    dsp.loPhase = (dsp.loPhase + this.params.loOmega) % (2 * Math.PI);
+    for (const filter of dsp.lowpassI) i = filter.process(i);
+    for (const filter of dsp.lowpassQ) q = filter.process(q);
+
+    const historyI = this.history.i!;
+    const historyQ = this.history.q!;
+    historyI.put(i);
+    historyQ.put(q);
+    if (historyI.length < historyI.capacity) return;
+
+    // z[n] * conj(z[n - T]): the imaginary part is the sign of the phase change over one bit
+    const previousI = historyI.get(0);
+    const previousQ = historyQ.get(0);
+    const cross = q * previousI - i * previousQ;
+    const symbol = cross > 0 ? 1 : 0;
+
+    const sync = this.bitSync;
+    sync.phase += 1 / this.params.samplesPerBit;
+    if (symbol !== sync.lastSymbol) {
+      sync.phase += (0.5 - sync.phase) * PLL_GAIN;
+      sync.lastSymbol = symbol;
+    }
+    if (sync.phase >= 1) {
+      sync.phase -= 1;
+      sync.level = Math.hypot(i, q);
+      this.processBit(symbol);
+    }
+  }
+
+  private processBit(bit: number): void {
+    const frame = this.frame;
+
+    if (!frame.started) {
+      frame.shift = ((frame.shift << 1) | bit) >>> 0;
+      if (popcount(frame.shift ^ SYNC_PATTERN) <= this.config.maxSyncErrors) {
+        this.debug.syncDetections++;
+        Object.assign(frame, { started: true, syncLevel: this.bitSync.level, weakBits: 0, bits: [], expectedBits: 0 });
+      }
+      return;
+    }
+
+    if (this.bitSync.level < frame.syncLevel * CARRIER_LOSS_RATIO) {
+      if (++frame.weakBits >= CARRIER_LOSS_BITS) {
+        this.debug.carrierLosses++;
+        this.endFrame();
+        return;
+      }
+    } else {
+      frame.weakBits = 0;
+    }
+
+    frame.bits.push(bit);
+    this.processBits();
+  }
+
+  private processBits(): void {
+    const frame = this.frame;
+
+    if (frame.expectedBits === 0 && frame.bits.length >= HEADER_BITS) {
+      const length = bitsToNumber(frame.bits, 0, 16);
+      const check = bitsToNumber(frame.bits, 16, 16);
+      if ((length ^ check) !== 0xFFFF) {
+        this.debug.headerErrors++;
+        this.endFrame();
+        return;
+      }
+      frame.expectedBits = HEADER_BITS + length * 8;
+    }
+
+    if (frame.expectedBits > 0 && frame.bits.length >= frame.expectedBits) {
+      for (let i = HEADER_BITS; i < frame.expectedBits; i += 8) {
+        this.byteState.buffer.push(bitsToNumber(frame.bits, i, 8));
+      }
+      this.endFrame();
+      this.emit('eod');
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('GMSK modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error('GMSK frame too long');
+    }
+
+    const { preambleBits } = this.config;
+    const length = data.length;
+    const preamble = Array.from({ length: preambleBits }, (_, i) => (preambleBits - i) & 1);
+    const bits = [
+      ...preamble,
+      ...bytesToBits([SYNC_WORD >> 8, SYNC_WORD & 0xFF, length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...data]),
+      ...Array.from({ length: TAIL_BITS }, (_, i) => i & 1)
+    ];
+
+    return this.generateSignal(bits);
+  }
+
+  /**
+   * Sum of Gaussian frequency pulses (±baudRate/4 each), integrated into the carrier phase
+   */
+  private generateSignal(bits: number[]): Float32Array {
+    const { sampleRate, baudRate, carrierFrequency, bt } = this.config;
+    const { samplesPerBit } = this.params;
+    const output = new Float32Array(Math.round(bits.length * samplesPerBit));
+    const deviation = baudRate / 4;
+    const span = PULSE_SPAN_BITS / 2;
+
+    let phase = 0;
+    for (let n = 0; n < output.length; n++) {
+      // Bit k is centred on (k + 0.5) bit periods
+      const t = n / samplesPerBit;
+      let frequency = 0;
+      const first = Math.max(0, Math.ceil(t - 0.5 - span));
+      const last = Math.min(bits.length - 1, Math.floor(t - 0.5 + span));
+      for (let k = first; k <= last; k++) {
+        frequency += (bits[k] ? 1 : -1) * frequencyPulse(t - k - 0.5, bt);
+      }
+
+      output[n] = Math.sin(phase);
+      phase = (phase + 2 * Math.PI * (carrierFrequency + deviation * frequency) / sampleRate) % (2 * Math.PI);
+    }
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      frameStarted: this.frame.started,
+      receivedBits: this.frame.bits.length,
+      byteBufferLength: this.byteState.buffer.length,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      carrierLosses: this.debug.carrierLosses,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,474 @@
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { SlidingToneBank } from '../dsp/goertzel';
+import { RingBuffer } from '@/utils';
+
+export interface MFSKConfig extends BaseModulatorConfig {
+  order: number;          // Number of tones: 4, 8, 16 or 32
+  baseFrequency: number;  // Lowest tone
+  toneSpacing: number;    // Multiple of baudRate keeps the tones orthogonal
+  syncThreshold: number;  // Mean tone dominance over the preamble (0..1)
+}
+
+export const DEFAULT_MFSK_CONFIG: MFSKConfig = {
+  sampleRate: 48000,
+  baudRate: 100,          // Symbol rate, 16 tones -> 400 bps
+  order: 16,
+  baseFrequency: 1000,
+  toneSpacing: 100,
+  syncThreshold: 0.5
+};
+
+const SUPPORTED_ORDERS = [4, 8, 16, 32];
+
+// Preamble on a 4-tone grid (scaled to the outer tones), adjacent tones always differ
+const PREAMBLE_PATTERN = [0, 3, 1, 2, 0, 3, 2, 1];
+
+// Frame header: 16-bit length + its complement
+const HEADER_BITS = 32;
+
+// Fraction of the measured timing error corrected per symbol
+const TIMING_GAIN = 0.25;
+
+// Frame is dropped when the power in all tones stays below this fraction of the
+// preamble power for two symbols (a single tone may fade out in a reverberant room)
+const CARRIER_LOSS_RATIO = 0.1;
+const CARRIER_LOSS_SYMBOLS = 2;
+
+// Room echoes of the last ECHO_SYMBOLS symbols are estimated per tone and removed
+// before each decision; ECHO_GAIN is the adaptation step of the estimates
+const ECHO_SYMBOLS = 4;
+const ECHO_GAIN = 0.3;
+
+function bytesToBits(data: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let b = 7; b >= 0; b--) bits.push((data[i] >> b) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[start + i];
+  return value;
+}
+
+/**
+ * M-ary FSK Core implementation
+ *
+ * Each symbol carries log2(M) Gray-coded bits as one of M tones. Detection is
+ * non-coherent (sliding DFT bank), so phase distortion, room echo and level
+ * changes that break binary FSK only add energy to other tones.
+ *
+ * Frame: preamble tones, 32-bit length header, payload. demodulateData() emits
+ * 'eod' when the announced length has been received.
+ */
+export class MFSKCore extends BaseModulator<MFSKConfig> {
+  readonly name = 'MFSK';
+  readonly type: ModulationType = 'FSK';
+
+  // DSP components
+  private readonly dsp = {
+    toneBank: undefined as SlidingToneBank | undefined
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerSymbol: 0, bitsPerSymbol: 0, timingOffset: 0,
+    preamble: [] as number[]
+  };
+
+  // Per-sample detector output: strongest tone, its power, the power in all tones
+  // and the I/Q output of every tone (over the last two symbols)
+  private readonly history = {
+    tones: undefined as RingBuffer<Uint8Array> | undefined,
+    powers: undefined as RingBuffer<Float64Array> | undefined,
+    totals: undefined as RingBuffer<Float64Array> | undefined,
+    spectra: undefined as RingBuffer<Float64Array> | undefined,
+    sampleCount: 0
+  };
+
+  // Preamble search state
+  private readonly sync = {
+    triggered: false, triggerSample: 0, bestPower: 0, bestSample: 0
+  };
+
+  // Frame state (symbol boundary is the sample where a symbol window ends). The echo
+  // estimates are I/Q pairs per tone for the symbol itself and each of the ECHO_SYMBOLS before it
+  private readonly frame = {
+    started: false, nextBoundary: 0, syncPower: 0, weakSymbols: 0,
+    bits: [] as number[], expectedBits: 0,
+    tones: [] as number[], echoes: new Float64Array(0)
+  };
+
+  // Byte assembly state
+  private readonly byteState = { buffer: [] as number[] };
+
+  // Debug counters
+  private readonly debug = {
+    syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: MFSKConfig): void {
+    const merged = { ...DEFAULT_MFSK_CONFIG, ...config } as MFSKConfig;
+    if (!SUPPORTED_ORDERS.includes(merged.order)) {
+      throw new Error(`Unsupported MFSK order: ${merged.order}`);
+    }
+    if (merged.baseFrequency + (merged.order - 1) * merged.toneSpacing >= merged.sampleRate / 2) {
+      throw new Error('Highest MFSK tone must be below Nyquist frequency');
+    }
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  get bitsPerSymbol(): number {
+    return this.params.bitsPerSymbol;
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, order } = this.config;
+    const samplesPerSymbol = Math.round(sampleRate / baudRate);
+    Object.assign(this.params, {
+      samplesPerSymbol,
+      bitsPerSymbol: Math.log2(order),
+      timingOffset: Math.max(1, Math.round(samplesPerSymbol / 8)),
+      preamble: PREAMBLE_PATTERN.map(tone => Math.round(tone * (order - 1) / 3))
+    });
+  }
+
+  private initializeDSP(): void {
+    const { order, baseFrequency, toneSpacing, sampleRate } = this.config;
+    const { samplesPerSymbol, preamble } = this.params;
+    const frequencies = Array.from({ length: order }, (_, m) => baseFrequency + m * toneSpacing);
+    this.dsp.toneBank = new SlidingToneBank(frequencies, sampleRate, samplesPerSymbol);
+
+    const historyLength = (preamble.length + 2) * samplesPerSymbol;
+    this.history.tones = new RingBuffer(Uint8Array, historyLength);
+    this.history.powers = new RingBuffer(Float64Array, historyLength);
+    this.history.totals = new RingBuffer(Float64Array, historyLength);
+    this.history.spectra = new RingBuffer(Float64Array, 2 * samplesPerSymbol * 2 * order);
+    this.frame.echoes = new Float64Array((ECHO_SYMBOLS + 1) * order * 2);
+  }
+
+  private resetState(): void {
+    this.dsp.toneBank?.reset();
+    this.history.tones?.clear();
+    this.history.powers?.clear();
+    this.history.totals?.clear();
+    this.history.spectra?.clear();
+    this.history.sampleCount = 0;
+    this.resetSync();
+    this.endFrame();
+  }
+
+  private resetSync(): void {
+    Object.assign(this.sync, { triggered: false, triggerSample: 0, bestPower: 0, bestSample: 0 });
+  }
+
+  private endFrame(): void {
+    Object.assign(this.frame, { started: false, nextBoundary: 0, syncPower: 0, weakSymbols: 0, bits: [], expectedBits: 0, tones: [] });
+    this.frame.echoes.fill(0);
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('MFSK demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const bank = this.dsp.toneBank!;
+    bank.process(sample);
+
+    let strongest = 0;
+    for (let m = 1; m < bank.powers.length; m++) {
+      if (bank.powers[m] > bank.powers[strongest]) strongest = m;
+    }
+    let total = 0;
+    for (let m = 0; m < bank.powers.length; m++) total += bank.powers[m];
+
+    this.history.tones!.put(strongest);
+    this.history.powers!.put(bank.powers[strongest]);
+    this.history.totals!.put(total);
+    for (let m = 0; m < bank.powers.length; m++) this.history.spectra!.put(bank.sumI[m], bank.sumQ[m]);
+    this.history.sampleCount++;
+
+    if (!this.frame.started) {
+      this.searchPreamble();
+    } else if (this.history.sampleCount >= Math.round(this.frame.nextBoundary) + this.params.samplesPerSymbol + this.params.timingOffset) {
+      // Decide one symbol late: the following tone tells whether both edges are usable for timing
+      this.decideSymbol();
+    }
+  }
+
+  // Detector output `ago` samples before the newest one
+  private toneAt(ago: number): number {
+    return this.history.tones!.get(-1 - ago);
+  }
+
+  private powerAt(ago: number): number {
+    return this.history.powers!.get(-1 - ago);
+  }
+
+  private totalAt(ago: number): number {
+    return this.history.totals!.get(-1 - ago);
+  }
+
+  /**
+   * Preamble detection: the strongest tone must follow the pattern at symbol spacing.
+   * After the first match the peak of the preamble tone power marks the symbol boundary.
+   */
+  private searchPreamble(): void {
+    const { preamble, samplesPerSymbol } = this.params;
+    const sync = this.sync;
+
+    const metric = this.preambleMetric();
+    if (metric.dominance > this.config.syncThreshold) {
+      if (!sync.triggered) {
+        Object.assign(sync, { triggered: true, triggerSample: this.history.sampleCount });
+      }
+      if (metric.power > sync.bestPower) {
+        Object.assign(sync, { bestPower: metric.power, bestSample: this.history.sampleCount });
+      }
+    }
+
+    if (sync.triggered && this.history.sampleCount - sync.triggerSample >= samplesPerSymbol / 2) {
+      // Average preamble power for carrier loss detection
+      const bestAgo = this.history.sampleCount - sync.bestSample;
+      let syncPower = 0;
+      for (let i = 0; i < preamble.length; i++) {
+        syncPower += this.totalAt(bestAgo + i * samplesPerSymbol);
+      }
+
+      this.debug.syncDetections++;
+      Object.assign(this.frame, {
+        started: true,
+        nextBoundary: sync.bestSample + samplesPerSymbol,
+        syncPower: syncPower / preamble.length,
+        weakSymbols: 0,
+        bits: [],
+        expectedBits: 0,
+        tones: [...preamble]
+      });
+      this.resetSync();
+    }
+  }
+
+  private preambleMetric(): { dominance: number; power: number } {
+    const { preamble, samplesPerSymbol } = this.params;
+    const metric = { dominance: 0, power: 0 };
+    if (this.history.tones!.length < preamble.length * samplesPerSymbol) return metric;
+
+    let matched = 0;
+    for (let i = 0; i < preamble.length; i++) {
+      const ago = (preamble.length - 1 - i) * samplesPerSymbol;
+      if (this.toneAt(ago) === preamble[i]) {
+        matched++;
+        const total = this.totalAt(ago);
+        metric.dominance += total > 0 ? this.powerAt(ago) / total : 0;
+        metric.power += this.powerAt(ago);
+      }
+    }
+    // One preamble symbol may be lost to noise or echo
+    if (matched < preamble.length - 1) return { dominance: 0, power: 0 };
+    metric.dominance /= preamble.length;
+    return metric;
+  }
+
+  private decideSymbol(): void {
+    const { samplesPerSymbol, timingOffset, bitsPerSymbol } = this.params;
+    const boundary = Math.round(this.frame.nextBoundary);
+    const ago = this.history.sampleCount - boundary;
+
+    const tone = this.decideTone(ago);
+    if (this.totalAt(ago) < this.frame.syncPower * CARRIER_LOSS_RATIO) {
+      if (++this.frame.weakSymbols >= CARRIER_LOSS_SYMBOLS) {
+        this.debug.carrierLosses++;
+        this.endFrame();
+        return;
+      }
+    } else {
+      this.frame.weakSymbols = 0;
+    }
+
+    // Early-late timing: window power falls off on both sides of the true boundary
+    // when the neighbouring symbols use other tones
+    let correction = 0;
+    const previous = this.toneAt(ago + samplesPerSymbol);
+    const next = this.toneAt(ago - samplesPerSymbol);
+    if (previous !== tone && next !== tone &&
+        this.toneAt(ago + timingOffset) === tone && this.toneAt(ago - timingOffset) === tone) {
+      const early = this.powerAt(ago + timingOffset);
+      const late = this.powerAt(ago - timingOffset);
+      correction = TIMING_GAIN * (late - early) / (late + early) * samplesPerSymbol / 2;
+    }
+    this.frame.nextBoundary += samplesPerSymbol + correction;
+
+    // Gray code: adjacent tones differ in one bit
+    const value = tone ^ (tone >> 1);
+    for (let b = bitsPerSymbol - 1; b >= 0; b--) this.frame.bits.push((value >> b) & 1);
+
+    this.processBits();
+  }
+
+  /**
+   * Strongest tone of the window ending `ago` samples back once the echoes of the previous
+   * symbols are removed. Every symbol holds whole cycles of its tone, so an echo lands in
+   * the bin of its tone with the same I/Q value each time that tone is sent: the values are
+   * learnt from the decisions (LMS), together with the direct path of the symbol itself.
+   */
+  private decideTone(ago: number): number {
+    const { order } = this.config;
+    const { tones, echoes } = this.frame;
+    const spectra = this.history.spectra!;
+    const scale = 2 / this.params.samplesPerSymbol;
+    const received = new Float64Array(2 * order);
+    for (let i = 0; i < 2 * order; i++) received[i] = scale * spectra.get(i - (ago + 1) * 2 * order);
+
+    let tone = 0, strongest = -1;
+    for (let m = 0; m < order; m++) {
+      let i = received[2 * m], q = received[2 * m + 1];
+      for (let k = 1; k <= ECHO_SYMBOLS; k++) {
+        if (tones[tones.length - k] !== m) continue;
+        i -= echoes[(k * order + m) * 2];
+        q -= echoes[(k * order + m) * 2 + 1];
+      }
+      if (i * i + q * q > strongest) {
+        tone = m;
+        strongest = i * i + q * q;
+      }
+    }
+
+    tones.push(tone);
+    if (tones.length > ECHO_SYMBOLS + 1) tones.shift();
+    // Move the estimates present in each bin towards what was received there
+    for (let m = 0; m < order; m++) {
+      const terms = [];
+      for (let k = 0; k <= ECHO_SYMBOLS; k++) if (tones[tones.length - 1 - k] === m) terms.push((k * order + m) * 2);
+      if (terms.length === 0) continue;
+      let errorI = received[2 * m], errorQ = received[2 * m + 1];
+      for (const term of terms) {
+        errorI -= echoes[term];
+        errorQ -= echoes[term + 1];
+      }
+      for (const term of terms) {
+        echoes[term] += ECHO_GAIN * errorI / terms.length;
+        echoes[term + 1] += ECHO_GAIN * errorQ / terms.length;
+      }
+    }
+    return tone;
+  }
+
+  private processBits(): void {
+    const frame = this.frame;
+
+    if (frame.expectedBits === 0 && frame.bits.length >= HEADER_BITS) {
+      const length = bitsToNumber(frame.bits, 0, 16);
+      const check = bitsToNumber(frame.bits, 16, 16);
+      if ((length ^ check) !== 0xFFFF) {
+        this.debug.headerErrors++;
+        this.endFrame();
+        return;
+      }
+      frame.expectedBits = HEADER_BITS + length * 8;
+    }
+
+    if (frame.expectedBits > 0 && frame.bits.length >= frame.expectedBits) {
+      for (let i = HEADER_BITS; i < frame.expectedBits; i += 8) {
+        this.byteState.buffer.push(bitsToNumber(frame.bits, i, 8));
+      }
+      this.endFrame();
+      this.emit('eod');
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('MFSK modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error('MFSK frame too long');
+    }
+
+    const { bitsPerSymbol, preamble, samplesPerSymbol } = this.params;
+    const length = data.length;
+    const bits = bytesToBits([length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...data]);
+    while (bits.length % bitsPerSymbol !== 0) bits.push(0);
+
+    const tones = [...preamble];
+    for (let i = 0; i < bits.length; i += bitsPerSymbol) {
+      let tone = bitsToNumber(bits, i, bitsPerSymbol);
+      for (let shift = 1; shift < bitsPerSymbol; shift <<= 1) tone ^= tone >> shift;
+      tones.push(tone);
+    }
+
+    // Trailing silence lets the receiver decide the last symbol
+    return this.generateTones(tones, 2 * samplesPerSymbol);
+  }
+
+  private generateTones(tones: number[], trailingSamples: number): Float32Array {
+    const { sampleRate, baseFrequency, toneSpacing } = this.config;
+    const symbolSamples = this.params.samplesPerSymbol;
+    const output = new Float32Array(tones.length * symbolSamples + trailingSamples);
+
+    let phase = 0;
+    let sampleIndex = 0;
+    for (const tone of tones) {
+      const omega = 2 * Math.PI * (baseFrequency + tone * toneSpacing) / sampleRate;
+      for (let i = 0; i < symbolSamples; i++) {
+        output[sampleIndex++] = Math.sin(phase);
+        phase = (phase + omega) % (2 * Math.PI);
+      }
+    }
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { syncDetections: 0, headerErrors: 0, carrierLosses: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      frameStarted: this.frame.started,
+      bitsPerSymbol: this.params.bitsPerSymbol,
+      receivedBits: this.frame.bits.length,
+      byteBufferLength: this.byteState.buffer.length,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      carrierLosses: this.debug.carrierLosses,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
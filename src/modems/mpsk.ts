@@ -0,0 +1,474 @@
+import { AGCProcessor, FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { RingBuffer } from '@/utils';
+
+export interface MPSKConfig extends BaseModulatorConfig {
+  order: 4 | 8;             // Constellation size (QPSK / 8-PSK), baudRate is the symbol rate
+  carrierFrequency: number;
+  preamblePattern: number[];
+  sfdPattern: number[];
+  syncThreshold: number;
+  agcEnabled: boolean;
+  preFilterBandwidth: number;
+  loopBandwidth: number;    // Decision-directed Costas loop noise bandwidth (Hz)
+}
+
+export const DEFAULT_MPSK_CONFIG: MPSKConfig = {
+  sampleRate: 48000,
+  baudRate: 1200,
+  order: 4,
+  carrierFrequency: 1800,
+  preamblePattern: [0x55, 0x55],
+  sfdPattern: [0x7E],
+  syncThreshold: 0.85,
+  agcEnabled: false,        // Sample-level AGC distorts carrier phase; detection is amplitude independent
+  preFilterBandwidth: 4800, // Wide enough to keep prefilter ISI well inside the 8-PSK decision region
+  loopBandwidth: 30
+};
+
+// Frame header: payload length (16 bit) followed by its complement
+const HEADER_BITS = 32;
+
+/**
+ * M-ary PSK Core implementation (QPSK / 8-PSK)
+ *
+ * Frame: reference symbol | preamble + SFD | length | ~length | payload | padding
+ *
+ * - Gray coded symbols, differentially encoded (phase increments) to resolve
+ *   the M-fold carrier phase ambiguity
+ * - Frame sync by differential correlation (independent of carrier phase)
+ * - Initial carrier phase/frequency estimated from the preamble, then tracked by
+ *   a decision-directed Costas loop at symbol rate
+ * - Partial symbols are zero padded; the receiver strips padding using the length header
+ */
+export class MPSKCore extends BaseModulator<MPSKConfig> {
+  readonly name = 'MPSK';
+  readonly type: ModulationType = 'PSK';
+
+  // DSP components
+  private readonly dsp = {
+    agc: undefined as AGCProcessor | undefined,
+    preFilter: undefined as IIRFilter | undefined
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerSymbol: 0, bitsPerSymbol: 0, omega: 0, loopAlpha: 0, loopBeta: 0
+  };
+
+  // Local oscillator phase (free running, carrier offset is corrected after matched filter)
+  private readonly nco = { phase: 0 };
+
+  // Matched filter (integrate over one symbol) state, output kept as I/Q pairs for sync
+  private readonly matched = {
+    iHistory: undefined as RingBuffer<Float64Array> | undefined,
+    qHistory: undefined as RingBuffer<Float64Array> | undefined,
+    output: undefined as RingBuffer<Float64Array> | undefined,
+    iSum: 0, qSum: 0
+  };
+
+  // Frame detection state
+  private readonly frame = {
+    syncIncrements: [] as number[], lastSyncIndex: 0, started: false,
+    candidateScore: 0, candidateAge: 0, candidateAmplitude: 0,
+    candidatePhase: 0, candidateFrequency: 0,
+    symbolSampleCounter: 0, silenceThreshold: 0
+  };
+
+  // Carrier tracking state after frame sync (radians, radians/symbol)
+  private readonly carrier = { phase: 0, frequency: 0, previousIndex: 0 };
+
+  // Bit/byte assembly state
+  private readonly byteState = {
+    bits: [] as number[], header: -1, remaining: 0, buffer: [] as number[]
+  };
+
+  // Debug counters
+  private readonly debug = { syncDetections: 0, headerErrors: 0, demodulationCalls: 0, totalSamples: 0 };
+
+  /**
+   * Number of bits carried by one symbol
+   */
+  get bitsPerSymbol(): number {
+    return this.params.bitsPerSymbol;
+  }
+
+  configure(config: MPSKConfig): void {
+    this.config = { ...DEFAULT_MPSK_CONFIG, ...config } as MPSKConfig;
+    if (this.config.order !== 4 && this.config.order !== 8) {
+      throw new Error(`Unsupported PSK order: ${this.config.order}`);
+    }
+
+    this.calculateParameters();
+    this.initializeDSP();
+
+    // Known phase increments of preamble + SFD (after the reference symbol)
+    const syncBits = this.bytesToBits([...this.config.preamblePattern, ...this.config.sfdPattern]);
+    this.frame.syncIncrements = this.bitsToIncrements(syncBits);
+    this.frame.lastSyncIndex = this.frame.syncIncrements.reduce((sum, k) => (sum + k) % this.config.order, 0);
+
+    const { samplesPerSymbol } = this.params;
+    this.matched.iHistory = new RingBuffer(Float64Array, samplesPerSymbol);
+    this.matched.qHistory = new RingBuffer(Float64Array, samplesPerSymbol);
+    this.matched.output = new RingBuffer(Float64Array, (this.frame.syncIncrements.length + 1) * samplesPerSymbol * 2);
+
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private bytesToBits(bytes: ArrayLike<number>): number[] {
+    const bits: number[] = [];
+    for (let n = 0; n < bytes.length; n++) {
+      for (let i = 7; i >= 0; i--) bits.push((bytes[n] >> i) & 1);
+    }
+    return bits;
+  }
+
+  /**
+   * Map bits to Gray coded phase increments, zero padding the last partial symbol
+   */
+  private bitsToIncrements(bits: number[]): number[] {
+    const { bitsPerSymbol } = this.params;
+    const increments: number[] = [];
+    for (let i = 0; i < bits.length; i += bitsPerSymbol) {
+      let value = 0;
+      for (let b = 0; b < bitsPerSymbol; b++) value = (value << 1) | (bits[i + b] ?? 0);
+      increments.push(grayDecode(value));
+    }
+    return increments;
+  }
+
+  private resetState(): void {
+    this.nco.phase = 0;
+    Object.assign(this.matched, { iSum: 0, qSum: 0 });
+    this.matched.iHistory?.clear();
+    this.matched.qHistory?.clear();
+    this.resetFrame();
+
+    this.dsp.agc?.reset();
+    this.dsp.preFilter?.reset();
+  }
+
+  private resetFrame(): void {
+    Object.assign(this.frame, {
+      started: false, candidateScore: 0, candidateAge: 0, candidateAmplitude: 0,
+      candidatePhase: 0, candidateFrequency: 0, symbolSampleCounter: 0
+    });
+    Object.assign(this.byteState, { bits: [], header: -1, remaining: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('MPSK demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        let sample = samples[i];
+        if (this.dsp.agc) sample = this.dsp.agc.processSample(sample);
+        if (this.dsp.preFilter) sample = this.dsp.preFilter.process(sample);
+        this.processSample(sample);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const { iHistory, qHistory, output } = this.matched;
+    if (!iHistory || !qHistory || !output) return;
+
+    // Mix down to complex baseband
+    const i = sample * Math.cos(this.nco.phase);
+    const q = -sample * Math.sin(this.nco.phase);
+    this.nco.phase = (this.nco.phase + this.params.omega) % (2 * Math.PI);
+
+    // Sliding integrate-and-dump matched filter
+    if (iHistory.length === iHistory.capacity) {
+      this.matched.iSum -= iHistory.get(0);
+      this.matched.qSum -= qHistory.get(0);
+    }
+    iHistory.put(i);
+    qHistory.put(q);
+    this.matched.iSum += i;
+    this.matched.qSum += q;
+    output.put(this.matched.iSum, this.matched.qSum);
+
+    const amplitude = Math.sqrt(this.matched.iSum * this.matched.iSum + this.matched.qSum * this.matched.qSum);
+
+    if (!this.frame.started) {
+      this.detectFrameStart(amplitude);
+      return;
+    }
+
+    this.frame.symbolSampleCounter++;
+    if (this.frame.symbolSampleCounter >= this.params.samplesPerSymbol) {
+      this.frame.symbolSampleCounter = 0;
+
+      if (amplitude < this.frame.silenceThreshold) {
+        this.resetFrame();
+        this.emit('eod');
+        return;
+      }
+
+      this.processSymbol(this.matched.iSum, this.matched.qSum);
+    }
+  }
+
+  /**
+   * Differential correlation of symbol-spaced matched filter outputs against
+   * the known preamble + SFD phase increments
+   */
+  private detectFrameStart(amplitude: number): void {
+    const output = this.matched.output!;
+    const increments = this.frame.syncIncrements;
+    const { samplesPerSymbol } = this.params;
+    const symbolAngle = 2 * Math.PI / this.config.order;
+
+    if (output.length < output.capacity) return;
+
+    let corrI = 0, corrQ = 0;
+    for (let j = 0; j < increments.length; j++) {
+      // Symbol j+1 of the sync sequence and its predecessor
+      const index = output.length - 2 - (increments.length - 1 - j) * samplesPerSymbol * 2;
+      const prevIndex = index - samplesPerSymbol * 2;
+      const zI = output.get(index), zQ = output.get(index + 1);
+      const pI = output.get(prevIndex), pQ = output.get(prevIndex + 1);
+
+      // d = z * conj(p) * exp(-j * expected increment), normalized to unit magnitude
+      const dI = zI * pI + zQ * pQ;
+      const dQ = zQ * pI - zI * pQ;
+      const magnitude = Math.sqrt(dI * dI + dQ * dQ) + 1e-12;
+      const angle = increments[j] * symbolAngle;
+      const c = Math.cos(angle), s = Math.sin(angle);
+      corrI += (dI * c + dQ * s) / magnitude;
+      corrQ += (dQ * c - dI * s) / magnitude;
+    }
+
+    const score = Math.sqrt(corrI * corrI + corrQ * corrQ) / increments.length;
+
+    if (score > this.config.syncThreshold && score > this.frame.candidateScore) {
+      const zI = output.get(output.length - 2), zQ = output.get(output.length - 1);
+      // Residual rotation per symbol gives the carrier frequency offset, the last
+      // sync symbol has a known absolute phase
+      this.frame.candidateFrequency = Math.atan2(corrQ, corrI);
+      this.frame.candidatePhase = Math.atan2(zQ, zI) - this.frame.lastSyncIndex * symbolAngle;
+      this.frame.candidateScore = score;
+      this.frame.candidateAge = 0;
+      this.frame.candidateAmplitude = amplitude;
+      return;
+    }
+
+    if (this.frame.candidateScore !== 0) {
+      this.frame.candidateAge++;
+      // Periodic preambles correlate almost as well one or two symbols early, so the
+      // peak is only confirmed after two symbols without a better score
+      const age = this.frame.candidateAge;
+      if (age >= samplesPerSymbol * 2) {
+        this.frame.started = true;
+        this.frame.silenceThreshold = this.frame.candidateAmplitude * 0.25;
+        Object.assign(this.carrier, {
+          phase: this.frame.candidatePhase,
+          frequency: this.frame.candidateFrequency,
+          previousIndex: this.frame.lastSyncIndex
+        });
+        Object.assign(this.byteState, { bits: [], header: -1, remaining: 0 });
+        this.debug.syncDetections++;
+
+        // Replay symbols received while waiting for confirmation
+        for (let k = 1; k * samplesPerSymbol <= age && this.frame.started; k++) {
+          const index = output.length - 2 - (age - k * samplesPerSymbol) * 2;
+          this.processSymbol(output.get(index), output.get(index + 1));
+        }
+        this.frame.symbolSampleCounter = age % samplesPerSymbol;
+      }
+    }
+  }
+
+  /**
+   * Symbol decision with decision-directed carrier tracking and differential decoding
+   */
+  private processSymbol(zI: number, zQ: number): void {
+    const { order } = this.config;
+    const symbolAngle = 2 * Math.PI / order;
+
+    this.carrier.phase += this.carrier.frequency;
+    const angle = wrapPhase(Math.atan2(zQ, zI) - this.carrier.phase);
+    const index = ((Math.round(angle / symbolAngle) % order) + order) % order;
+    const error = wrapPhase(angle - index * symbolAngle);
+
+    this.carrier.phase = wrapPhase(this.carrier.phase + this.params.loopAlpha * error);
+    this.carrier.frequency += this.params.loopBeta * error;
+
+    const increment = (index - this.carrier.previousIndex + order) % order;
+    this.carrier.previousIndex = index;
+
+    const value = grayEncode(increment);
+    for (let b = this.params.bitsPerSymbol - 1; b >= 0; b--) {
+      this.processBit((value >> b) & 1);
+      if (!this.frame.started) return;
+    }
+  }
+
+  private processBit(bit: number): void {
+    const state = this.byteState;
+    state.bits.push(bit);
+
+    if (state.header < 0) {
+      if (state.bits.length < HEADER_BITS) return;
+
+      const length = bitsToNumber(state.bits, 0, 16);
+      const check = bitsToNumber(state.bits, 16, 16);
+      state.bits = [];
+      if ((length ^ check) !== 0xFFFF) {
+        // Corrupted header or false sync
+        this.debug.headerErrors++;
+        this.resetFrame();
+        return;
+      }
+      state.header = length;
+      state.remaining = length;
+      if (length === 0) this.finishFrame();
+      return;
+    }
+
+    if (state.bits.length === 8) {
+      state.buffer.push(bitsToNumber(state.bits, 0, 8));
+      state.bits = [];
+      state.remaining--;
+      if (state.remaining === 0) this.finishFrame();
+    }
+  }
+
+  private finishFrame(): void {
+    // Remaining padding bits and symbols are ignored
+    this.resetFrame();
+    this.emit('eod');
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('MPSK modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error(`Payload too large: ${data.length} bytes`);
+    }
+
+    return this.generateMPSKSignal(data);
+  }
+
+  private generateMPSKSignal(dataBytes: Uint8Array): Float32Array {
+    const { samplesPerSymbol, omega } = this.params;
+    const { order } = this.config;
+    const symbolAngle = 2 * Math.PI / order;
+
+    const length = dataBytes.length;
+    const header = [length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF];
+    const syncBits = this.bytesToBits([...this.config.preamblePattern, ...this.config.sfdPattern]);
+    const frameBits = this.bytesToBits([...header, ...dataBytes]);
+    // Sync sequence is padded separately so the receiver knows its exact symbols
+    const increments = [...this.bitsToIncrements(syncBits), ...this.bitsToIncrements(frameBits)];
+
+    // Reference symbol (index 0) followed by differentially encoded symbols
+    const symbolIndices = [0];
+    for (const increment of increments) {
+      symbolIndices.push((symbolIndices[symbolIndices.length - 1] + increment) % order);
+    }
+
+    const paddingSamples = samplesPerSymbol * 2;
+    const silenceSamples = samplesPerSymbol * 8;
+    const output = new Float32Array(paddingSamples + symbolIndices.length * samplesPerSymbol + silenceSamples);
+
+    let sampleIndex = paddingSamples;
+    for (const symbolIndex of symbolIndices) {
+      const symbolPhase = symbolIndex * symbolAngle;
+      for (let i = 0; i < samplesPerSymbol; i++) {
+        output[sampleIndex] = Math.cos(omega * sampleIndex + symbolPhase);
+        sampleIndex++;
+      }
+    }
+
+    return output;
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, carrierFrequency, loopBandwidth, order } = this.config;
+
+    // Second order loop filter gains (damping 0.707), loop runs once per symbol
+    const damping = Math.SQRT1_2;
+    const theta = (loopBandwidth / baudRate) / (damping + 1 / (4 * damping));
+    const denom = 1 + 2 * damping * theta + theta * theta;
+
+    Object.assign(this.params, {
+      samplesPerSymbol: Math.floor(sampleRate / baudRate),
+      bitsPerSymbol: Math.log2(order),
+      omega: 2 * Math.PI * carrierFrequency / sampleRate,
+      loopAlpha: (4 * damping * theta) / denom,
+      loopBeta: (4 * theta * theta) / denom
+    });
+  }
+
+  private initializeDSP(): void {
+    this.dsp.agc = this.config.agcEnabled ? new AGCProcessor(this.config.sampleRate) : undefined;
+
+    const bandwidth = Math.max(this.config.preFilterBandwidth, 2 * this.config.baudRate);
+    this.dsp.preFilter = FilterFactory.createIIRBandpass(this.config.carrierFrequency, bandwidth, this.config.sampleRate);
+  }
+
+  reset(): void {
+    this.resetState();
+    this.matched.output?.clear();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { syncDetections: 0, headerErrors: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      order: this.config?.order,
+      bitsPerSymbol: this.params.bitsPerSymbol,
+      frameStarted: this.frame.started,
+      carrierFrequencyError: this.carrier.frequency * (this.config?.baudRate ?? 0) / (2 * Math.PI),
+      byteBufferLength: this.byteState.buffer.length,
+      demodulationCalls: this.debug.demodulationCalls,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
+
+function grayEncode(value: number): number {
+  return value ^ (value >> 1);
+}
+
+function grayDecode(gray: number): number {
+  let value = gray;
+  for (let shift = gray >> 1; shift; shift >>= 1) value ^= shift;
+  return value;
+}
+
+function wrapPhase(phase: number): number {
+  return phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+}
+
+function bitsToNumber(bits: number[], offset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[offset + i];
+  return value;
+}
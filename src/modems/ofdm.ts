@@ -0,0 +1,535 @@
+import { FFT } from '../dsp/fft';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { RingBuffer } from '@/utils';
+
+export type OFDMSubcarrierModulation = 'BPSK' | 'QPSK';
+
+export interface OFDMConfig extends BaseModulatorConfig {
+  fftSize: number;
+  cyclicPrefixLength: number;
+  firstSubcarrier: number;      // FFT bin of the lowest used subcarrier
+  subcarrierCount: number;      // Used subcarriers (pilots + data)
+  pilotSpacing: number;         // Every Nth used subcarrier carries a known pilot
+  subcarrierModulation: OFDMSubcarrierModulation;
+  syncThreshold: number;        // Schmidl-Cox timing metric threshold (0-1)
+}
+
+export const DEFAULT_OFDM_CONFIG: OFDMConfig = {
+  sampleRate: 48000,
+  baudRate: 75,                 // OFDM symbol rate, derived from fftSize + cyclicPrefixLength on configure
+  fftSize: 512,                 // 93.75 Hz subcarrier spacing at 48 kHz
+  cyclicPrefixLength: 128,      // 2.7 ms multipath guard
+  firstSubcarrier: 16,          // 1500 Hz
+  subcarrierCount: 48,          // up to 5906 Hz
+  pilotSpacing: 8,
+  subcarrierModulation: 'QPSK',
+  syncThreshold: 0.8
+};
+
+// Frame header: payload length (16 bit) followed by its complement
+const HEADER_BITS = 32;
+
+/**
+ * OFDM Core implementation
+ *
+ * Frame: Schmidl-Cox preamble | channel training symbol | data symbols, each with cyclic prefix
+ *
+ * - Preamble uses even subcarriers only, so its two halves are identical in time domain
+ * - Coarse timing from the centre of the Schmidl-Cox metric plateau, refined by
+ *   cross-correlation with the training symbol (earliest strong path)
+ * - Per-subcarrier channel estimate from the training symbol
+ * - Pilot subcarriers correct common phase and timing drift (phase slope) per symbol
+ * - Data subcarriers carry BPSK or QPSK (Gray), first 32 bits are length + ~length
+ */
+export class OFDMCore extends BaseModulator<OFDMConfig> {
+  readonly name = 'OFDM';
+  readonly type: ModulationType = 'OFDM';
+
+  // DSP components and FFT work buffers
+  private readonly dsp = {
+    fft: undefined as FFT | undefined,
+    re: new Float64Array(0),
+    im: new Float64Array(0)
+  };
+
+  // Processing parameters
+  private readonly params = {
+    symbolLength: 0, halfLength: 0, bitsPerCarrier: 0, bitsPerSymbol: 0, outputGain: 0,
+    carriers: [] as number[], pilots: [] as number[], dataCarriers: [] as number[],
+    preamble: [] as number[], training: [] as number[],
+    trainingWaveform: new Float64Array(0)
+  };
+
+  // Received sample history and Schmidl-Cox running sums
+  private readonly sync = {
+    history: undefined as RingBuffer<Float64Array> | undefined,
+    metric: undefined as RingBuffer<Float64Array> | undefined,
+    correlation: 0, firstEnergy: 0, secondEnergy: 0, tracking: false, peak: 0, peakAge: 0
+  };
+
+  // Frame state
+  private readonly frame = {
+    started: false, symbolStart: 0, symbolIndex: 0, trainingEnergy: 0,
+    channelRe: new Float64Array(0), channelIm: new Float64Array(0)
+  };
+
+  // Bit/byte assembly state
+  private readonly byteState = {
+    bits: [] as number[], header: -1, remaining: 0, buffer: [] as number[]
+  };
+
+  // Debug counters
+  private readonly debug = {
+    sampleIndex: 0, syncDetections: 0, headerErrors: 0, symbolsProcessed: 0, demodulationCalls: 0
+  };
+
+  /**
+   * Number of data bits carried by one OFDM symbol
+   */
+  get bitsPerSymbol(): number {
+    return this.params.bitsPerSymbol;
+  }
+
+  configure(config: OFDMConfig): void {
+    const merged = { ...DEFAULT_OFDM_CONFIG, ...config } as OFDMConfig;
+    const { fftSize, cyclicPrefixLength, firstSubcarrier, subcarrierCount, pilotSpacing } = merged;
+
+    this.dsp.fft = new FFT(fftSize);
+    if (cyclicPrefixLength < 0 || cyclicPrefixLength > fftSize / 2) {
+      throw new Error('Cyclic prefix must not exceed half of the FFT size');
+    }
+    if (firstSubcarrier < 1 || firstSubcarrier + subcarrierCount >= fftSize / 2) {
+      throw new Error('Subcarriers must lie between DC and Nyquist');
+    }
+    if (pilotSpacing < 2 || subcarrierCount < pilotSpacing) {
+      throw new Error('At least one pilot and one data subcarrier are required');
+    }
+
+    this.config = { ...merged, baudRate: merged.sampleRate / (fftSize + cyclicPrefixLength) };
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const { fftSize, cyclicPrefixLength, firstSubcarrier, subcarrierCount, pilotSpacing, subcarrierModulation } = this.config;
+    const carriers = Array.from({ length: subcarrierCount }, (_, i) => firstSubcarrier + i);
+    const pilots = carriers.filter((_, i) => i % pilotSpacing === 0);
+    const dataCarriers = carriers.filter((_, i) => i % pilotSpacing !== 0);
+    const bitsPerCarrier = subcarrierModulation === 'QPSK' ? 2 : 1;
+
+    // Known BPSK values from PRBS7 (x^7 + x^6 + 1)
+    let lfsr = 0x5A;
+    const nextValue = () => {
+      const bit = ((lfsr >> 6) ^ (lfsr >> 5)) & 1;
+      lfsr = ((lfsr << 1) | bit) & 0x7F;
+      return bit ? -1 : 1;
+    };
+    const training = carriers.map(() => nextValue());
+    // Preamble energy on even bins only, scaled to keep symbol power equal
+    const preamble = carriers.map(bin => bin % 2 === 0 ? nextValue() * Math.SQRT2 : 0);
+
+    Object.assign(this.params, {
+      symbolLength: fftSize + cyclicPrefixLength,
+      halfLength: fftSize / 2,
+      bitsPerCarrier,
+      bitsPerSymbol: dataCarriers.length * bitsPerCarrier,
+      // Unit magnitude subcarriers give RMS sqrt(2 * count) / N, scaled to 0.25
+      outputGain: 0.25 * fftSize / Math.sqrt(2 * subcarrierCount),
+      carriers, pilots, dataCarriers, preamble, training
+    });
+  }
+
+  private initializeDSP(): void {
+    const { fftSize, subcarrierCount } = this.config;
+    this.dsp.re = new Float64Array(fftSize);
+    this.dsp.im = new Float64Array(fftSize);
+    this.sync.history = new RingBuffer(Float64Array, (this.params.symbolLength + fftSize) * 2);
+    this.sync.metric = new RingBuffer(Float64Array, this.params.symbolLength * 2);
+    this.frame.channelRe = new Float64Array(subcarrierCount);
+    this.frame.channelIm = new Float64Array(subcarrierCount);
+
+    // Time domain training symbol (without cyclic prefix) for fine timing
+    const { re, im } = this.dsp;
+    re.fill(0);
+    im.fill(0);
+    this.params.carriers.forEach((bin, i) => {
+      re[bin] = this.params.training[i];
+      re[fftSize - bin] = this.params.training[i];
+    });
+    this.dsp.fft!.inverse(re, im);
+    this.params.trainingWaveform = Float64Array.from(re);
+  }
+
+  private resetState(): void {
+    this.sync.history?.clear();
+    this.sync.metric?.clear();
+    Object.assign(this.sync, { correlation: 0, firstEnergy: 0, secondEnergy: 0, tracking: false, peak: 0, peakAge: 0 });
+    this.debug.sampleIndex = 0;
+    this.resetFrame();
+  }
+
+  private resetFrame(): void {
+    Object.assign(this.frame, { started: false, symbolStart: 0, symbolIndex: 0, trainingEnergy: 0 });
+    Object.assign(this.byteState, { bits: [], header: -1, remaining: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('OFDM demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const history = this.sync.history!;
+    const { fftSize } = this.config;
+    const { halfLength } = this.params;
+
+    history.put(sample);
+    this.debug.sampleIndex++;
+
+    // Running Schmidl-Cox sums over the window [n - N + 1, n]:
+    // correlation = sum r[d+m] r[d+m+L], energies of the first and second half
+    const length = history.length;
+    const at = (age: number) => (age < length ? history.get(length - 1 - age) : 0);
+    const middle = at(halfLength), oldest = at(fftSize);
+    this.sync.correlation += middle * sample - oldest * middle;
+    this.sync.firstEnergy += middle * middle - oldest * oldest;
+    this.sync.secondEnergy += sample * sample - middle * middle;
+
+    if (this.frame.started) {
+      this.processFrameSamples();
+    } else if (length >= fftSize) {
+      this.detectPreamble();
+    }
+  }
+
+  /**
+   * Track the plateau of M(d) = P(d) / R(d) and take its centre as symbol timing
+   *
+   * R(d) is the larger of both half energies, so a window only partially filled
+   * with signal (e.g. a burst end followed by silence) cannot produce a high metric.
+   */
+  private detectPreamble(): void {
+    const metricHistory = this.sync.metric!;
+    const { halfLength } = this.params;
+    const energy = Math.max(this.sync.firstEnergy, this.sync.secondEnergy);
+    // Ignore digital silence / very low level input
+    const metric = energy > halfLength * 1e-8 ? this.sync.correlation / energy : 0;
+    metricHistory.put(metric);
+
+    if (!this.sync.tracking) {
+      if (metric >= this.config.syncThreshold) {
+        Object.assign(this.sync, { tracking: true, peak: metric, peakAge: 0 });
+      }
+      return;
+    }
+
+    this.sync.peakAge++;
+    if (metric > this.sync.peak) {
+      this.sync.peak = metric;
+      this.sync.peakAge = 0;
+    }
+    if (metric >= this.sync.peak * 0.9) return;
+
+    // Plateau edges are where the metric crosses 90% of the peak
+    const limit = this.sync.peak * 0.9;
+    const latest = metricHistory.length - 1;
+    let left = latest - this.sync.peakAge;
+    while (left > 0 && metricHistory.get(left - 1) >= limit) left--;
+    const right = latest - 1;
+    this.sync.tracking = false;
+
+    // Window start of the preamble, counted back from the latest sample
+    const { fftSize } = this.config;
+    const centreAge = (latest - (left + right) / 2) + fftSize - 1;
+    const preambleStart = this.debug.sampleIndex - 1 - Math.round(centreAge);
+
+    this.resetFrame();
+    metricHistory.clear();
+    this.frame.started = true;
+    this.frame.symbolStart = preambleStart + this.params.symbolLength;
+    this.debug.syncDetections++;
+    this.processFrameSamples();
+  }
+
+  private processFrameSamples(): void {
+    const { fftSize, cyclicPrefixLength } = this.config;
+    // Fine timing searches up to one cyclic prefix beyond the training symbol
+    const lookahead = () => (this.frame.symbolIndex === 0 ? cyclicPrefixLength : 0);
+    while (this.frame.started && this.debug.sampleIndex >= this.frame.symbolStart + fftSize + lookahead()) {
+      const history = this.sync.history!;
+      if (this.frame.symbolIndex === 0) this.refineTiming();
+      const offset = history.length - (this.debug.sampleIndex - this.frame.symbolStart);
+      if (offset < 0) {
+        // Symbol already left the history buffer
+        this.resetFrame();
+        return;
+      }
+      for (let i = 0; i < fftSize; i++) {
+        this.dsp.re[i] = history.get(offset + i);
+        this.dsp.im[i] = 0;
+      }
+      this.dsp.fft!.forward(this.dsp.re, this.dsp.im);
+      this.frame.symbolStart += this.params.symbolLength;
+      this.processSymbol(this.dsp.re, this.dsp.im);
+    }
+  }
+
+  /**
+   * Move the training symbol window to the earliest path found by cross-correlation
+   * within one cyclic prefix of the coarse estimate, backed off into the prefix
+   */
+  private refineTiming(): void {
+    const history = this.sync.history!;
+    const { fftSize, cyclicPrefixLength } = this.config;
+    const waveform = this.params.trainingWaveform;
+    const base = history.length - (this.debug.sampleIndex - this.frame.symbolStart);
+
+    const correlation: number[] = [];
+    let peak = 0;
+    for (let lag = -cyclicPrefixLength; lag <= cyclicPrefixLength; lag++) {
+      let sum = 0;
+      if (base + lag >= 0) {
+        for (let i = 0; i < fftSize; i++) sum += history.get(base + lag + i) * waveform[i];
+      }
+      correlation.push(Math.abs(sum));
+      peak = Math.max(peak, Math.abs(sum));
+    }
+
+    const first = correlation.findIndex(value => value >= peak * 0.5);
+    const backoff = Math.floor(cyclicPrefixLength / 8);
+    this.frame.symbolStart += first - cyclicPrefixLength - backoff;
+  }
+
+  private processSymbol(re: Float64Array, im: Float64Array): void {
+    const { carriers, training, pilots, dataCarriers, bitsPerCarrier } = this.params;
+    const { channelRe, channelIm } = this.frame;
+    const firstSubcarrier = this.config.firstSubcarrier;
+    this.debug.symbolsProcessed++;
+
+    let energy = 0;
+    for (const bin of carriers) energy += re[bin] * re[bin] + im[bin] * im[bin];
+
+    if (this.frame.symbolIndex++ === 0) {
+      // Channel estimate H = Y / X
+      carriers.forEach((bin, i) => {
+        channelRe[i] = re[bin] * training[i];
+        channelIm[i] = im[bin] * training[i];
+      });
+      this.frame.trainingEnergy = energy;
+      return;
+    }
+
+    if (energy < this.frame.trainingEnergy * 0.1) {
+      // Carrier lost before the announced length
+      this.resetFrame();
+      this.emit('eod');
+      return;
+    }
+
+    // Pilot phase z = Y * conj(H * X), phase slope from neighbouring pilots
+    const pilotPhase = pilots.map(bin => {
+      const i = bin - firstSubcarrier;
+      const zr = (re[bin] * channelRe[i] + im[bin] * channelIm[i]) * training[i];
+      const zi = (im[bin] * channelRe[i] - re[bin] * channelIm[i]) * training[i];
+      return { bin, zr, zi };
+    });
+    let slopeRe = 0, slopeIm = 0;
+    for (let p = 1; p < pilotPhase.length; p++) {
+      const a = pilotPhase[p], b = pilotPhase[p - 1];
+      slopeRe += a.zr * b.zr + a.zi * b.zi;
+      slopeIm += a.zi * b.zr - a.zr * b.zi;
+    }
+    const spacing = pilotPhase.length > 1 ? pilotPhase[1].bin - pilotPhase[0].bin : 1;
+    const slope = pilotPhase.length > 1 ? Math.atan2(slopeIm, slopeRe) / spacing : 0;
+    let commonRe = 0, commonIm = 0;
+    for (const { bin, zr, zi } of pilotPhase) {
+      const angle = -slope * (bin - firstSubcarrier);
+      commonRe += zr * Math.cos(angle) - zi * Math.sin(angle);
+      commonIm += zr * Math.sin(angle) + zi * Math.cos(angle);
+    }
+    const common = Math.atan2(commonIm, commonRe);
+
+    for (const bin of dataCarriers) {
+      const i = bin - firstSubcarrier;
+      // D = Y * conj(H) * e^(-j phase); scaling is irrelevant for sign decisions
+      const angle = -(common + slope * i);
+      const dr = re[bin] * channelRe[i] + im[bin] * channelIm[i];
+      const di = im[bin] * channelRe[i] - re[bin] * channelIm[i];
+      const valueRe = dr * Math.cos(angle) - di * Math.sin(angle);
+      const valueIm = dr * Math.sin(angle) + di * Math.cos(angle);
+
+      this.processBit(valueRe < 0 ? 1 : 0);
+      if (bitsPerCarrier === 2 && this.frame.started) this.processBit(valueIm < 0 ? 1 : 0);
+      if (!this.frame.started) return;
+    }
+  }
+
+  private processBit(bit: number): void {
+    const state = this.byteState;
+    state.bits.push(bit);
+
+    if (state.header < 0) {
+      if (state.bits.length < HEADER_BITS) return;
+
+      const length = bitsToNumber(state.bits, 0, 16);
+      const check = bitsToNumber(state.bits, 16, 16);
+      state.bits = [];
+      if ((length ^ check) !== 0xFFFF) {
+        // Corrupted header or false sync
+        this.debug.headerErrors++;
+        this.resetFrame();
+        return;
+      }
+      state.header = length;
+      state.remaining = length;
+      if (length === 0) this.finishFrame();
+      return;
+    }
+
+    if (state.bits.length === 8) {
+      state.buffer.push(bitsToNumber(state.bits, 0, 8));
+      state.bits = [];
+      state.remaining--;
+      if (state.remaining === 0) this.finishFrame();
+    }
+  }
+
+  private finishFrame(): void {
+    // Padding bits in the last symbol are ignored
+    this.resetFrame();
+    this.emit('eod');
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('OFDM modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error(`Payload too large: ${data.length} bytes`);
+    }
+
+    return this.generateOFDMSignal(data);
+  }
+
+  private generateOFDMSignal(dataBytes: Uint8Array): Float32Array {
+    const { symbolLength, bitsPerSymbol, bitsPerCarrier, carriers, dataCarriers, training, preamble } = this.params;
+    const length = dataBytes.length;
+    const bits = bytesToBits([length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...dataBytes]);
+    const dataSymbols = Math.ceil(bits.length / bitsPerSymbol);
+
+    const paddingSamples = symbolLength;
+    const silenceSamples = symbolLength;
+    const output = new Float32Array(paddingSamples + (2 + dataSymbols) * symbolLength + silenceSamples);
+    let offset = paddingSamples;
+
+    const spectrum = new Map<number, [number, number]>();
+    carriers.forEach((bin, i) => spectrum.set(bin, [preamble[i], 0]));
+    offset = this.writeSymbol(output, offset, spectrum);
+    carriers.forEach((bin, i) => spectrum.set(bin, [training[i], 0]));
+    offset = this.writeSymbol(output, offset, spectrum);
+
+    // Pilots keep their training values, data subcarriers are overwritten per symbol
+    let bitIndex = 0;
+    const scale = bitsPerCarrier === 2 ? Math.SQRT1_2 : 1;
+    for (let s = 0; s < dataSymbols; s++) {
+      for (const bin of dataCarriers) {
+        const b0 = bits[bitIndex++] ?? 0;
+        const b1 = bitsPerCarrier === 2 ? (bits[bitIndex++] ?? 0) : 0;
+        spectrum.set(bin, [(1 - 2 * b0) * scale, bitsPerCarrier === 2 ? (1 - 2 * b1) * scale : 0]);
+      }
+      offset = this.writeSymbol(output, offset, spectrum);
+    }
+
+    return output;
+  }
+
+  /**
+   * Inverse FFT with Hermitian symmetry (real output), prepend cyclic prefix
+   */
+  private writeSymbol(output: Float32Array, offset: number, spectrum: Map<number, [number, number]>): number {
+    const { fftSize, cyclicPrefixLength } = this.config;
+    const { re, im } = this.dsp;
+    re.fill(0);
+    im.fill(0);
+    for (const [bin, [valueRe, valueIm]] of spectrum) {
+      re[bin] = valueRe;
+      im[bin] = valueIm;
+      re[fftSize - bin] = valueRe;
+      im[fftSize - bin] = -valueIm;
+    }
+    this.dsp.fft!.inverse(re, im);
+
+    const gain = this.params.outputGain;
+    for (let i = 0; i < cyclicPrefixLength; i++) {
+      output[offset + i] = clip(gain * re[fftSize - cyclicPrefixLength + i]);
+    }
+    for (let i = 0; i < fftSize; i++) {
+      output[offset + cyclicPrefixLength + i] = clip(gain * re[i]);
+    }
+    return offset + cyclicPrefixLength + fftSize;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { sampleIndex: 0, syncDetections: 0, headerErrors: 0, symbolsProcessed: 0, demodulationCalls: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      subcarrierModulation: this.config?.subcarrierModulation,
+      bitsPerSymbol: this.params.bitsPerSymbol,
+      frameStarted: this.frame.started,
+      byteBufferLength: this.byteState.buffer.length,
+      demodulationCalls: this.debug.demodulationCalls,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      symbolsProcessed: this.debug.symbolsProcessed,
+      totalSamplesProcessed: this.debug.sampleIndex
+    };
+  }
+}
+
+function clip(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function bytesToBits(bytes: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let n = 0; n < bytes.length; n++) {
+    for (let i = 7; i >= 0; i--) bits.push((bytes[n] >> i) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], offset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[offset + i];
+  return value;
+}
@@ -0,0 +1,378 @@
+import { AGCProcessor, FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+
+export interface OOKConfig extends BaseModulatorConfig {
+  carrierFrequency: number;
+  modulationDepth: number;   // 1 = on-off keying, below 1 = ASK with (1 - depth) carrier for 0
+  manchester: boolean;       // Manchester line code: 1 = on/off, 0 = off/on half bits
+  preambleBits: number;      // Alternating chips (bits × chips per bit) before the sync word
+  maxSyncErrors: number;     // Chip errors tolerated in the 32-chip sync pattern
+  squelchLevel: number;      // Minimum envelope of an 'on' chip
+  agcEnabled: boolean;       // Normalise the envelope; suits ASK, pumps up noise in OOK off chips
+}
+
+export const DEFAULT_OOK_CONFIG: OOKConfig = {
+  sampleRate: 48000,
+  baudRate: 300,
+  carrierFrequency: 4000,
+  modulationDepth: 1,
+  manchester: false,
+  preambleBits: 32,
+  maxSyncErrors: 2,
+  squelchLevel: 0.01,
+  agcEnabled: false
+};
+
+const SYNC_WORD = 0x2DD4;
+
+// Sync pattern length in chips (end of the preamble + line coded sync word)
+const SYNC_CHIPS = 32;
+
+// Frame header: 16-bit length + its complement
+const HEADER_BITS = 32;
+
+// Alternating bits after the frame flush the envelope filter
+const TAIL_BITS = 4;
+
+// Receive bandpass width and envelope lowpass cutoff, relative to the chip rate
+const BANDPASS_WIDTH = 2;
+const ENVELOPE_CUTOFF = 0.75;
+const ENVELOPE_STAGES = 2;
+
+// Fraction of the timing error corrected at each transition
+const PLL_GAIN = 0.25;
+
+// Slicer: on/off level tracking per chip, and decay of both levels towards each
+// other between frames so that a weaker or shallower transmitter can take over
+const LEVEL_GAIN = 0.25;
+const IDLE_DECAY = 0.1;
+
+// Manchester frame is dropped after this many consecutive code violations
+const CARRIER_LOSS_BITS = 8;
+
+function bytesToBits(data: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let b = 7; b >= 0; b--) bits.push((data[i] >> b) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[start + i];
+  return value;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v !== 0; v &= v - 1) count++;
+  return count;
+}
+
+/**
+ * OOK / ASK Core implementation
+ *
+ * A single tone is keyed on and off (or between two levels with modulationDepth < 1),
+ * which is all a piezo buzzer on a microcontroller pin can do; carriers up to the
+ * Nyquist frequency allow near-ultrasonic links.
+ *
+ * The receiver bandpass filters the tone and detects the envelope (rectifier +
+ * lowpass), optionally normalised by the AGC. Chips are sliced half way between
+ * the tracked on and off levels, and a DPLL on the chip transitions recovers the clock.
+ * With Manchester coding every bit carries a transition and the two half bits are
+ * compared with each other, so long runs of equal bits and level changes are harmless.
+ * Frame: alternating preamble, 16-bit sync word, 32-bit length header, payload.
+ */
+export class OOKCore extends BaseModulator<OOKConfig> {
+  readonly name = 'OOK';
+  readonly type: ModulationType = 'ASK';
+
+  // DSP components
+  private readonly dsp = {
+    agc: undefined as AGCProcessor | undefined,
+    bandpass: undefined as IIRFilter | undefined,
+    envelope: [] as IIRFilter[]
+  };
+
+  // Processing parameters
+  private readonly params = {
+    chipsPerBit: 1, samplesPerChip: 0, syncPattern: 0
+  };
+
+  // Adaptive slicer: tracked envelope of on and off chips
+  private readonly slicer = { high: 0, low: 0 };
+
+  // Clock recovery (DPLL): decisions at phase wrap, transitions half way between
+  private readonly chipSync = { phase: 0, lastChip: 0 };
+
+  // Frame state
+  private readonly frame = {
+    started: false, shift: 0, pending: [] as number[], violations: 0,
+    bits: [] as number[], expectedBits: 0
+  };
+
+  // Byte assembly state
+  private readonly byteState = { buffer: [] as number[] };
+
+  // Debug counters
+  private readonly debug = {
+    syncDetections: 0, headerErrors: 0, manchesterErrors: 0, carrierLosses: 0,
+    demodulationCalls: 0, totalSamples: 0
+  };
+
+  configure(config: OOKConfig): void {
+    const merged = { ...DEFAULT_OOK_CONFIG, ...config } as OOKConfig;
+    const chipRate = merged.baudRate * (merged.manchester ? 2 : 1);
+    if (merged.carrierFrequency < 2 * chipRate || merged.carrierFrequency + chipRate >= merged.sampleRate / 2) {
+      throw new Error('OOK carrier must be at least twice the chip rate and below the Nyquist frequency');
+    }
+    if (merged.modulationDepth <= 0 || merged.modulationDepth > 1) {
+      throw new Error(`OOK modulation depth must be in (0, 1]: ${merged.modulationDepth}`);
+    }
+    if (merged.preambleBits * (merged.manchester ? 2 : 1) < 16) {
+      throw new Error('OOK preamble must have at least 16 chips');
+    }
+    this.config = merged;
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, manchester } = this.config;
+    const chipsPerBit = manchester ? 2 : 1;
+    this.params.chipsPerBit = chipsPerBit;
+    this.params.samplesPerChip = sampleRate / (baudRate * chipsPerBit);
+
+    const chips = [...this.preambleChips(), ...this.lineCode(bytesToBits([SYNC_WORD >> 8, SYNC_WORD & 0xFF]))];
+    this.params.syncPattern = bitsToNumber(chips, chips.length - SYNC_CHIPS, SYNC_CHIPS) >>> 0;
+  }
+
+  private initializeDSP(): void {
+    const { sampleRate, carrierFrequency, agcEnabled } = this.config;
+    const chipRate = sampleRate / this.params.samplesPerChip;
+    this.dsp.agc = agcEnabled ? new AGCProcessor(sampleRate) : undefined;
+    this.dsp.bandpass = FilterFactory.createIIRBandpass(carrierFrequency, BANDPASS_WIDTH * chipRate, sampleRate);
+    this.dsp.envelope = Array.from({ length: ENVELOPE_STAGES }, () =>
+      FilterFactory.createIIRLowpass(ENVELOPE_CUTOFF * chipRate, sampleRate));
+  }
+
+  private resetState(): void {
+    this.dsp.agc?.reset();
+    this.dsp.bandpass?.reset();
+    this.dsp.envelope.forEach(filter => filter.reset());
+    Object.assign(this.slicer, { high: 0, low: 0 });
+    Object.assign(this.chipSync, { phase: 0, lastChip: 0 });
+    this.endFrame();
+  }
+
+  private endFrame(): void {
+    Object.assign(this.frame, { started: false, shift: 0, pending: [], violations: 0, bits: [], expectedBits: 0 });
+  }
+
+  /**
+   * Manchester: 1 = on/off, 0 = off/on (G.E. Thomas convention)
+   */
+  private lineCode(bits: number[]): number[] {
+    return this.config.manchester ? bits.flatMap(bit => [bit, bit ^ 1]) : bits;
+  }
+
+  private preambleChips(): number[] {
+    const length = this.config.preambleBits * this.params.chipsPerBit;
+    return Array.from({ length }, (_, i) => (length - i) & 1);
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('OOK demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        this.processSample(samples[i]);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const dsp = this.dsp;
+    // Full wave rectifier + lowpass; the mean of |sin| is 2/π of the amplitude
+    let envelope = Math.abs(dsp.bandpass!.process(sample)) * Math.PI / 2;
+    for (const filter of dsp.envelope) envelope = filter.process(envelope);
+    if (dsp.agc) envelope = dsp.agc.processSample(envelope);
+
+    const slicer = this.slicer;
+    const chip = envelope > (slicer.high + slicer.low) / 2 && envelope > this.config.squelchLevel ? 1 : 0;
+
+    const sync = this.chipSync;
+    sync.phase += 1 / this.params.samplesPerChip;
+    if (chip !== sync.lastChip) {
+      sync.phase += (0.5 - sync.phase) * PLL_GAIN;
+      sync.lastChip = chip;
+    }
+    if (sync.phase >= 1) {
+      sync.phase -= 1;
+      this.processChip(envelope);
+    }
+  }
+
+  private processChip(level: number): void {
+    const slicer = this.slicer;
+    const chip = level > (slicer.high + slicer.low) / 2 && level > this.config.squelchLevel ? 1 : 0;
+
+    // Decision directed level tracking, with immediate attack to stronger or weaker extremes
+    if (chip) slicer.high += (level - slicer.high) * LEVEL_GAIN;
+    else slicer.low += (level - slicer.low) * LEVEL_GAIN;
+    slicer.high = Math.max(slicer.high, level);
+    slicer.low = Math.min(slicer.low, level);
+
+    const frame = this.frame;
+    if (!frame.started) {
+      const spread = slicer.high - slicer.low;
+      slicer.high -= spread * IDLE_DECAY;
+      slicer.low += spread * IDLE_DECAY;
+
+      frame.shift = ((frame.shift << 1) | chip) >>> 0;
+      if (popcount(frame.shift ^ this.params.syncPattern) <= this.config.maxSyncErrors) {
+        this.debug.syncDetections++;
+        Object.assign(frame, { started: true, pending: [], violations: 0, bits: [], expectedBits: 0 });
+      }
+      return;
+    }
+
+    if (!this.config.manchester) {
+      frame.bits.push(chip);
+      this.processBits();
+      return;
+    }
+
+    // Manchester: the half bits are compared with each other, no threshold involved
+    frame.pending.push(level);
+    if (frame.pending.length < 2) return;
+    const [first, second] = frame.pending;
+    frame.pending = [];
+
+    const threshold = (slicer.high + slicer.low) / 2;
+    if ((first > threshold) === (second > threshold)) {
+      this.debug.manchesterErrors++;
+      if (++frame.violations >= CARRIER_LOSS_BITS) {
+        this.debug.carrierLosses++;
+        this.endFrame();
+        return;
+      }
+    } else {
+      frame.violations = 0;
+    }
+
+    frame.bits.push(first > second ? 1 : 0);
+    this.processBits();
+  }
+
+  private processBits(): void {
+    const frame = this.frame;
+
+    if (frame.expectedBits === 0 && frame.bits.length >= HEADER_BITS) {
+      const length = bitsToNumber(frame.bits, 0, 16);
+      const check = bitsToNumber(frame.bits, 16, 16);
+      if ((length ^ check) !== 0xFFFF) {
+        this.debug.headerErrors++;
+        this.endFrame();
+        return;
+      }
+      frame.expectedBits = HEADER_BITS + length * 8;
+    }
+
+    if (frame.expectedBits > 0 && frame.bits.length >= frame.expectedBits) {
+      for (let i = HEADER_BITS; i < frame.expectedBits; i += 8) {
+        this.byteState.buffer.push(bitsToNumber(frame.bits, i, 8));
+      }
+      this.endFrame();
+      this.emit('eod');
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('OOK modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error('OOK frame too long');
+    }
+
+    const length = data.length;
+    const chips = [
+      ...this.preambleChips(),
+      ...this.lineCode(bytesToBits([SYNC_WORD >> 8, SYNC_WORD & 0xFF, length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF, ...data])),
+      ...this.lineCode(Array.from({ length: TAIL_BITS }, (_, i) => i & 1))
+    ];
+
+    return this.generateSignal(chips);
+  }
+
+  /**
+   * Phase continuous carrier, full amplitude for on chips and (1 - depth) for off chips
+   */
+  private generateSignal(chips: number[]): Float32Array {
+    const { sampleRate, carrierFrequency, modulationDepth } = this.config;
+    const { samplesPerChip } = this.params;
+    const output = new Float32Array(Math.round(chips.length * samplesPerChip));
+    const omega = 2 * Math.PI * carrierFrequency / sampleRate;
+
+    let sampleIndex = 0;
+    for (let c = 0; c < chips.length; c++) {
+      const end = Math.round((c + 1) * samplesPerChip);
+      const amplitude = chips[c] ? 1 : 1 - modulationDepth;
+      for (; sampleIndex < end; sampleIndex++) {
+        output[sampleIndex] = amplitude * Math.sin(omega * sampleIndex);
+      }
+    }
+
+    return output;
+  }
+
+  reset(): void {
+    this.resetState();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, {
+      syncDetections: 0, headerErrors: 0, manchesterErrors: 0, carrierLosses: 0,
+      demodulationCalls: 0, totalSamples: 0
+    });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      frameStarted: this.frame.started,
+      receivedBits: this.frame.bits.length,
+      byteBufferLength: this.byteState.buffer.length,
+      onLevel: this.slicer.high,
+      offLevel: this.slicer.low,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      manchesterErrors: this.debug.manchesterErrors,
+      carrierLosses: this.debug.carrierLosses,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,415 @@
+import { AGCProcessor, FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { RingBuffer } from '@/utils';
+
+export type PSKMode = 'BPSK' | 'DBPSK';
+
+export interface PSKConfig extends BaseModulatorConfig {
+  carrierFrequency: number;
+  mode: PSKMode;
+  preamblePattern: number[];
+  sfdPattern: number[];
+  startBits: number;
+  stopBits: number;
+  syncThreshold: number;
+  agcEnabled: boolean;
+  preFilterBandwidth: number;
+  loopBandwidth: number;  // Costas loop noise bandwidth (Hz), BPSK only
+}
+
+export const DEFAULT_PSK_CONFIG: PSKConfig = {
+  sampleRate: 48000,
+  baudRate: 1200,
+  carrierFrequency: 1800,
+  mode: 'DBPSK',
+  preamblePattern: [0x55, 0x55],
+  sfdPattern: [0x7E],
+  startBits: 1,
+  stopBits: 1,
+  syncThreshold: 0.85,
+  agcEnabled: true,
+  preFilterBandwidth: 2400,
+  loopBandwidth: 100
+};
+
+/**
+ * PSK Core implementation (coherent BPSK / differential DBPSK)
+ *
+ * Bytes are framed exactly like FSKCore (preamble + SFD, UART start/stop bits)
+ * so that the stream-oriented demodulateData() contract is identical.
+ *
+ * - BPSK: Costas loop carrier recovery, 180° ambiguity resolved by SFD polarity
+ * - DBPSK: bit 1 = no phase change, bit 0 = phase reversal (no carrier recovery needed)
+ */
+export class PSKCore extends BaseModulator<PSKConfig> {
+  readonly name = 'PSK';
+  readonly type: ModulationType = 'PSK';
+
+  // DSP components
+  private readonly dsp = {
+    agc: undefined as AGCProcessor | undefined,
+    preFilter: undefined as IIRFilter | undefined,
+    loopFilters: undefined as { i: IIRFilter; q: IIRFilter } | undefined
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerBit: 0, bitsPerByte: 0, omega: 0,
+    loopAlpha: 0, loopBeta: 0, powerSmoothing: 0
+  };
+
+  // Carrier recovery (NCO + Costas loop) state
+  private readonly carrier = { phase: 0, frequencyError: 0, power: 0 };
+
+  // Matched filter (integrate over one symbol) state
+  private readonly matched = {
+    iHistory: undefined as RingBuffer<Float64Array> | undefined,
+    qHistory: undefined as RingBuffer<Float64Array> | undefined,
+    delayLine: undefined as RingBuffer<Float32Array> | undefined,
+    iSum: 0, qSum: 0
+  };
+
+  // Frame detection state
+  private readonly frame = {
+    preambleSfdBits: [] as number[], started: false, inverted: false,
+    softBuffer: undefined as RingBuffer<Float32Array> | undefined,
+    candidateScore: 0, candidateAge: 0, candidateAmplitude: 0,
+    bitSampleCounter: 0, silenceThreshold: 0
+  };
+
+  // Byte assembly state
+  private readonly byteState = { current: 0, bitPosition: 0, buffer: [] as number[] };
+
+  // Debug counters
+  private readonly debug = { syncDetections: 0, demodulationCalls: 0, totalSamples: 0 };
+
+  configure(config: PSKConfig): void {
+    this.config = { ...DEFAULT_PSK_CONFIG, ...config } as PSKConfig;
+
+    this.calculateParameters();
+    this.initializeDSP();
+
+    // Initialize frame detection
+    this.frame.preambleSfdBits = [];
+    [...this.config.preamblePattern, ...this.config.sfdPattern].forEach(byte => this.frame.preambleSfdBits.push(...this.frameByte(byte)));
+
+    const { samplesPerBit } = this.params;
+    this.matched.iHistory = new RingBuffer(Float64Array, samplesPerBit);
+    this.matched.qHistory = new RingBuffer(Float64Array, samplesPerBit);
+    // One symbol of matched filter output (I/Q pairs) for differential detection
+    this.matched.delayLine = new RingBuffer(Float32Array, samplesPerBit * 2);
+    this.frame.softBuffer = new RingBuffer(Float32Array, this.frame.preambleSfdBits.length * samplesPerBit);
+
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  /**
+   * Build UART framed bits for one byte: start bits, data bits (MSB first), stop bits
+   */
+  private frameByte(byte: number): number[] {
+    const bits: number[] = [];
+    for (let i = 0; i < this.config.startBits; i++) bits.push(0);
+    for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+    for (let i = 0; i < this.config.stopBits; i++) bits.push(1);
+    return bits;
+  }
+
+  private resetState(): void {
+    Object.assign(this.carrier, { phase: 0, frequencyError: 0, power: 0 });
+    Object.assign(this.matched, { iSum: 0, qSum: 0 });
+    this.matched.iHistory?.clear();
+    this.matched.qHistory?.clear();
+    this.matched.delayLine?.clear();
+    this.resetFrame();
+
+    this.dsp.agc?.reset();
+    this.dsp.preFilter?.reset();
+    this.dsp.loopFilters?.i.reset();
+    this.dsp.loopFilters?.q.reset();
+  }
+
+  private resetFrame(): void {
+    Object.assign(this.frame, {
+      started: false, inverted: false, candidateScore: 0, candidateAge: 0,
+      candidateAmplitude: 0, bitSampleCounter: 0
+    });
+    Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('PSK demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      // Stream processing: process each sample individually
+      for (let i = 0; i < samples.length; i++) {
+        let sample = samples[i];
+        if (this.dsp.agc) sample = this.dsp.agc.processSample(sample);
+        if (this.dsp.preFilter) sample = this.dsp.preFilter.process(sample);
+        this.processSample(sample);
+      }
+
+      // Return accumulated bytes
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const { iHistory, qHistory } = this.matched;
+    const softBuffer = this.frame.softBuffer;
+    if (!iHistory || !qHistory || !softBuffer) return;
+
+    // Mix down to complex baseband with the NCO
+    const i = sample * Math.cos(this.carrier.phase);
+    const q = -sample * Math.sin(this.carrier.phase);
+
+    if (this.config.mode === 'BPSK') {
+      this.updateCostasLoop(i, q);
+    }
+    this.carrier.phase = (this.carrier.phase + this.params.omega + this.carrier.frequencyError) % (2 * Math.PI);
+
+    // Integrate-and-dump matched filter (sliding window of one symbol)
+    if (iHistory.length === iHistory.capacity) {
+      this.matched.iSum -= iHistory.get(0);
+      this.matched.qSum -= qHistory.get(0);
+    }
+    iHistory.put(i);
+    qHistory.put(q);
+    this.matched.iSum += i;
+    this.matched.qSum += q;
+
+    const zI = this.matched.iSum;
+    const zQ = this.matched.qSum;
+    const amplitude = Math.sqrt(zI * zI + zQ * zQ);
+
+    // Soft decision in [-1, 1]: positive means bit 1
+    let soft: number;
+    if (this.config.mode === 'DBPSK') {
+      // Differential detection against the matched filter output one symbol earlier
+      const delayLine = this.matched.delayLine!;
+      if (delayLine.length === delayLine.capacity) {
+        const prevI = delayLine.get(0);
+        const prevQ = delayLine.get(1);
+        const prevAmplitude = Math.sqrt(prevI * prevI + prevQ * prevQ);
+        soft = (zI * prevI + zQ * prevQ) / (amplitude * prevAmplitude + 1e-12);
+      } else {
+        soft = 0;
+      }
+      delayLine.put(zI, zQ);
+    } else {
+      soft = zI / (amplitude + 1e-12);
+    }
+    softBuffer.put(soft);
+
+    if (!this.frame.started) {
+      this.detectFrameStart(amplitude);
+    } else {
+      this.frame.bitSampleCounter++;
+      if (this.frame.bitSampleCounter >= this.params.samplesPerBit) {
+        this.frame.bitSampleCounter = 0;
+
+        // Carrier lost at decision instant: end of data
+        if (amplitude < this.frame.silenceThreshold) {
+          this.resetFrame();
+          this.emit('eod');
+          return;
+        }
+
+        const bit = (soft > 0) !== this.frame.inverted ? 1 : 0;
+        this.processByte(bit);
+      }
+    }
+  }
+
+  /**
+   * Costas loop for BPSK: error = I*Q (invariant to 180° data modulation)
+   */
+  private updateCostasLoop(i: number, q: number): void {
+    if (!this.dsp.loopFilters) return;
+    const li = this.dsp.loopFilters.i.process(i);
+    const lq = this.dsp.loopFilters.q.process(q);
+
+    this.carrier.power += (li * li + lq * lq - this.carrier.power) * this.params.powerSmoothing;
+    const error = (li * lq) / (this.carrier.power + 1e-12);
+
+    this.carrier.frequencyError += this.params.loopBeta * error;
+    this.carrier.phase += this.params.loopAlpha * error;
+  }
+
+  /**
+   * Correlate symbol-spaced soft values with preamble+SFD and lock on the correlation peak
+   */
+  private detectFrameStart(amplitude: number): void {
+    const softBuffer = this.frame.softBuffer!;
+    const pattern = this.frame.preambleSfdBits;
+    const { samplesPerBit } = this.params;
+    if (softBuffer.length < pattern.length * samplesPerBit) return;
+
+    let score = 0;
+    for (let j = 0; j < pattern.length; j++) {
+      const soft = softBuffer.get(softBuffer.length - 1 - (pattern.length - 1 - j) * samplesPerBit);
+      score += pattern[j] ? soft : -soft;
+    }
+    score /= pattern.length;
+
+    // DBPSK has no phase ambiguity, only positive correlation is valid
+    const magnitude = this.config.mode === 'DBPSK' ? score : Math.abs(score);
+
+    if (magnitude > this.config.syncThreshold && magnitude > Math.abs(this.frame.candidateScore)) {
+      this.frame.candidateScore = score;
+      this.frame.candidateAge = 0;
+      this.frame.candidateAmplitude = amplitude;
+      return;
+    }
+
+    if (this.frame.candidateScore !== 0) {
+      this.frame.candidateAge++;
+      // Peak confirmed after a quarter symbol without a better score
+      if (this.frame.candidateAge >= Math.max(1, Math.floor(samplesPerBit / 4))) {
+        this.frame.started = true;
+        this.frame.inverted = this.frame.candidateScore < 0;
+        this.frame.bitSampleCounter = this.frame.candidateAge;
+        this.frame.silenceThreshold = this.frame.candidateAmplitude * 0.25;
+        Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+        this.debug.syncDetections++;
+      }
+    }
+  }
+
+  private processByte(bit: number): void {
+    const { bitPosition } = this.byteState;
+    const { startBits, stopBits } = this.config;
+
+    if (bitPosition < startBits) {
+      // Start bit validation
+      if (bit !== 0) {
+        this.resetFrame();
+        return;
+      }
+    } else if (bitPosition < startBits + 8) {
+      // Data bits (MSB first)
+      this.byteState.current |= (bit << (startBits + 7 - bitPosition));
+    } else if (bitPosition < startBits + 8 + stopBits) {
+      // Stop bit validation
+      if (bit !== 1) {
+        this.resetFrame();
+        return;
+      }
+    }
+
+    this.byteState.bitPosition++;
+    if (this.byteState.bitPosition >= this.params.bitsPerByte) {
+      this.byteState.buffer.push(this.byteState.current);
+      Object.assign(this.byteState, { current: 0, bitPosition: 0 });
+    }
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('PSK modulator not configured');
+    }
+
+    return this.generatePSKSignal(data);
+  }
+
+  private generatePSKSignal(dataBytes: Uint8Array): Float32Array {
+    const { samplesPerBit, bitsPerByte, omega } = this.params;
+    const bits: number[] = [];
+    [...this.config.preamblePattern, ...this.config.sfdPattern, ...dataBytes].forEach(byte => bits.push(...this.frameByte(byte)));
+
+    // DBPSK needs one reference symbol before the first bit
+    const symbolPhases: number[] = [];
+    if (this.config.mode === 'DBPSK') {
+      let phase = 0;
+      symbolPhases.push(phase);
+      for (const bit of bits) {
+        if (bit === 0) phase = Math.PI - phase;
+        symbolPhases.push(phase);
+      }
+    } else {
+      for (const bit of bits) symbolPhases.push(bit ? 0 : Math.PI);
+    }
+
+    const paddingSamples = samplesPerBit * 2;
+    const silenceSamples = bitsPerByte * samplesPerBit;
+    const output = new Float32Array(paddingSamples + symbolPhases.length * samplesPerBit + silenceSamples);
+
+    let sampleIndex = paddingSamples;
+    for (const symbolPhase of symbolPhases) {
+      for (let i = 0; i < samplesPerBit; i++) {
+        // Carrier phase runs continuously, data only rotates it
+        output[sampleIndex] = Math.cos(omega * sampleIndex + symbolPhase);
+        sampleIndex++;
+      }
+    }
+
+    return output;
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, carrierFrequency, loopBandwidth } = this.config;
+
+    // Second order loop filter gains (damping 0.707) from normalized noise bandwidth
+    const damping = Math.SQRT1_2;
+    const theta = (loopBandwidth / sampleRate) / (damping + 1 / (4 * damping));
+    const denom = 1 + 2 * damping * theta + theta * theta;
+
+    Object.assign(this.params, {
+      samplesPerBit: Math.floor(sampleRate / baudRate),
+      bitsPerByte: this.config.startBits + 8 + this.config.stopBits,
+      omega: 2 * Math.PI * carrierFrequency / sampleRate,
+      loopAlpha: (4 * damping * theta) / denom,
+      loopBeta: (4 * theta * theta) / denom,
+      powerSmoothing: 1 - Math.exp(-baudRate / sampleRate)
+    });
+  }
+
+  private initializeDSP(): void {
+    this.dsp.agc = this.config.agcEnabled ? new AGCProcessor(this.config.sampleRate) : undefined;
+
+    const bandwidth = Math.max(this.config.preFilterBandwidth, 2 * this.config.baudRate);
+    this.dsp.preFilter = FilterFactory.createIIRBandpass(this.config.carrierFrequency, bandwidth, this.config.sampleRate);
+    this.dsp.loopFilters = {
+      i: FilterFactory.createIIRLowpass(this.config.baudRate, this.config.sampleRate),
+      q: FilterFactory.createIIRLowpass(this.config.baudRate, this.config.sampleRate)
+    };
+  }
+
+  reset(): void {
+    this.resetState();
+    this.frame.softBuffer?.clear();
+    this.byteState.buffer = [];
+    Object.assign(this.debug, { syncDetections: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      mode: this.config?.mode,
+      frameStarted: this.frame.started,
+      inverted: this.frame.inverted,
+      carrierFrequencyError: this.config ? this.carrier.frequencyError * this.config.sampleRate / (2 * Math.PI) : 0,
+      byteBufferLength: this.byteState.buffer.length,
+      demodulationCalls: this.debug.demodulationCalls,
+      syncDetections: this.debug.syncDetections,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
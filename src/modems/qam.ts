@@ -0,0 +1,637 @@
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type BaseModulatorConfig, type ModulationType, type SignalQuality } from '../core';
+import { RingBuffer } from '@/utils';
+
+export interface QAMConfig extends BaseModulatorConfig {
+  order: 16 | 64;           // Square constellation size, baudRate is the symbol rate
+  carrierFrequency: number;
+  trainingLength: number;   // Known training symbols used for sync, gain/phase and equalizer training
+  equalizerTaps: number;    // Symbol-spaced complex LMS equalizer length (odd)
+  equalizerStepSize: number;
+  trainingPasses: number;   // LMS passes over the training sequence before decision-directed mode
+  syncThreshold: number;
+  preFilterBandwidth: number; // 0 disables the bandpass prefilter
+  loopBandwidth: number;    // Decision-directed carrier loop noise bandwidth (Hz)
+}
+
+export const DEFAULT_QAM_CONFIG: QAMConfig = {
+  sampleRate: 48000,
+  baudRate: 2400,
+  order: 16,
+  carrierFrequency: 4800,
+  trainingLength: 32,
+  equalizerTaps: 7,
+  equalizerStepSize: 0.05,
+  trainingPasses: 4,
+  syncThreshold: 0.8,
+  // IIR bandpass phase distortion limits 64-QAM EVM; the matched filter already rejects out-of-band noise
+  preFilterBandwidth: 0,
+  loopBandwidth: 20
+};
+
+// Frame header: payload length (16 bit) followed by its complement, sent as QPSK corner symbols
+const HEADER_BITS = 32;
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+/**
+ * QAM Core implementation (square 16-QAM / 64-QAM)
+ *
+ * Frame: training sequence | length | ~length (QPSK corners) | payload (QAM) | padding
+ *
+ * - Frame sync by differential correlation with the training sequence
+ * - Gain/phase estimated by least squares over the training symbols
+ * - Symbol-spaced complex LMS equalizer, trained on the preamble then decision-directed
+ * - Decision-directed carrier loop for residual phase/frequency error
+ * - getSignalQuality() reports SNR derived from the equalizer output EVM
+ */
+export class QAMCore extends BaseModulator<QAMConfig> {
+  readonly name = 'QAM';
+  readonly type: ModulationType = 'QAM';
+
+  // DSP components
+  private readonly dsp = {
+    preFilter: undefined as IIRFilter | undefined
+  };
+
+  // Processing parameters
+  private readonly params = {
+    samplesPerSymbol: 0, bitsPerSymbol: 0, levels: 0, scale: 0, cornerLevel: 0,
+    outputGain: 0, omega: 0, loopAlpha: 0, loopBeta: 0
+  };
+
+  // Local oscillator phase
+  private readonly nco = { phase: 0 };
+
+  // Matched filter (integrate over one symbol) state, output kept as I/Q pairs
+  private readonly matched = {
+    iHistory: undefined as RingBuffer<Float64Array> | undefined,
+    qHistory: undefined as RingBuffer<Float64Array> | undefined,
+    output: undefined as RingBuffer<Float64Array> | undefined,
+    iSum: 0, qSum: 0
+  };
+
+  // Frame detection state
+  private readonly frame = {
+    training: [] as Complex[], started: false,
+    candidateScore: 0, candidateAge: 0, candidateAmplitude: 0, candidateFrequency: 0,
+    symbolSampleCounter: 0, silenceThreshold: 0
+  };
+
+  // Equalizer and carrier tracking state
+  private readonly equalizer = {
+    taps: [] as Complex[], window: [] as Complex[], symbolIndex: 0,
+    phase: 0, frequency: 0, stepSize: 0
+  };
+
+  // Bit/byte assembly state
+  private readonly byteState = {
+    bits: [] as number[], header: -1, remaining: 0, buffer: [] as number[]
+  };
+
+  // Signal quality (exponential averages over decided symbols)
+  private readonly quality = { errorPower: 0, referencePower: 0, phaseErrorPower: 0, symbols: 0 };
+
+  // Debug counters
+  private readonly debug = { syncDetections: 0, headerErrors: 0, demodulationCalls: 0, totalSamples: 0 };
+
+  /**
+   * Number of bits carried by one payload symbol
+   */
+  get bitsPerSymbol(): number {
+    return this.params.bitsPerSymbol;
+  }
+
+  configure(config: QAMConfig): void {
+    this.config = { ...DEFAULT_QAM_CONFIG, ...config } as QAMConfig;
+    if (this.config.order !== 16 && this.config.order !== 64) {
+      throw new Error(`Unsupported QAM order: ${this.config.order}`);
+    }
+    if (this.config.equalizerTaps < 1 || this.config.equalizerTaps % 2 === 0) {
+      throw new Error('Equalizer tap count must be a positive odd number');
+    }
+    if (this.config.trainingLength < this.config.equalizerTaps + 2) {
+      throw new Error('Training sequence must be longer than the equalizer');
+    }
+
+    this.calculateParameters();
+    this.initializeDSP();
+    this.frame.training = this.generateTrainingSequence(this.config.trainingLength);
+
+    const { samplesPerSymbol } = this.params;
+    this.matched.iHistory = new RingBuffer(Float64Array, samplesPerSymbol);
+    this.matched.qHistory = new RingBuffer(Float64Array, samplesPerSymbol);
+    this.matched.output = new RingBuffer(Float64Array, (this.config.trainingLength + 3) * samplesPerSymbol * 2);
+
+    this.resetState();
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  /**
+   * PRBS7 (x^7 + x^6 + 1) driven QPSK corner symbols
+   */
+  private generateTrainingSequence(length: number): Complex[] {
+    let lfsr = 0x5A;
+    const nextBit = () => {
+      const bit = ((lfsr >> 6) ^ (lfsr >> 5)) & 1;
+      lfsr = ((lfsr << 1) | bit) & 0x7F;
+      return bit;
+    };
+    const symbols: Complex[] = [];
+    for (let i = 0; i < length; i++) symbols.push(this.cornerSymbol(nextBit(), nextBit()));
+    return symbols;
+  }
+
+  private cornerSymbol(b0: number, b1: number): Complex {
+    const level = this.params.cornerLevel;
+    return { re: b0 ? -level : level, im: b1 ? -level : level };
+  }
+
+  private resetState(): void {
+    this.nco.phase = 0;
+    Object.assign(this.matched, { iSum: 0, qSum: 0 });
+    this.matched.iHistory?.clear();
+    this.matched.qHistory?.clear();
+    this.resetFrame();
+    this.dsp.preFilter?.reset();
+  }
+
+  private resetFrame(): void {
+    Object.assign(this.frame, {
+      started: false, candidateScore: 0, candidateAge: 0, candidateAmplitude: 0,
+      candidateFrequency: 0, symbolSampleCounter: 0
+    });
+    Object.assign(this.byteState, { bits: [], header: -1, remaining: 0 });
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('QAM demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    try {
+      for (let i = 0; i < samples.length; i++) {
+        const sample = this.dsp.preFilter ? this.dsp.preFilter.process(samples[i]) : samples[i];
+        this.processSample(sample);
+      }
+
+      if (this.byteState.buffer.length > 0) {
+        const result = new Uint8Array(this.byteState.buffer);
+        this.byteState.buffer = [];
+        return result;
+      }
+
+      return new Uint8Array(0);
+
+    } catch (error) {
+      this.emit('error', { data: error });
+      return new Uint8Array(0);
+    }
+  }
+
+  private processSample(sample: number): void {
+    const { iHistory, qHistory, output } = this.matched;
+    if (!iHistory || !qHistory || !output) return;
+
+    // Mix down to complex baseband
+    const i = sample * Math.cos(this.nco.phase);
+    const q = -sample * Math.sin(this.nco.phase);
+    this.nco.phase = (this.nco.phase + this.params.omega) % (2 * Math.PI);
+
+    // Sliding integrate-and-dump matched filter
+    if (iHistory.length === iHistory.capacity) {
+      this.matched.iSum -= iHistory.get(0);
+      this.matched.qSum -= qHistory.get(0);
+    }
+    iHistory.put(i);
+    qHistory.put(q);
+    this.matched.iSum += i;
+    this.matched.qSum += q;
+    output.put(this.matched.iSum, this.matched.qSum);
+
+    const amplitude = Math.sqrt(this.matched.iSum * this.matched.iSum + this.matched.qSum * this.matched.qSum);
+
+    if (!this.frame.started) {
+      this.detectFrameStart(amplitude);
+      return;
+    }
+
+    this.frame.symbolSampleCounter++;
+    if (this.frame.symbolSampleCounter >= this.params.samplesPerSymbol) {
+      this.frame.symbolSampleCounter = 0;
+
+      if (amplitude < this.frame.silenceThreshold) {
+        this.flushEqualizer();
+        if (this.frame.started) {
+          this.resetFrame();
+          this.emit('eod');
+        }
+        return;
+      }
+
+      this.processSymbol({ re: this.matched.iSum, im: this.matched.qSum });
+    }
+  }
+
+  /**
+   * Matched filter output of the symbol ending `symbolsAgo` symbols (plus `samplesAgo` samples) before now
+   */
+  private matchedOutputAt(symbolsAgo: number, samplesAgo = 0): Complex {
+    const output = this.matched.output!;
+    const index = output.length - 2 - (symbolsAgo * this.params.samplesPerSymbol + samplesAgo) * 2;
+    return { re: output.get(index), im: output.get(index + 1) };
+  }
+
+  /**
+   * Differential correlation of symbol-spaced matched filter outputs with the training sequence
+   */
+  private detectFrameStart(amplitude: number): void {
+    const output = this.matched.output!;
+    const training = this.frame.training;
+    const { samplesPerSymbol } = this.params;
+
+    if (output.length < training.length * samplesPerSymbol * 2) return;
+
+    let corrRe = 0, corrIm = 0;
+    let current = this.matchedOutputAt(training.length - 1);
+    for (let k = 1; k < training.length; k++) {
+      const previous = current;
+      current = this.matchedOutputAt(training.length - 1 - k);
+
+      // d = z_k * conj(z_k-1), expected e = s_k * conj(s_k-1); accumulate d * conj(e) normalized
+      const d = mulConj(current, previous);
+      const e = mulConj(training[k], training[k - 1]);
+      const term = mulConj(d, e);
+      const magnitude = Math.hypot(term.re, term.im) + 1e-12;
+      corrRe += term.re / magnitude;
+      corrIm += term.im / magnitude;
+    }
+
+    const score = Math.hypot(corrRe, corrIm) / (training.length - 1);
+
+    if (score > this.config.syncThreshold && score > this.frame.candidateScore) {
+      this.frame.candidateFrequency = Math.atan2(corrIm, corrRe);
+      this.frame.candidateScore = score;
+      this.frame.candidateAge = 0;
+      this.frame.candidateAmplitude = amplitude;
+      return;
+    }
+
+    if (this.frame.candidateScore !== 0) {
+      this.frame.candidateAge++;
+      // Peak confirmed after two symbols without a better score
+      const age = this.frame.candidateAge;
+      if (age >= samplesPerSymbol * 2) {
+        this.frame.started = true;
+        // Training symbols are corners; the innermost points are (levels - 1) times smaller
+        this.frame.silenceThreshold = this.frame.candidateAmplitude * 0.25 / (this.params.levels - 1);
+        Object.assign(this.byteState, { bits: [], header: -1, remaining: 0 });
+        this.debug.syncDetections++;
+
+        this.trainEqualizer(age);
+
+        // Replay symbols received while waiting for confirmation
+        for (let k = 1; k * samplesPerSymbol <= age && this.frame.started; k++) {
+          this.processSymbol(this.matchedOutputAt(0, age - k * samplesPerSymbol));
+        }
+        this.frame.symbolSampleCounter = age % samplesPerSymbol;
+      }
+    }
+  }
+
+  /**
+   * Push silence through the equalizer so the symbols held in its delay line are decided
+   */
+  private flushEqualizer(): void {
+    const center = (this.config.equalizerTaps - 1) / 2;
+    for (let k = 0; k < center && this.frame.started; k++) {
+      this.processSymbol({ re: 0, im: 0 });
+    }
+  }
+
+  /**
+   * Estimate gain/phase from the training symbols and run LMS passes over them
+   */
+  private trainEqualizer(age: number): void {
+    const training = this.frame.training;
+    const { equalizerTaps } = this.config;
+    const received: Complex[] = [];
+    for (let k = 0; k < training.length; k++) {
+      const sample = this.matchedOutputAt(0, age + (training.length - 1 - k) * this.params.samplesPerSymbol);
+      // Remove the rotation caused by carrier frequency offset
+      received.push(rotate(sample, -k * this.frame.candidateFrequency));
+    }
+
+    // Least squares channel gain: h = sum(r * conj(s)) / sum(|s|^2)
+    let hRe = 0, hIm = 0, power = 0;
+    for (let k = 0; k < training.length; k++) {
+      const term = mulConj(received[k], training[k]);
+      hRe += term.re;
+      hIm += term.im;
+      power += training[k].re * training[k].re + training[k].im * training[k].im;
+    }
+    const h = { re: hRe / power, im: hIm / power };
+    const hPower = h.re * h.re + h.im * h.im + 1e-30;
+
+    this.equalizer.taps = Array.from({ length: equalizerTaps }, () => ({ re: 0, im: 0 }));
+    this.equalizer.taps[(equalizerTaps - 1) / 2] = { re: h.re / hPower, im: -h.im / hPower };
+    // LMS step normalized by received symbol power
+    this.equalizer.stepSize = this.config.equalizerStepSize / (hPower * this.params.cornerLevel * this.params.cornerLevel * 2);
+    Object.assign(this.quality, { errorPower: 0, referencePower: 0, phaseErrorPower: 0, symbols: 0 });
+
+    for (let pass = 0; pass < this.config.trainingPasses; pass++) {
+      Object.assign(this.equalizer, { window: [], symbolIndex: 0, phase: 0, frequency: this.frame.candidateFrequency });
+      for (let k = 0; k < training.length; k++) {
+        // Received symbols are re-rotated so that processSymbol() applies the same correction
+        this.processSymbol(rotate(received[k], k * this.frame.candidateFrequency));
+      }
+    }
+  }
+
+  /**
+   * Carrier correction, equalization, decision and LMS/carrier loop update for one symbol
+   */
+  private processSymbol(z: Complex): void {
+    const eq = this.equalizer;
+    const { equalizerTaps, trainingLength } = this.config;
+    const center = (equalizerTaps - 1) / 2;
+
+    eq.window.push(rotate(z, -eq.phase));
+    eq.phase += eq.frequency;
+    if (eq.window.length > equalizerTaps) eq.window.shift();
+    const k = eq.symbolIndex++;
+    if (eq.window.length < equalizerTaps) return;
+
+    // Equalizer output corresponds to the symbol at the window center
+    const index = k - center;
+    let y = { re: 0, im: 0 };
+    for (let t = 0; t < equalizerTaps; t++) {
+      const x = eq.window[equalizerTaps - 1 - t];
+      y = { re: y.re + eq.taps[t].re * x.re - eq.taps[t].im * x.im, im: y.im + eq.taps[t].re * x.im + eq.taps[t].im * x.re };
+    }
+
+    const symbolCount = index - trainingLength;
+    const isHeader = symbolCount >= 0 && symbolCount < HEADER_BITS / 2;
+    const reference = index < trainingLength
+      ? this.frame.training[index]
+      : isHeader ? this.sliceCorner(y) : this.sliceQAM(y);
+
+    // LMS update: w += mu * e * conj(x)
+    const error = { re: reference.re - y.re, im: reference.im - y.im };
+    for (let t = 0; t < equalizerTaps; t++) {
+      const x = eq.window[equalizerTaps - 1 - t];
+      eq.taps[t].re += eq.stepSize * (error.re * x.re + error.im * x.im);
+      eq.taps[t].im += eq.stepSize * (error.im * x.re - error.re * x.im);
+    }
+
+    // Decision-directed carrier loop
+    const product = mulConj(y, reference);
+    const phaseError = Math.atan2(product.im, product.re);
+    eq.phase += this.params.loopAlpha * phaseError;
+    eq.frequency += this.params.loopBeta * phaseError;
+
+    if (index < trainingLength) return;
+
+    this.updateQuality(error, reference, phaseError);
+
+    if (isHeader) {
+      this.processBit(reference.re < 0 ? 1 : 0);
+      if (this.frame.started) this.processBit(reference.im < 0 ? 1 : 0);
+    } else {
+      const { levels } = this.params;
+      const axisBits = Math.log2(levels);
+      const bits = (this.levelIndex(reference.re) << axisBits) | this.levelIndex(reference.im);
+      for (let b = this.params.bitsPerSymbol - 1; b >= 0 && this.frame.started; b--) {
+        this.processBit((bits >> b) & 1);
+      }
+    }
+  }
+
+  private sliceCorner(y: Complex): Complex {
+    return this.cornerSymbol(y.re < 0 ? 1 : 0, y.im < 0 ? 1 : 0);
+  }
+
+  private sliceQAM(y: Complex): Complex {
+    return { re: this.levelValue(this.axisIndex(y.re)), im: this.levelValue(this.axisIndex(y.im)) };
+  }
+
+  /**
+   * Nearest amplitude level index (0 .. levels-1) on one axis
+   */
+  private axisIndex(value: number): number {
+    const { levels, scale } = this.params;
+    const index = Math.round((value / scale + levels - 1) / 2);
+    return Math.max(0, Math.min(levels - 1, index));
+  }
+
+  private levelValue(index: number): number {
+    return (2 * index - (this.params.levels - 1)) * this.params.scale;
+  }
+
+  /**
+   * Gray coded bits of a decided axis level
+   */
+  private levelIndex(value: number): number {
+    const index = this.axisIndex(value);
+    return index ^ (index >> 1);
+  }
+
+  private updateQuality(error: Complex, reference: Complex, phaseError: number): void {
+    const q = this.quality;
+    const smoothing = q.symbols < 64 ? 1 / (q.symbols + 1) : 1 / 64;
+    q.errorPower += (error.re * error.re + error.im * error.im - q.errorPower) * smoothing;
+    q.referencePower += (reference.re * reference.re + reference.im * reference.im - q.referencePower) * smoothing;
+    q.phaseErrorPower += (phaseError * phaseError - q.phaseErrorPower) * smoothing;
+    q.symbols++;
+  }
+
+  private processBit(bit: number): void {
+    const state = this.byteState;
+    state.bits.push(bit);
+
+    if (state.header < 0) {
+      if (state.bits.length < HEADER_BITS) return;
+
+      const length = bitsToNumber(state.bits, 0, 16);
+      const check = bitsToNumber(state.bits, 16, 16);
+      state.bits = [];
+      if ((length ^ check) !== 0xFFFF) {
+        // Corrupted header or false sync
+        this.debug.headerErrors++;
+        this.resetFrame();
+        return;
+      }
+      state.header = length;
+      state.remaining = length;
+      if (length === 0) this.finishFrame();
+      return;
+    }
+
+    if (state.bits.length === 8) {
+      state.buffer.push(bitsToNumber(state.bits, 0, 8));
+      state.bits = [];
+      state.remaining--;
+      if (state.remaining === 0) this.finishFrame();
+    }
+  }
+
+  private finishFrame(): void {
+    // Remaining padding bits and symbols are ignored
+    this.resetFrame();
+    this.emit('eod');
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('QAM modulator not configured');
+    }
+    if (data.length > 0xFFFF) {
+      throw new Error(`Payload too large: ${data.length} bytes`);
+    }
+
+    return this.generateQAMSignal(data);
+  }
+
+  private generateQAMSignal(dataBytes: Uint8Array): Float32Array {
+    const { samplesPerSymbol, bitsPerSymbol, levels, omega, outputGain } = this.params;
+    const length = dataBytes.length;
+    const symbols: Complex[] = [...this.frame.training];
+
+    // Header as QPSK corners (2 bits per symbol)
+    const headerBits = bytesToBits([length >> 8, length & 0xFF, (~length >> 8) & 0xFF, ~length & 0xFF]);
+    for (let i = 0; i < headerBits.length; i += 2) symbols.push(this.cornerSymbol(headerBits[i], headerBits[i + 1]));
+
+    // Payload as QAM symbols, zero padding the last partial symbol
+    const axisBits = Math.log2(levels);
+    const payloadBits = bytesToBits(dataBytes);
+    for (let i = 0; i < payloadBits.length; i += bitsPerSymbol) {
+      let value = 0;
+      for (let b = 0; b < bitsPerSymbol; b++) value = (value << 1) | (payloadBits[i + b] ?? 0);
+      const reIndex = grayDecode(value >> axisBits);
+      const imIndex = grayDecode(value & (levels - 1));
+      symbols.push({ re: this.levelValue(reIndex), im: this.levelValue(imIndex) });
+    }
+
+    const paddingSamples = samplesPerSymbol * 2;
+    const silenceSamples = samplesPerSymbol * 8;
+    const output = new Float32Array(paddingSamples + symbols.length * samplesPerSymbol + silenceSamples);
+
+    let sampleIndex = paddingSamples;
+    for (const symbol of symbols) {
+      for (let i = 0; i < samplesPerSymbol; i++) {
+        const phase = omega * sampleIndex;
+        output[sampleIndex] = outputGain * (symbol.re * Math.cos(phase) - symbol.im * Math.sin(phase));
+        sampleIndex++;
+      }
+    }
+
+    return output;
+  }
+
+  private calculateParameters(): void {
+    const { sampleRate, baudRate, carrierFrequency, loopBandwidth, order } = this.config;
+    const levels = Math.sqrt(order);
+    // Unit average symbol power
+    const scale = 1 / Math.sqrt(2 * (order - 1) / 3);
+    const cornerLevel = (levels - 1) * scale;
+
+    // Second order loop filter gains (damping 0.707), loop runs once per symbol
+    const damping = Math.SQRT1_2;
+    const theta = (loopBandwidth / baudRate) / (damping + 1 / (4 * damping));
+    const denom = 1 + 2 * damping * theta + theta * theta;
+
+    Object.assign(this.params, {
+      samplesPerSymbol: Math.floor(sampleRate / baudRate),
+      bitsPerSymbol: Math.log2(order),
+      levels,
+      scale,
+      cornerLevel,
+      // Corner symbols peak at 0.9 full scale
+      outputGain: 0.9 / (cornerLevel * Math.SQRT2),
+      omega: 2 * Math.PI * carrierFrequency / sampleRate,
+      loopAlpha: (4 * damping * theta) / denom,
+      loopBeta: (4 * theta * theta) / denom
+    });
+  }
+
+  private initializeDSP(): void {
+    if (this.config.preFilterBandwidth <= 0) {
+      this.dsp.preFilter = undefined;
+      return;
+    }
+    const bandwidth = Math.max(this.config.preFilterBandwidth, 2 * this.config.baudRate);
+    this.dsp.preFilter = FilterFactory.createIIRBandpass(this.config.carrierFrequency, bandwidth, this.config.sampleRate);
+  }
+
+  reset(): void {
+    this.resetState();
+    this.matched.output?.clear();
+    this.byteState.buffer = [];
+    Object.assign(this.quality, { errorPower: 0, referencePower: 0, phaseErrorPower: 0, symbols: 0 });
+    Object.assign(this.debug, { syncDetections: 0, headerErrors: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getSignalQuality(): SignalQuality {
+    const q = this.quality;
+    const snr = q.symbols > 0 && q.errorPower > 0 ? 10 * Math.log10(q.referencePower / q.errorPower) : 0;
+    return {
+      snr,
+      ber: 0,
+      eyeOpening: 0,
+      phaseJitter: Math.sqrt(q.phaseErrorPower),
+      frequencyOffset: this.equalizer.frequency * (this.config?.baudRate ?? 0) / (2 * Math.PI)
+    };
+  }
+
+  getStatus() {
+    return {
+      ready: this.ready,
+      order: this.config?.order,
+      bitsPerSymbol: this.params.bitsPerSymbol,
+      frameStarted: this.frame.started,
+      evm: this.quality.referencePower > 0 ? Math.sqrt(this.quality.errorPower / this.quality.referencePower) : 0,
+      byteBufferLength: this.byteState.buffer.length,
+      demodulationCalls: this.debug.demodulationCalls,
+      syncDetections: this.debug.syncDetections,
+      headerErrors: this.debug.headerErrors,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
+
+function mulConj(a: Complex, b: Complex): Complex {
+  return { re: a.re * b.re + a.im * b.im, im: a.im * b.re - a.re * b.im };
+}
+
+function rotate(z: Complex, angle: number): Complex {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return { re: z.re * c - z.im * s, im: z.re * s + z.im * c };
+}
+
+function grayDecode(gray: number): number {
+  let value = gray;
+  for (let shift = gray >> 1; shift; shift >>= 1) value ^= shift;
+  return value;
+}
+
+function bytesToBits(bytes: ArrayLike<number>): number[] {
+  const bits: number[] = [];
+  for (let n = 0; n < bytes.length; n++) {
+    for (let i = 7; i >= 0; i--) bits.push((bytes[n] >> i) & 1);
+  }
+  return bits;
+}
+
+function bitsToNumber(bits: number[], offset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value = (value << 1) | bits[offset + i];
+  return value;
+}
@@ -0,0 +1,151 @@
+import { BaseModulator, type BaseModulatorConfig, type ModulationType } from '../core';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from './fsk';
+import { ITA2Decoder, ITA2Encoder, ITA2_LTRS, type ITA2FigureSet } from '../utils/ita2';
+
+export interface RTTYConfig extends BaseModulatorConfig {
+  markFrequency: number;
+  spaceFrequency: number;
+  stopBits: number;          // 1, 1.5 or 2 (bit times of mark after each character)
+  figureSet: ITA2FigureSet;
+  unshiftOnSpace: boolean;   // Space returns to the letters shift (USOS)
+}
+
+// Amateur radio RTTY: 45.45 baud, 170 Hz shift, 1.5 stop bits
+export const DEFAULT_RTTY_CONFIG: RTTYConfig = {
+  sampleRate: 48000,
+  baudRate: 45.45,
+  markFrequency: 2125,
+  spaceFrequency: 2295,
+  stopBits: 1.5,
+  figureSet: 'ita2',
+  unshiftOnSpace: true
+};
+
+// Start bit + 5 data bits (LSB first); stop bits follow
+const DATA_BITS = 5;
+
+/**
+ * RTTY (ITA2 Baudot) Core
+ *
+ * Asynchronous start-stop FSK as used by amateur radio RTTY software: one start bit
+ * (space), five ITA2 data bits LSB first and 1.5 stop bits (mark), idle on mark.
+ * The line is FSKCore's UART framing with the tone detector, which the 170 Hz shift
+ * at 45.45 baud calls for, without frame sync: the receiver finds every character by
+ * its start bit while the carrier is detected, whatever the idle between characters
+ * and the sender's stop bits. Two LTRS characters lead the text, and the receiver
+ * starts in letters shift with the carrier.
+ *
+ * modulateData()/demodulateData() carry ASCII text: LTRS/FIGS shifts are inserted and
+ * followed automatically. 'eod' is emitted when the carrier drops after some text.
+ */
+export class RTTYCore extends BaseModulator<RTTYConfig> {
+  readonly name = 'RTTY';
+  readonly type: ModulationType = 'FSK';
+
+  private readonly fsk = new FSKCore();
+
+  private readonly codec = {
+    encoder: new ITA2Encoder(),
+    decoder: new ITA2Decoder()
+  };
+
+  // Debug counters
+  private readonly debug = {
+    characters: 0, demodulationCalls: 0, totalSamples: 0
+  };
+
+  constructor() {
+    super();
+    // A transmission starts with the carrier and ends in letters shift
+    this.fsk.on('sync', (event) => {
+      this.codec.decoder.reset();
+      this.emit('sync', event);
+    });
+    this.fsk.on('eod', (event) => {
+      this.codec.decoder.reset();
+      this.emit('eod', event);
+    });
+    for (const eventName of ['dcd', 'receiveError', 'error']) {
+      this.fsk.on(eventName, (event) => this.emit(eventName, event));
+    }
+  }
+
+  configure(config: RTTYConfig): void {
+    const merged = { ...DEFAULT_RTTY_CONFIG, ...config } as RTTYConfig;
+    if (merged.stopBits < 1 || merged.stopBits > 2) {
+      throw new Error(`RTTY stop bits must be between 1 and 2: ${merged.stopBits}`);
+    }
+    if (Math.max(merged.markFrequency, merged.spaceFrequency) >= merged.sampleRate / 2) {
+      throw new Error('RTTY tones must be below Nyquist frequency');
+    }
+    this.config = merged;
+    this.codec.encoder = new ITA2Encoder(merged.figureSet, merged.unshiftOnSpace);
+    this.codec.decoder = new ITA2Decoder(merged.figureSet, merged.unshiftOnSpace);
+
+    // One character time of mark idle on both sides of the transmission
+    const { sampleRate, baudRate, markFrequency, spaceFrequency, stopBits } = merged;
+    const idle = (1 + DATA_BITS + stopBits) / baudRate;
+    this.fsk.configure({
+      ...DEFAULT_FSK_CONFIG,
+      sampleRate, baudRate, markFrequency, spaceFrequency, stopBits,
+      startBits: 1,
+      dataBits: DATA_BITS,
+      bitOrder: 'lsb',
+      parity: 'none',
+      preamblePattern: [],
+      sfdPattern: [],
+      detector: 'tone',
+      txDelay: idle,
+      txTail: idle
+    } as FSKConfig);
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('RTTY demodulator not configured');
+    }
+
+    this.debug.demodulationCalls++;
+    this.debug.totalSamples += samples.length;
+
+    const text: number[] = [];
+    for (const code of await this.fsk.demodulateData(samples)) {
+      this.debug.characters++;
+      const char = this.codec.decoder.decode(code);
+      if (char !== null) text.push(char);
+    }
+    return new Uint8Array(text);
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('RTTY modulator not configured');
+    }
+
+    const encoder = this.codec.encoder;
+    encoder.reset('letters');
+    return this.fsk.modulateData(new Uint8Array([ITA2_LTRS, ITA2_LTRS, ...encoder.encode(data)]));
+  }
+
+  reset(): void {
+    this.fsk.reset();
+    this.codec.decoder.reset();
+    Object.assign(this.debug, { characters: 0, demodulationCalls: 0, totalSamples: 0 });
+  }
+
+  getStatus() {
+    const fskStatus = this.fsk.getStatus();
+    return {
+      ready: this.ready,
+      receiving: fskStatus.frameStarted,
+      figuresShift: this.codec.decoder.figuresShift,
+      characters: this.debug.characters,
+      framingErrors: fskStatus.framingErrors,
+      demodulationCalls: this.debug.demodulationCalls,
+      totalSamplesProcessed: this.debug.totalSamples
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { FilterFactory, IIRFilter } from '../dsp/filters';
+import { BaseModulator, type ModulationType } from '../core';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from './fsk';
+
+export type V21Role = 'originate' | 'answer';
+
+export interface V21Config extends Omit<FSKConfig, 'markFrequency' | 'spaceFrequency'> {
+  role: V21Role;                  // originate transmits on channel 1, answer on channel 2
+  channelFilterBandwidth: number; // Transmit and receive channel filters, 0 disables
+}
+
+// ITU-T V.21: mark (binary 1) is the lower frequency, nominal centre ±100 Hz
+export const V21_CHANNELS = {
+  1: { markFrequency: 980, spaceFrequency: 1180 },
+  2: { markFrequency: 1650, spaceFrequency: 1850 }
+} as const;
+
+const { markFrequency: _markFrequency, spaceFrequency: _spaceFrequency, ...fskDefaults } = DEFAULT_FSK_CONFIG;
+
+export const DEFAULT_V21_CONFIG: V21Config = {
+  ...fskDefaults,
+  baudRate: 300,
+  // Residual echo of our own carrier pulls the discriminator mean the AFC steers by
+  afcEnabled: false,
+  role: 'originate',
+  channelFilterBandwidth: 400
+};
+
+// Cascaded bandpass sections: the transmit filter keeps FSK keying sidebands
+// out of the other channel, the receive filter removes our own carrier
+const TX_FILTER_STAGES = 2;
+const RX_FILTER_STAGES = 3;
+
+function createChannelFilters(channel: 1 | 2, config: V21Config, stages: number): IIRFilter[] {
+  if (config.channelFilterBandwidth <= 0) return [];
+  const { markFrequency, spaceFrequency } = V21_CHANNELS[channel];
+  return Array.from({ length: stages }, () =>
+    FilterFactory.createIIRBandpass((markFrequency + spaceFrequency) / 2, config.channelFilterBandwidth, config.sampleRate));
+}
+
+/**
+ * ITU-T V.21 full-duplex Core
+ *
+ * Transmits on one V.21 channel and demodulates the other one at the same time.
+ * Bandpass channel filters on both directions keep the node's own transmit
+ * signal (local echo) out of the receiver, so one audio path carries both directions.
+ */
+export class V21Core extends BaseModulator<V21Config> {
+  readonly name = 'V21';
+  readonly type: ModulationType = 'FSK';
+
+  private readonly tx = new FSKCore();
+  private readonly rx = new FSKCore();
+
+  // Receive channel filter (state persists across demodulateData calls)
+  private readonly dsp = {
+    channelFilters: [] as IIRFilter[]
+  };
+
+  constructor() {
+    super();
+    // Receiver events of the peer's channel
+    for (const eventName of ['dcd', 'sync', 'eod', 'receiveError', 'error']) {
+      this.rx.on(eventName, (event) => this.emit(eventName, event));
+    }
+  }
+
+  configure(config: V21Config): void {
+    this.config = { ...DEFAULT_V21_CONFIG, ...config } as V21Config;
+    if (this.config.role !== 'originate' && this.config.role !== 'answer') {
+      throw new Error(`Unknown V.21 role: ${this.config.role}`);
+    }
+
+    const { role: _role, channelFilterBandwidth: _bandwidth, ...fskConfig } = this.config;
+    this.tx.configure({ ...fskConfig, ...V21_CHANNELS[this.txChannel] } as FSKConfig);
+    this.rx.configure({ ...fskConfig, ...V21_CHANNELS[this.rxChannel] } as FSKConfig);
+    this.dsp.channelFilters = createChannelFilters(this.rxChannel, this.config, RX_FILTER_STAGES);
+
+    this.ready = true;
+    this.emit('configured');
+  }
+
+  get txChannel(): 1 | 2 {
+    return this.config?.role === 'answer' ? 2 : 1;
+  }
+
+  get rxChannel(): 1 | 2 {
+    return this.txChannel === 1 ? 2 : 1;
+  }
+
+  async modulateData(data: Uint8Array): Promise<Float32Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('V.21 modulator not configured');
+    }
+
+    // Each frame starts with fresh filter state
+    let signal = await this.tx.modulateData(data);
+    for (const filter of createChannelFilters(this.txChannel, this.config, TX_FILTER_STAGES)) {
+      signal = filter.processBuffer(signal);
+    }
+    return signal;
+  }
+
+  async demodulateData(samples: Float32Array): Promise<Uint8Array> {
+    if (!this.ready || !this.config) {
+      throw new Error('V.21 demodulator not configured');
+    }
+
+    let filtered = samples;
+    for (const filter of this.dsp.channelFilters) {
+      filtered = filter.processBuffer(filtered);
+    }
+    return this.rx.demodulateData(filtered);
+  }
+
+  reset(): void {
+    this.dsp.channelFilters.forEach(filter => filter.reset());
+    this.tx.reset();
+    this.rx.reset();
+  }
+
+  getStatus() {
+    return {
+      ...this.rx.getStatus(),
+      ready: this.ready,
+      role: this.config?.role,
+      txChannel: this.txChannel,
+      rxChannel: this.rxChannel
+    };
+  }
+}
@@ -37,6 +37,27 @@ export class CRC16 {
     return crc ^ CRC16.FINAL_XOR;
   }
 
+  /**
+   * Calculate CRC-16/X.25 (HDLC / AX.25 FCS)
+   *
+   * Same polynomial, bit-reflected (0x8408), initial 0xFFFF, final XOR 0xFFFF.
+   * Transmitted low byte first.
+   * @param data Input data as Uint8Array
+   * @returns 16-bit FCS value
+   */
+  static calculateX25(data: Uint8Array): number {
+    let crc = 0xFFFF;
+
+    for (const byte of data) {
+      crc ^= byte;
+
+      for (let i = 0; i < 8; i++) {
+        crc = (crc & 1) ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+      }
+    }
+
+    return crc ^ 0xFFFF;
+  }
 
   /**
    * Verify data integrity using CRC
@@ -0,0 +1,128 @@
+/**
+ * ITA2 (Baudot-Murray) 5-bit character code for RTTY
+ *
+ * Codes are numbered with bit 1 (the first bit on the line) as the LSB.
+ * Two shift states share the 32 codes: LTRS selects letters, FIGS figures.
+ * Text is exchanged as ASCII bytes; lower case is sent as upper case and
+ * characters without an ITA2 code are dropped.
+ */
+
+export type ITA2FigureSet = 'ita2' | 'us';
+
+export const ITA2_NULL = 0x00;
+export const ITA2_SPACE = 0x04;
+export const ITA2_FIGS = 0x1B;
+export const ITA2_LTRS = 0x1F;
+
+const NUL = '\0';
+
+// Letters shift, indexed by code (NUL marks shift codes)
+const LETTERS = '\0E\nA SIU\rDRJNFCKTZLWHYPQOBG\0MXV\0';
+
+// Figures shift: ITU-T S.2 and the US teletype variant used by most amateur software
+// (NUL marks codes without a character)
+const FIGURES: Record<ITA2FigureSet, string> = {
+  ita2: '\x003\n- \'87\r\x054\x07,\0:(5+)2\x006019?\0\0./=\0',
+  us: '\x003\n- \x0787\r$4\',!:(5")2#6019?&\0./;\0'
+};
+
+function buildEncodeTable(characters: string): Map<number, number> {
+  const table = new Map<number, number>();
+  for (let code = 1; code < characters.length; code++) {
+    if (characters[code] !== NUL) table.set(characters.charCodeAt(code), code);
+  }
+  return table;
+}
+
+/**
+ * ASCII to ITA2 with automatic LTRS/FIGS shifts
+ */
+export class ITA2Encoder {
+  private readonly letters = buildEncodeTable(LETTERS);
+  private readonly figures: Map<number, number>;
+  private readonly unshiftOnSpace: boolean;
+  private shift: 'letters' | 'figures' | null = null;
+
+  /**
+   * @param figureSet Figures shift table
+   * @param unshiftOnSpace Receivers return to letters after a space, so figures are shifted again
+   */
+  constructor(figureSet: ITA2FigureSet = 'ita2', unshiftOnSpace = true) {
+    this.figures = buildEncodeTable(FIGURES[figureSet]);
+    this.unshiftOnSpace = unshiftOnSpace;
+  }
+
+  encode(text: ArrayLike<number>): number[] {
+    const codes: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      let char = text[i];
+      if (char >= 0x61 && char <= 0x7A) char -= 0x20;
+
+      const letter = this.letters.get(char);
+      const figure = this.figures.get(char);
+      if (letter !== undefined && figure === letter) {
+        // Space, CR and LF exist in both shifts
+        codes.push(letter);
+        if (letter === ITA2_SPACE && this.unshiftOnSpace) this.shift = 'letters';
+      } else if (letter !== undefined) {
+        if (this.shift !== 'letters') codes.push(ITA2_LTRS);
+        this.shift = 'letters';
+        codes.push(letter);
+      } else if (figure !== undefined) {
+        if (this.shift !== 'figures') codes.push(ITA2_FIGS);
+        this.shift = 'figures';
+        codes.push(figure);
+      }
+    }
+
+    return codes;
+  }
+
+  /**
+   * @param shift Shift the receiver is known to be in (e.g. after LTRS idle), null forces a shift code
+   */
+  reset(shift: 'letters' | 'figures' | null = null): void {
+    this.shift = shift;
+  }
+}
+
+/**
+ * ITA2 to ASCII, tracking the shift state across calls
+ */
+export class ITA2Decoder {
+  private readonly figures: string;
+  private readonly unshiftOnSpace: boolean;
+  private shift: 'letters' | 'figures' = 'letters';
+
+  constructor(figureSet: ITA2FigureSet = 'ita2', unshiftOnSpace = true) {
+    this.figures = FIGURES[figureSet];
+    this.unshiftOnSpace = unshiftOnSpace;
+  }
+
+  /**
+   * @returns ASCII byte, or null for shift codes, NULL and unassigned figures
+   */
+  decode(code: number): number | null {
+    if (code === ITA2_LTRS) {
+      this.shift = 'letters';
+      return null;
+    }
+    if (code === ITA2_FIGS) {
+      this.shift = 'figures';
+      return null;
+    }
+    if (code === ITA2_SPACE && this.unshiftOnSpace) this.shift = 'letters';
+
+    const char = (this.shift === 'letters' ? LETTERS : this.figures)[code & 0x1F];
+    return char === NUL ? null : char.charCodeAt(0);
+  }
+
+  get figuresShift(): boolean {
+    return this.shift === 'figures';
+  }
+
+  reset(): void {
+    this.shift = 'letters';
+  }
+}
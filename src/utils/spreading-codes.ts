@@ -0,0 +1,68 @@
+/**
+ * Spreading codes for direct-sequence spread spectrum
+ *
+ * Codes are arrays of ±1 chips. Barker codes have the lowest possible
+ * autocorrelation sidelobes (1/N) and suit a single link; m-sequences and
+ * Gold codes come in families with low cross-correlation, so users sharing
+ * the band can be told apart by their code.
+ */
+
+export const BARKER_CODES: Record<number, number[]> = {
+  7: [1, 1, 1, -1, -1, 1, -1],
+  11: [1, 1, 1, -1, -1, -1, 1, -1, -1, 1, -1],
+  13: [1, 1, 1, 1, 1, -1, -1, 1, 1, -1, 1, -1, 1]
+};
+
+/**
+ * Preferred pairs of primitive polynomials for Gold codes, as tap lists
+ * (e.g. [5, 2] is x^5 + x^2 + 1)
+ */
+export const GOLD_PREFERRED_PAIRS: Record<number, [number[], number[]]> = {
+  5: [[5, 2], [5, 4, 3, 2]],
+  7: [[7, 3], [7, 3, 2, 1]]
+};
+
+/**
+ * Maximum length sequence from a Fibonacci LFSR
+ * @param taps Exponents of the feedback polynomial, highest first (e.g. [5, 2] for x^5 + x^2 + 1)
+ * @param seed Non-zero initial register state
+ * @returns 2^n - 1 chips
+ */
+export function mSequence(taps: number[], seed = 1): number[] {
+  const degree = Math.max(...taps);
+  if (degree < 2 || degree > 16) {
+    throw new Error(`m-sequence degree must be between 2 and 16: ${degree}`);
+  }
+  const mask = (1 << degree) - 1;
+  if ((seed & mask) === 0) {
+    throw new Error('m-sequence seed must be non-zero');
+  }
+
+  const length = mask;
+  const chips: number[] = [];
+  let state = seed & mask;
+  for (let i = 0; i < length; i++) {
+    chips.push(state & 1 ? -1 : 1);
+    let feedback = 0;
+    for (const tap of taps) feedback ^= (state >> (degree - tap)) & 1;
+    state = (state >> 1) | (feedback << (degree - 1));
+    if (state === (seed & mask) && i < length - 1) {
+      throw new Error(`Taps [${taps.join(', ')}] do not describe a primitive polynomial`);
+    }
+  }
+  return chips;
+}
+
+/**
+ * Gold code: product (XOR) of a preferred pair of m-sequences, the second one
+ * rotated by `shift` chips. Shifts 0 .. 2^n - 2 give 2^n - 1 different codes.
+ */
+export function goldCode(degree: number, shift: number): number[] {
+  const pair = GOLD_PREFERRED_PAIRS[degree];
+  if (!pair) {
+    throw new Error(`No Gold code preferred pair for degree ${degree}`);
+  }
+  const a = mSequence(pair[0]);
+  const b = mSequence(pair[1]);
+  return a.map((chip, i) => chip * b[(i + shift) % b.length]);
+}
@@ -2,15 +2,17 @@
  * Chunked Modulator - Generates modulated signal samples in WebAudio-compatible chunks
  * 
  * Purpose: WebAudio environment requires audio output in fixed-size chunks (typically 128 samples).
- * This class takes input data bytes, generates the complete modulated signal internally,
- * and then provides it sample-by-sample as requested by WebAudio's process() method.
+ * This class takes input data bytes and provides the modulated signal sample-by-sample as
+ * requested by WebAudio's process() method. Modulators with createModulationStream() generate
+ * each chunk on demand, directly into the output buffer with fillNextSamples(); others are
+ * modulated in full up front.
  * 
  * Design: Instead of chunking the input data (bytes), this class chunks the output signal (samples).
  * This is essential because WebAudio output buffer size is fixed, but FSK signal length varies
  * based on data content and modulation parameters.
  */
 
-import type { IModulator, BaseModulatorConfig } from '../core';
+import type { IModulator, IModulationStream, BaseModulatorConfig } from '../core';
 
 export interface ChunkResult {
   signal: Float32Array;
@@ -19,9 +21,23 @@ export interface ChunkResult {
   totalSamples: number;
 }
 
+// Stream over a signal modulated in full
+function signalStream(signal: Float32Array): IModulationStream {
+  let position = 0;
+  return {
+    totalSamples: signal.length,
+    fillSamples(output: Float32Array): number {
+      const count = Math.min(output.length, signal.length - position);
+      output.set(signal.subarray(position, position + count));
+      position += count;
+      return count;
+    }
+  };
+}
+
 export class ChunkedModulator<TConfig extends BaseModulatorConfig = BaseModulatorConfig> {
   private modulator: IModulator<TConfig>;
-  private pendingSignal: Float32Array | null = null;
+  private pendingStream: IModulationStream | null = null;
   private samplePosition = 0;
 
   constructor(modulator: IModulator<TConfig>) {
@@ -34,24 +50,37 @@ export class ChunkedModulator<TConfig extends BaseModulatorConfig = BaseModulato
       return;
     }
     
-    this.pendingSignal = await this.modulator.modulateData(data);
+    this.pendingStream = this.modulator.createModulationStream
+      ? this.modulator.createModulationStream(data)
+      : signalStream(await this.modulator.modulateData(data));
     this.samplePosition = 0;
   }
   
   getNextSamples(sampleCount: number): ChunkResult | null {
-    if (!this.pendingSignal) return null;
+    if (!this.pendingStream) return null;
     
-    const remaining = this.pendingSignal.length - this.samplePosition;
+    const remaining = this.pendingStream.totalSamples - this.samplePosition;
     if (remaining <= 0) return null;
     
-    const samplesCount = Math.min(sampleCount, remaining);
-    const signal = this.pendingSignal.slice(this.samplePosition, this.samplePosition + samplesCount);
+    return this.fillNextSamples(new Float32Array(Math.min(sampleCount, remaining)));
+  }
+
+  /**
+   * Writes the next samples from the start of output without allocating; the result
+   * signal is a view of the part written
+   */
+  fillNextSamples(output: Float32Array): ChunkResult | null {
+    if (!this.pendingStream) return null;
+    
+    const samplesCount = this.pendingStream.fillSamples(output);
+    if (samplesCount <= 0) return null;
+    const signal = output.subarray(0, samplesCount);
     
     this.samplePosition += samplesCount;
-    const isComplete = this.samplePosition >= this.pendingSignal.length;
+    const totalSamples = this.pendingStream.totalSamples;
+    const isComplete = this.samplePosition >= totalSamples;
     
     if (isComplete) {
-      const totalSamples = this.pendingSignal.length;
       this.reset();
       return {
         signal,
@@ -65,16 +94,16 @@ export class ChunkedModulator<TConfig extends BaseModulatorConfig = BaseModulato
       signal,
       isComplete: false,
       samplesConsumed: this.samplePosition,
-      totalSamples: this.pendingSignal.length
+      totalSamples
     };
   }
   
   isModulating(): boolean {
-    return !!this.pendingSignal;
+    return !!this.pendingStream;
   }
   
   getProgress(): number {
-    return this.pendingSignal ? this.samplePosition / this.pendingSignal.length : 0;
+    return this.pendingStream ? this.samplePosition / this.pendingStream.totalSamples : 0;
   }
   
   cancel(): void {
@@ -82,7 +111,7 @@ export class ChunkedModulator<TConfig extends BaseModulatorConfig = BaseModulato
   }
   
   private reset(): void {
-    this.pendingSignal = null;
+    this.pendingStream = null;
     this.samplePosition = 0;
   }
 }
@@ -0,0 +1,262 @@
+/**
+ * Modem AudioWorklet Processor base - message protocol shared by the modem processors
+ *
+ * configure / modulate / demodulate / status / reset / abort を実装し、サブクラスは
+ * configure で変復調コアを作るだけで WebAudioDataChannel から利用できます。
+ */
+
+/// <reference path="./types.d.ts" />
+
+import type { IAudioProcessor, IDataChannel, IModulator, BaseModulatorConfig } from '../../core';
+import type { FSKReceiveError } from '../../modems/fsk';
+import { ChunkedModulator } from '../chunked-modulator';
+import { RingBuffer } from '../../utils';
+import { MyAbortController } from './my-abort-controller';
+
+export interface WorkletMessage {
+  id: string;
+  type: 'configure' | 'modulate' | 'demodulate' | 'status' | 'reset' | 'abort';
+  data?: {
+    config?: BaseModulatorConfig;
+    bytes?: ArrayLike<number>;
+  };
+}
+
+// Both AbortSignal and the worklet's MyAbortSignal
+interface AbortSignalLike {
+  addEventListener(_type: 'abort', _listener: () => void, _options?: { once?: boolean }): void;
+  removeEventListener(_type: 'abort', _listener: () => void): void;
+}
+
+export type ProcessorCore = IModulator & {
+  getStatus(): { totalSamplesProcessed: number };
+};
+
+export abstract class ModemProcessorBase<TCore extends ProcessorCore>
+  extends AudioWorkletProcessor implements IAudioProcessor, IDataChannel {
+  protected core: TCore;
+  // Received bytes kept until demodulate() reads them; a byte arriving when it is full
+  // overwrites the oldest unread one, which is reported as an overrun
+  private readonly demodulatedBuffer: RingBuffer<Uint8Array>;
+  private pendingModulation: ChunkedModulator | null = null;
+  private awaitingCallback: (() => void) | null = null;
+  private modulationWaitCallback: () => void = () => {};
+  private abortController: MyAbortController | null = null;
+  private receivedBytes = 0;
+  private overrunErrors = 0;
+  private processDemodulationCallCount = 0;
+
+  constructor(core: TCore, bufferSize: number) {
+    super();
+    // The core is replaced by a configured one on 'configure'
+    this.core = core;
+    this.demodulatedBuffer = new RingBuffer(Uint8Array, bufferSize);
+    this.port.onmessage = this.handleMessage.bind(this);
+  }
+
+  // Create and configure the core for a 'configure' message
+  protected abstract createCore(_config: BaseModulatorConfig): TCore;
+
+  // Core specific fields of the 'status' result
+  protected abstract coreStatus(): Record<string, unknown>;
+
+  // A full-duplex core never receives our own transmission
+  protected get fullDuplex(): boolean {
+    return false;
+  }
+
+  async modulate(data: Uint8Array, options?: { signal?: AbortSignalLike }): Promise<void> {
+    if (this.pendingModulation) {
+      throw new Error('Modulation already in progress');
+    }
+
+    this.pendingModulation = new ChunkedModulator(this.core);
+    await this.pendingModulation.startModulation(data);
+    await new Promise<void>((resolve, reject) => {
+      const handleAbort = () => {
+        this.pendingModulation = null;
+        this.modulationWaitCallback = () => {};
+        reject(new Error(`${this.core.name} Processor Modulation aborted`));
+      };
+      this.modulationWaitCallback = () => {
+        options?.signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      };
+      options?.signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+  }
+
+  async demodulate(options?: { signal?: AbortSignalLike }): Promise<Uint8Array> {
+    if (this.demodulatedBuffer.length === 0) {
+      await new Promise<void>((resolve, reject) => {
+        this.awaitingCallback = resolve;
+        options?.signal?.addEventListener('abort', () => {
+          this.awaitingCallback = null;
+          reject(new Error('Demodulation aborted'));
+        }, { once: true });
+      });
+    }
+
+    const demodulatedBytes = new Uint8Array(this.demodulatedBuffer.length);
+    for (let i = 0; i < demodulatedBytes.length; i++) {
+      demodulatedBytes[i] = this.demodulatedBuffer.remove();
+    }
+    return demodulatedBytes;
+  }
+
+  async reset(): Promise<void> {
+    this.demodulatedBuffer.clear();
+    this.pendingModulation = null;
+    this.awaitingCallback = null;
+    this.modulationWaitCallback = () => {};
+    this.receivedBytes = 0;
+    this.overrunErrors = 0;
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (input?.[0]) {
+      this.processDemodulation(input[0]);
+    }
+
+    if (output?.[0]) {
+      this.modulateTo(output[0]);
+    }
+
+    return true;
+  }
+
+  // Events of the core go to the main thread as they happen
+  protected postEvent(event: string, detail: unknown): void {
+    this.port.postMessage({ id: null, type: 'event', data: { event, detail } });
+  }
+
+  protected postError(error: unknown): void {
+    this.postEvent('error', { message: error instanceof Error ? error.message : String(error) });
+  }
+
+  private resetAbortController(): MyAbortController {
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    this.abortController = new MyAbortController();
+    return this.abortController;
+  }
+
+  private async handleMessage(event: MessageEvent<WorkletMessage>) {
+    const { id, type, data } = event.data;
+
+    try {
+      switch (type) {
+        case 'configure':
+          this.core = this.createCore(data?.config ?? {} as BaseModulatorConfig);
+          this.port.postMessage({ id, type: 'result', data: { success: true } });
+          break;
+
+        case 'reset':
+          await this.reset();
+          this.port.postMessage({ id, type: 'result', data: { success: true } });
+          break;
+
+        case 'abort':
+          if (this.abortController) {
+            this.abortController.abort();
+            this.abortController = null;
+          }
+          if (id) this.port.postMessage({ id, type: 'result', data: { success: true } });
+          break;
+
+        case 'modulate': {
+          const { signal } = this.resetAbortController();
+          await this.modulate(new Uint8Array(data?.bytes ?? []), { signal });
+          // Clear receive buffer after modulation to avoid self-reception (half-duplex only)
+          if (!this.fullDuplex) {
+            this.demodulatedBuffer.clear();
+          }
+          this.port.postMessage({ id, type: 'result', data: { success: true } });
+          break;
+        }
+
+        case 'demodulate': {
+          const { signal } = this.resetAbortController();
+          const demodulatedBytes = await this.demodulate({ signal });
+          this.port.postMessage({ id, type: 'result', data: { bytes: Array.from(demodulatedBytes) } });
+          break;
+        }
+
+        case 'status':
+          this.port.postMessage({
+            id,
+            type: 'result',
+            data: {
+              demodulatedBufferLength: this.demodulatedBuffer.length,
+              pendingModulation: !!this.pendingModulation,
+              processDemodulationCallCount: this.processDemodulationCallCount,
+              ...this.coreStatus(),
+              overrunErrors: this.overrunErrors
+            }
+          });
+          break;
+
+        default:
+          throw new Error(`Unknown message type: ${type}`);
+      }
+    } catch (error) {
+      this.port.postMessage({
+        id,
+        type: 'error',
+        data: { message: error instanceof Error ? error.message : String(error) }
+      });
+    }
+  }
+
+  private modulateTo(outputSamples: Float32Array): void {
+    outputSamples.fill(0);
+
+    if (this.pendingModulation) {
+      const result = this.pendingModulation.fillNextSamples(outputSamples);
+      if (result?.isComplete) {
+        this.pendingModulation = null;
+        this.modulationWaitCallback();
+      }
+    }
+  }
+
+  private async processDemodulation(inputSamples: Float32Array): Promise<void> {
+    if (!this.core.isReady()) {
+      return; // Skip processing if not configured yet
+    }
+
+    this.processDemodulationCallCount++;
+
+    try {
+      for (const byte of await this.core.demodulateData(inputSamples)) {
+        if (this.demodulatedBuffer.length === this.demodulatedBuffer.capacity) {
+          this.reportOverrun();
+        }
+        this.demodulatedBuffer.put(byte);
+        this.receivedBytes++;
+
+        if (this.awaitingCallback) {
+          this.awaitingCallback();
+          this.awaitingCallback = null;
+        }
+      }
+    } catch (error) {
+      this.postError(error);
+    }
+  }
+
+  // The oldest unread byte is about to be overwritten
+  private reportOverrun(): void {
+    this.overrunErrors++;
+    const error: FSKReceiveError = {
+      type: 'overrun',
+      byteIndex: this.receivedBytes - this.demodulatedBuffer.length,
+      samplePosition: this.core.getStatus().totalSamplesProcessed
+    };
+    this.postEvent('receiveError', error);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * OFDM AudioWorklet Processor - Thin wrapper for OFDM operations
+ *
+ * FSKProcessor と同じメッセージプロトコル（configure / modulate / demodulate / status / reset / abort）を
+ * 実装しているため、WebAudioDataChannel から 'ofdm-processor' を指定するだけで利用できます。
+ */
+
+/// <reference path="./types.d.ts" />
+
+import type { BaseModulatorConfig } from '../../core';
+import { OFDMCore, type OFDMConfig } from '../../modems/ofdm';
+import { ModemProcessorBase } from './modem-processor-base';
+
+const RX_BUFFER_SIZE = 4096;
+
+export class OFDMProcessor extends ModemProcessorBase<OFDMCore> {
+  constructor() {
+    super(new OFDMCore(), RX_BUFFER_SIZE);
+  }
+
+  protected createCore(config: BaseModulatorConfig): OFDMCore {
+    const core = new OFDMCore();
+    core.configure(config as OFDMConfig);
+    return core;
+  }
+
+  protected coreStatus(): Record<string, unknown> {
+    return {
+      ofdmCoreReady: this.core.isReady(),
+      ...this.core.getStatus()
+    };
+  }
+}
+
+// Register the processor
+registerProcessor('ofdm-processor', OFDMProcessor);
@@ -3,13 +3,17 @@
  * 
  * Transport層が使用するIDataChannelの実装。
  * AudioWorkletNodeを継承してWebAudio APIと自然に統合。
+ *
+ * 受信イベント（'dcd' キャリア検出のon/off、'sync' フレーム同期と相関値、'eod' データ終了、
+ * 'receiveError' パリティ・フレーミング・オーバーランエラー）はCustomEventとして発行され、
+ * detailに入力サンプル位置（samplePosition）を持つ。
  */
 
 import type { IDataChannel } from '../core.js';
 
 interface WorkletMessage {
   id: string;
-  type: 'configure' | 'modulate' | 'demodulate' | 'status' | 'result' | 'error';
+  type: 'configure' | 'modulate' | 'demodulate' | 'status' | 'result' | 'error' | 'event';
   data?: any;
 }
 
@@ -75,6 +79,10 @@ export class WebAudioDataChannel extends AudioWorkletNode implements IDataChanne
 
   private handleMessage(event: MessageEvent<WorkletMessage>) {
     const { id, type, data } = event.data;
+    if (type === 'event') {
+      this.dispatchEvent(new CustomEvent(data.event, { detail: data.detail }));
+      return;
+    }
     const operation = this.pendingOperations.get(id);
     // console.log(`[WebAudioDataChannel:${this.instanceName}] Received message:`, { id, type, data });
     
@@ -0,0 +1,69 @@
+// Tests for FFT - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { FFT } from '../../src/dsp/fft';
+
+// Reference DFT for comparison
+function dft(re: Float64Array, im: Float64Array): [Float64Array, Float64Array] {
+  const n = re.length;
+  const outRe = new Float64Array(n);
+  const outIm = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    for (let t = 0; t < n; t++) {
+      const angle = -2 * Math.PI * k * t / n;
+      outRe[k] += re[t] * Math.cos(angle) - im[t] * Math.sin(angle);
+      outIm[k] += re[t] * Math.sin(angle) + im[t] * Math.cos(angle);
+    }
+  }
+  return [outRe, outIm];
+}
+
+describe('FFT', () => {
+  test('rejects sizes that are not a power of two', () => {
+    expect(() => new FFT(48)).toThrow('power of two');
+    expect(() => new FFT(1)).toThrow('power of two');
+  });
+
+  test('rejects mismatched input length', () => {
+    const fft = new FFT(8);
+    expect(() => fft.forward(new Float64Array(4), new Float64Array(4))).toThrow('length');
+  });
+
+  test('matches the reference DFT', () => {
+    const size = 64;
+    const re = Float64Array.from({ length: size }, (_, i) => Math.sin(i * 0.3) + (i % 5) * 0.1);
+    const im = Float64Array.from({ length: size }, (_, i) => Math.cos(i * 0.7) * 0.5);
+    const [expectedRe, expectedIm] = dft(re, im);
+
+    new FFT(size).forward(re, im);
+    for (let k = 0; k < size; k++) {
+      expect(re[k]).toBeCloseTo(expectedRe[k], 9);
+      expect(im[k]).toBeCloseTo(expectedIm[k], 9);
+    }
+  });
+
+  test('single tone lands in its bin', () => {
+    const size = 256;
+    const re = Float64Array.from({ length: size }, (_, i) => Math.cos(2 * Math.PI * 10 * i / size));
+    const im = new Float64Array(size);
+
+    new FFT(size).forward(re, im);
+    expect(re[10]).toBeCloseTo(size / 2, 9);
+    expect(re[size - 10]).toBeCloseTo(size / 2, 9);
+    expect(Math.abs(re[11]) + Math.abs(im[11])).toBeLessThan(1e-9);
+  });
+
+  test('inverse restores the input', () => {
+    const size = 128;
+    const original = Float64Array.from({ length: size }, (_, i) => ((i * 37) % 11) - 5);
+    const re = Float64Array.from(original);
+    const im = new Float64Array(size);
+    const fft = new FFT(size);
+
+    fft.forward(re, im);
+    fft.inverse(re, im);
+    for (let i = 0; i < size; i++) {
+      expect(re[i]).toBeCloseTo(original[i], 9);
+      expect(im[i]).toBeCloseTo(0, 9);
+    }
+  });
+});
@@ -0,0 +1,52 @@
+// Tests for Goertzel and SlidingToneBank - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { Goertzel, SlidingToneBank } from '../../src/dsp/goertzel';
+
+const tone = (frequency: number, length: number, amplitude = 1, sampleRate = 48000) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('Goertzel', () => {
+  test('power is the squared tone amplitude', () => {
+    expect(Goertzel.power(tone(1000, 480, 0.5), 1000, 48000)).toBeCloseTo(0.25, 3);
+  });
+
+  test('orthogonal tone gives no power', () => {
+    // 480 samples = 10 ms, so 100 Hz spacing is orthogonal
+    expect(Goertzel.power(tone(1100, 480), 1000, 48000)).toBeLessThan(1e-6);
+  });
+
+  test('streaming matches block processing', () => {
+    const signal = tone(1234, 777, 0.8);
+    const goertzel = new Goertzel(1234, 48000);
+    for (let i = 0; i < signal.length; i += 100) goertzel.processBuffer(signal.subarray(i, i + 100));
+
+    expect(goertzel.power()).toBeCloseTo(Goertzel.power(signal, 1234, 48000), 9);
+    goertzel.reset();
+    expect(goertzel.power()).toBe(0);
+  });
+});
+
+describe('SlidingToneBank', () => {
+  test('matches Goertzel over the most recent window', () => {
+    const frequencies = [1000, 1100, 1200];
+    const bank = new SlidingToneBank(frequencies, 48000, 480);
+    const signal = new Float32Array([...tone(1100, 1000, 0.7), ...tone(1200, 300, 0.3)]);
+    signal.forEach(sample => bank.process(sample));
+
+    const window = signal.subarray(signal.length - 480);
+    frequencies.forEach((frequency, k) => {
+      expect(bank.powers[k]).toBeCloseTo(Goertzel.power(window, frequency, 48000), 6);
+    });
+  });
+
+  test('follows a tone change within one window', () => {
+    const bank = new SlidingToneBank([1000, 1500], 48000, 480);
+    tone(1000, 2000).forEach(sample => bank.process(sample));
+    expect(bank.powers[0]).toBeCloseTo(1, 3);
+
+    // Continue with the second tone for exactly one window
+    tone(1500, 480).forEach(sample => bank.process(sample));
+    expect(bank.powers[0]).toBeLessThan(0.01);
+    expect(bank.powers[1]).toBeCloseTo(1, 3);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Signal and modem helpers shared by the modem tests
+ */
+import type { BaseModulatorConfig, IModulator } from '../src/core';
+import type { FSKConfig } from '../src/modems/fsk';
+
+// Deterministic uniform noise for reproducible tests
+export function addNoise(signal: Float32Array, level: number, seed = 1): Float32Array {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return signal.map(sample => sample + level * (random() * 2 - 1));
+}
+
+// Multipath channel: sum of delayed copies of the signal
+export function applyChannel(signal: Float32Array, taps: [delay: number, gain: number][]): Float32Array {
+  return signal.map((_, i) => taps.reduce((sum, [delay, gain]) => sum + gain * (signal[i - delay] ?? 0), 0));
+}
+
+// Overwrite one bit of a modulated FSK frame with the given tone
+export function replaceBit(signal: Float32Array, config: FSKConfig, bitIndex: number, bit: number): void {
+  const samplesPerBit = Math.floor(config.sampleRate / config.baudRate);
+  const frequency = bit === 1 ? config.markFrequency : config.spaceFrequency;
+  const start = 2 * samplesPerBit + bitIndex * samplesPerBit; // after the leading padding
+  for (let n = start; n < start + samplesPerBit; n++) {
+    signal[n] = Math.sin(2 * Math.PI * frequency * n / config.sampleRate);
+  }
+}
+
+// Goertzel power of one tone over the whole signal
+export function tonePower(signal: Float32Array, frequency: number, sampleRate = 48000): number {
+  const coeff = 2 * Math.cos(2 * Math.PI * frequency / sampleRate);
+  let s1 = 0, s2 = 0;
+  for (const sample of signal) {
+    const s0 = sample + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+}
+
+// Feed the signal in AudioWorklet render quanta, as the processors do
+export async function demodulateInChunks(core: Pick<IModulator, 'demodulateData'>, signal: Float32Array, chunkSize = 128): Promise<number[]> {
+  const result: number[] = [];
+  for (let i = 0; i < signal.length; i += chunkSize) {
+    result.push(...await core.demodulateData(signal.slice(i, i + chunkSize)));
+  }
+  return result;
+}
+
+// createPair(config, rxConfig) for a core: both ends get config over the defaults,
+// the receiver also gets rxConfig
+export function pairFactory<TConfig extends BaseModulatorConfig, TCore extends { configure(_config: TConfig): void }>(
+  Core: new () => TCore, defaults: TConfig
+) {
+  return (config: Partial<TConfig> = {}, rxConfig: Partial<TConfig> = {}) => {
+    const tx = new Core();
+    const rx = new Core();
+    tx.configure({ ...defaults, ...config });
+    rx.configure({ ...defaults, ...config, ...rxConfig });
+    return { tx, rx };
+  };
+}
+
+export const testData = (length: number, step = 37) => new Uint8Array(Array.from({ length }, (_, i) => (i * step + 11) & 0xFF));
+
+export const silence = (seconds: number, sampleRate = 48000) => new Float32Array(Math.round(sampleRate * seconds));
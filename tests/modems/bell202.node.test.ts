@@ -0,0 +1,155 @@
+// Bell 202 / AFSK1200 Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { Bell202Core, DEFAULT_BELL202_CONFIG } from '../../src/modems/bell202';
+import { addNoise, tonePower, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(Bell202Core, DEFAULT_BELL202_CONFIG);
+
+// Dominant tone (mark = 1, space = 0) in each bit slot, using Goertzel power
+function toneSequence(signal: Float32Array, samplesPerBit: number, count: number): number[] {
+  return Array.from({ length: count }, (_, n) => {
+    const slot = signal.slice(n * samplesPerBit, (n + 1) * samplesPerBit);
+    return tonePower(slot, 1200) > tonePower(slot, 2200) ? 1 : 0;
+  });
+}
+
+// AX.25 UI frame: APRS destination, N0CALL source, no digipeaters, ">test" info field
+const ax25Frame = new Uint8Array([
+  0x82, 0xA0, 0xA4, 0xA6, 0x40, 0x40, 0x60,
+  0x9C, 0x60, 0x86, 0x82, 0x98, 0x98, 0x61,
+  0x03, 0xF0,
+  0x3E, 0x74, 0x65, 0x73, 0x74
+]);
+
+describe('Bell 202 Core', () => {
+  describe('Configuration', () => {
+    test('default profile is Bell 202', () => {
+      const core = new Bell202Core();
+      core.configure({ ...DEFAULT_BELL202_CONFIG });
+      const config = core.getConfig();
+      expect(config.markFrequency).toBe(1200);
+      expect(config.spaceFrequency).toBe(2200);
+      expect(config.baudRate).toBe(1200);
+      expect(core.type).toBe('FSK');
+      expect(core.isReady()).toBe(true);
+    });
+
+    test('throws when not configured', async () => {
+      const core = new Bell202Core();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('HDLC flags are NRZI encoded', async () => {
+      const { tx } = createPair({ txDelayFlags: 2 });
+      const signal = await tx.modulateData(new Uint8Array(0));
+
+      // Flag 01111110 from mark: each 0 toggles the tone, each 1 keeps it
+      expect(toneSequence(signal, 40, 16)).toEqual([0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1]);
+    });
+
+    test('bit stuffing extends runs of ones', async () => {
+      const { tx } = createPair({ txDelayFlags: 1, txTailFlags: 1 });
+      const signal = await tx.modulateData(new Uint8Array([0xFF]));
+      const tones = toneSequence(signal, 40, 8 + 9);
+
+      // After the flag: five ones (no change), stuffed zero (change), three ones
+      expect(tones.slice(8)).toEqual([1, 1, 1, 1, 1, 0, 0, 0, 0]);
+    });
+
+    test('TXDELAY adds whole flags', async () => {
+      const data = new Uint8Array([0x00]);
+      const short = await createPair({ txDelayFlags: 2 }).tx.modulateData(data);
+      const long = await createPair({ txDelayFlags: 10 }).tx.modulateData(data);
+
+      expect(long.length - short.length).toBe(8 * 8 * 40);
+    });
+  });
+
+  describe('Roundtrip', () => {
+    test('AX.25 frame roundtrip', async () => {
+      const { tx, rx } = createPair();
+      const result = await demodulateInChunks(rx, await tx.modulateData(ax25Frame));
+
+      expect(result).toEqual(Array.from(ax25Frame));
+      expect(rx.getStatus().framesReceived).toBe(1);
+    });
+
+    test('payload containing flags and long runs of ones', async () => {
+      const { tx, rx } = createPair();
+      const data = new Uint8Array([0xFF, 0xFF, 0x7E, 0x7E, 0xFE, 0x3F, 0x00, 0x7F]);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(120);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 1.0))).toEqual(Array.from(data));
+    });
+
+    test('44.1 kHz sample rate', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(ax25Frame))).toEqual(Array.from(ax25Frame));
+    });
+
+    test('clock recovery tolerates sample rate mismatch', async () => {
+      const { tx, rx } = createPair({}, { sampleRate: 48100 });
+      const data = new Uint8Array(Array.from({ length: 200 }, (_, i) => i & 0xFF));
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair({ txDelayFlags: 4 });
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+  });
+
+  describe('Error handling', () => {
+    test('frames with a bad FCS are dropped', async () => {
+      const { tx, rx } = createPair();
+      const signal = await tx.modulateData(ax25Frame);
+      // Splice in the tones of a frame whose info byte differs, keeping the original FCS.
+      // NRZI tone parity differs from the flipped bit on, so both splice edges are bit errors.
+      const altered = ax25Frame.slice();
+      altered[18] ^= 0x01;
+      const other = await tx.modulateData(altered);
+      const start = (32 * 8 + 18 * 8 + 4) * 40;
+      signal.set(other.subarray(start, start + 8 * 40), start);
+
+      expect(await demodulateInChunks(rx, signal)).toEqual([]);
+      expect(rx.getStatus().framesReceived).toBe(0);
+      expect(rx.getStatus().fcsErrors).toBe(1);
+    });
+
+    test('noise does not produce frames', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 5), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().framesReceived).toBe(0);
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(ax25Frame));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.framesReceived).toBe(0);
+      expect(status.byteBufferLength).toBe(0);
+      expect(status.flagSync).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+// Chirp Spread Spectrum Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { CSSCore, DEFAULT_CSS_CONFIG } from '../../src/modems/css';
+import { FSKCore, DEFAULT_FSK_CONFIG } from '../../src/modems/fsk';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(CSSCore, DEFAULT_CSS_CONFIG);
+
+// Signal power (unit sine) over the in-band power of uniform noise, in dB
+function inBandSNR(noiseLevel: number, bandwidth = 1000, sampleRate = 48000): number {
+  const noisePower = noiseLevel * noiseLevel / 3 * bandwidth / (sampleRate / 2);
+  return 10 * Math.log10(0.5 / noisePower);
+}
+
+describe('CSS Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new CSSCore();
+      core.configure({ ...DEFAULT_CSS_CONFIG });
+      expect(core.type).toBe('CSS');
+      expect(core.isReady()).toBe(true);
+      expect(core.bitsPerSymbol).toBe(8);
+      expect(core.getConfig().baudRate).toBeCloseTo(1000 / 256, 6);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new CSSCore();
+      expect(() => core.configure({ ...DEFAULT_CSS_CONFIG, spreadingFactor: 4 })).toThrow('Spreading factor');
+      expect(() => core.configure({ ...DEFAULT_CSS_CONFIG, spreadingFactor: 13 })).toThrow('Spreading factor');
+      expect(() => core.configure({ ...DEFAULT_CSS_CONFIG, centerFrequency: 400 })).toThrow('Nyquist');
+      expect(() => core.configure({ ...DEFAULT_CSS_CONFIG, preambleLength: 2 })).toThrow('Preamble');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new CSSCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('frame length follows the symbol count', async () => {
+      const { tx } = createPair({ spreadingFactor: 7 });
+      // 2 bytes + 4 header bytes = 48 bits -> 7 symbols, plus 8 + 2 sync chirps and one symbol of silence
+      const signal = await tx.modulateData(new Uint8Array([0x12, 0x34]));
+      expect(signal.length).toBe((8 + 2 + 7 + 1) * 128 * 48);
+      expect(Math.max(...signal)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe.each([5, 7, 8, 10])('SF%i', (spreadingFactor) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ spreadingFactor });
+      const data = testData(12);
+      const result = await demodulateInChunks(rx, await tx.modulateData(data));
+
+      expect(result).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+  });
+
+  describe('Sensitivity', () => {
+    test('decodes below 0 dB in-band SNR where FSK fails', async () => {
+      const noiseLevel = 12;
+      expect(inBandSNR(noiseLevel)).toBeLessThan(-5);
+      const data = testData(16);
+
+      const { tx, rx } = createPair();
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), noiseLevel))).toEqual(Array.from(data));
+      expect(rx.getSignalQuality().snr).toBeLessThan(0);
+
+      const fsk = new FSKCore();
+      fsk.configure({ ...DEFAULT_FSK_CONFIG });
+      const fskResult = await demodulateInChunks(fsk, addNoise(await fsk.modulateData(data), noiseLevel));
+      expect(fskResult).not.toEqual(Array.from(data));
+    });
+
+    test('higher spreading factor reaches lower SNR', async () => {
+      const noiseLevel = 20;
+      expect(inBandSNR(noiseLevel)).toBeLessThan(-10);
+      const { tx, rx } = createPair({ spreadingFactor: 10 });
+      const data = testData(4);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), noiseLevel))).toEqual(Array.from(data));
+    });
+
+    test('signal quality reports the dechirped SNR', async () => {
+      const { tx, rx } = createPair();
+      await demodulateInChunks(rx, addNoise(await tx.modulateData(testData(16)), 5));
+
+      // Uniform noise of level 5 is about +3.2 dB in a 1 kHz band
+      expect(rx.getSignalQuality().snr).toBeGreaterThan(0);
+      expect(rx.getSignalQuality().snr).toBeLessThan(6);
+    });
+  });
+
+  describe('Robustness', () => {
+    test('arbitrary start offset and gain', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(16);
+      const signal = (await tx.modulateData(data)).map(sample => 0.05 * sample);
+
+      expect(await demodulateInChunks(rx, new Float32Array([...new Float32Array(1234), ...signal]))).toEqual(Array.from(data));
+    });
+
+    test('timing tracks sample clock offset', async () => {
+      const { tx, rx } = createPair({}, { sampleRate: 48010 });
+      const data = testData(40);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('44.1 kHz sample rate with noise', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+      const data = testData(16);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 8))).toEqual(Array.from(data));
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 10), 1, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(rx.getStatus().headerErrors + rx.getStatus().carrierLosses);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair({ spreadingFactor: 7 });
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('empty frame emits eod', async () => {
+      const { tx, rx } = createPair({ spreadingFactor: 7 });
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(new Uint8Array(0)))).toEqual([]);
+      expect(eodCount).toBe(1);
+    });
+
+    test('truncated frame is dropped on carrier loss', async () => {
+      const { tx, rx } = createPair({ spreadingFactor: 7 });
+      const symbolLength = 128 * 48;
+      const truncated = (await tx.modulateData(testData(20))).slice(0, symbolLength * 16);
+      const complete = await tx.modulateData(new Uint8Array([0x42]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...truncated, ...new Float32Array(4 * symbolLength), ...complete]));
+      expect(result).toEqual([0x42]);
+      expect(rx.getStatus().carrierLosses).toBe(1);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const { tx, rx } = createPair({ spreadingFactor: 6, bandwidth: 2000 });
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('CSS')));
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair({ spreadingFactor: 7 });
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.syncState).toBe('search');
+      expect(status.syncDetections).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+      expect(rx.getSignalQuality().snr).toBe(0);
+    });
+  });
+});
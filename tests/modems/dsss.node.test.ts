@@ -0,0 +1,214 @@
+// DSSS Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { DSSSCore, DEFAULT_DSSS_CONFIG } from '../../src/modems/dsss';
+import { FSKCore, DEFAULT_FSK_CONFIG } from '../../src/modems/fsk';
+import { BARKER_CODES, goldCode, mSequence } from '../../src/utils/spreading-codes';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+function addTone(signal: Float32Array, frequency: number, amplitude: number): Float32Array {
+  return signal.map((sample, n) => sample + amplitude * Math.sin(2 * Math.PI * frequency * n / 48000 + 0.3));
+}
+
+const createPair = pairFactory(DSSSCore, DEFAULT_DSSS_CONFIG);
+
+describe('DSSS Core', () => {
+  describe('Configuration', () => {
+    test('default configuration derives the bit rate', () => {
+      const core = new DSSSCore();
+      core.configure({ ...DEFAULT_DSSS_CONFIG });
+      expect(core.type).toBe('PSK');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().baudRate).toBe(100);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new DSSSCore();
+      expect(() => core.configure({ ...DEFAULT_DSSS_CONFIG, spreadingCode: [1, -1, 1] })).toThrow('spreading code');
+      expect(() => core.configure({ ...DEFAULT_DSSS_CONFIG, spreadingCode: [1, 0, 1, 1, 0, 1, 1] })).toThrow('spreading code');
+      expect(() => core.configure({ ...DEFAULT_DSSS_CONFIG, carrierFrequency: 1000 })).toThrow('Nyquist');
+      expect(() => core.configure({ ...DEFAULT_DSSS_CONFIG, preambleBits: 4 })).toThrow('preamble');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new DSSSCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('each bit is the spreading code on the carrier', async () => {
+      const { tx } = createPair();
+      const signal = await tx.modulateData(new Uint8Array(0));
+      const samplesPerChip = 48000 / 1300;
+
+      // Preamble bit 1: chip k carries code[k] as the sign of the carrier
+      const code = BARKER_CODES[13];
+      for (let k = 0; k < code.length; k++) {
+        let correlation = 0;
+        const start = Math.round((13 + k) * samplesPerChip);
+        const end = Math.round((13 + k + 1) * samplesPerChip);
+        for (let n = start; n < end; n++) correlation += signal[n] * Math.sin(2 * Math.PI * 2000 * n / 48000);
+        expect(Math.sign(correlation)).toBe(code[k]);
+      }
+    });
+  });
+
+  describe('Roundtrip', () => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(30);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+      expect(rx.getStatus().acquisitions).toBe(1);
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test.each([
+      ['Barker 11', { spreadingCode: BARKER_CODES[11], chipRate: 1100 }],
+      ['Barker 7', { spreadingCode: BARKER_CODES[7], chipRate: 1400 }],
+      ['m-sequence 63', { spreadingCode: mSequence([6, 5]), chipRate: 1890 }]
+    ])('%s with noise above the signal level', async (_name, config) => {
+      const { tx, rx } = createPair(config);
+      const data = testData(20);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 1.5))).toEqual(Array.from(data));
+    });
+
+    test('weak signal with offset', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(20);
+      const signal = (await tx.modulateData(data)).map(sample => 0.1 * sample);
+
+      expect(await demodulateInChunks(rx, addNoise(new Float32Array([...new Float32Array(3333), ...signal]), 0.05))).toEqual(Array.from(data));
+    });
+
+    test('tracks sample clock and carrier offset', async () => {
+      const data = testData(30);
+      for (const rxConfig of [{ sampleRate: 48100 }, { carrierFrequency: 2005 }]) {
+        const { tx, rx } = createPair({}, rxConfig);
+        expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+      }
+    });
+
+    test('44.1 kHz sample rate', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+      const data = testData(20);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+  });
+
+  describe('Interference', () => {
+    test.each([
+      ['on the carrier', 2000, 3],
+      ['whistle near the carrier', 2100, 2],
+      ['strong tone', 2300, 10]
+    ])('tone %s', async (_name, frequency, amplitude) => {
+      const { tx, rx } = createPair();
+      const data = testData(30);
+
+      expect(await demodulateInChunks(rx, addTone(await tx.modulateData(data), frequency, amplitude))).toEqual(Array.from(data));
+    });
+
+    test('hum harmonics and a sweeping whistle', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(30);
+      const signal = (await tx.modulateData(data)).map((sample, n) => {
+        const t = n / 48000;
+        const hum = [50, 150, 250, 350].reduce((sum, f) => sum + 0.5 * Math.sin(2 * Math.PI * f * t), 0);
+        const whistle = 2 * Math.sin(2 * Math.PI * (1500 * t + 250 * t * t));
+        return sample + hum + whistle;
+      });
+
+      expect(await demodulateInChunks(rx, signal)).toEqual(Array.from(data));
+    });
+
+    test('a whistle that breaks FSK does not break DSSS', async () => {
+      const data = testData(30);
+      const fskTx = new FSKCore();
+      const fskRx = new FSKCore();
+      fskTx.configure({ ...DEFAULT_FSK_CONFIG });
+      fskRx.configure({ ...DEFAULT_FSK_CONFIG });
+      const fskResult = await demodulateInChunks(fskRx, addTone(await fskTx.modulateData(data), DEFAULT_FSK_CONFIG.markFrequency, 1.5));
+      expect(fskResult).not.toEqual(Array.from(data));
+
+      const { tx, rx } = createPair();
+      expect(await demodulateInChunks(rx, addTone(await tx.modulateData(data), 1650, 3))).toEqual(Array.from(data));
+    });
+
+    test('users with different Gold codes share the band', async () => {
+      const first = createPair({ spreadingCode: goldCode(5, 1), chipRate: 1550 });
+      const second = createPair({ spreadingCode: goldCode(5, 10), chipRate: 1550 });
+      const firstData = testData(30);
+      const secondData = firstData.map(byte => byte ^ 0x5A);
+      const a = await first.tx.modulateData(firstData);
+      const b = await second.tx.modulateData(secondData);
+      const mixed = new Float32Array(Math.max(a.length, b.length + 500));
+      a.forEach((sample, i) => mixed[i] += sample);
+      b.forEach((sample, i) => mixed[i + 500] += sample);
+
+      expect(await demodulateInChunks(first.rx, mixed)).toEqual(Array.from(firstData));
+      expect(await demodulateInChunks(second.rx, mixed)).toEqual(Array.from(secondData));
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 3), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(rx.getStatus().headerErrors);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...new Float32Array(9600), ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('truncated frame is dropped on lock loss', async () => {
+      const { tx, rx } = createPair();
+      const truncated = (await tx.modulateData(testData(20))).slice(0, 480 * 60);
+      const complete = await tx.modulateData(new Uint8Array([0x42]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...truncated, ...new Float32Array(9600), ...complete]));
+      expect(result).toEqual([0x42]);
+      expect(rx.getStatus().lockLosses).toBeGreaterThanOrEqual(1);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const { tx, rx } = createPair({ spreadingCode: BARKER_CODES[7], chipRate: 1400 });
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('DSSS')));
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.locked).toBe(false);
+      expect(status.acquisitions).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+// DTMF Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { DTMFCore, DTMFConfig, DEFAULT_DTMF_CONFIG, DTMF_DIGITS } from '../../src/modems/dtmf';
+import { Goertzel } from '../../src/dsp/goertzel';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, testData, silence } from '../helpers';
+
+// Tone pair of the given length and amplitudes, followed by 100 ms of silence
+function tonePair(low: number, high: number, durationMs: number, lowAmplitude = 0.5, highAmplitude = 0.5, sampleRate = 48000): Float32Array {
+  const toneSamples = Math.round(sampleRate * durationMs / 1000);
+  const output = new Float32Array(toneSamples + sampleRate / 10);
+  for (let i = 0; i < toneSamples; i++) {
+    const t = i / sampleRate;
+    output[i] = lowAmplitude * Math.sin(2 * Math.PI * low * t) + highAmplitude * Math.sin(2 * Math.PI * high * t);
+  }
+  return output;
+}
+
+function createCore(config: Partial<DTMFConfig> = {}) {
+  const core = new DTMFCore();
+  core.configure({ ...DEFAULT_DTMF_CONFIG, ...config } as DTMFConfig);
+  return core;
+}
+
+function collectDigits(core: DTMFCore): string[] {
+  const digits: string[] = [];
+  core.on('digit', (event) => digits.push((event.data as { digit: string }).digit));
+  return digits;
+}
+
+
+describe('DTMF Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = createCore();
+      expect(core.type).toBe('DTMF');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().baudRate).toBeCloseTo(1000 / 120, 6);
+    });
+
+    test('rejects tones shorter than Q.24 minimum', () => {
+      const core = new DTMFCore();
+      expect(() => core.configure({ ...DEFAULT_DTMF_CONFIG, toneDurationMs: 30 })).toThrow('40 ms');
+      expect(() => core.configure({ ...DEFAULT_DTMF_CONFIG, pauseDurationMs: 20 })).toThrow('40 ms');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new DTMFCore();
+      await expect(core.modulateDigits('1')).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('digit is the Q.23 tone pair', async () => {
+      const core = createCore();
+      const tone = (await core.modulateDigits('5')).subarray(0, 48000 * 70 / 1000);
+
+      expect(Goertzel.power(tone, 770, 48000)).toBeCloseTo(0.25, 2);
+      expect(Goertzel.power(tone, 1336, 48000)).toBeCloseTo(0.25, 2);
+      expect(Goertzel.power(tone, 697, 48000)).toBeLessThan(0.01);
+      expect(Goertzel.power(tone, 1477, 48000)).toBeLessThan(0.01);
+    });
+
+    test('tone and pause durations', async () => {
+      const core = createCore({ toneDurationMs: 50, pauseDurationMs: 60 });
+      expect((await core.modulateDigits('123')).length).toBe(3 * 48000 * 110 / 1000);
+    });
+
+    test('rejects invalid digits', async () => {
+      const core = createCore();
+      await expect(core.modulateDigits('12E')).rejects.toThrow('Invalid DTMF digit: E');
+    });
+  });
+
+  describe('Digit detection', () => {
+    test('all sixteen keys', async () => {
+      const core = createCore();
+      const digits = collectDigits(core);
+
+      await demodulateInChunks(core, await core.modulateDigits('123A456B789C*0#D'));
+      expect(digits.join('')).toBe('123A456B789C*0#D');
+    });
+
+    test('repeated digits are separated by the pause', async () => {
+      const core = createCore({ toneDurationMs: 40, pauseDurationMs: 40 });
+      const digits = collectDigits(core);
+
+      await demodulateInChunks(core, await core.modulateDigits('1111'));
+      expect(digits.join('')).toBe('1111');
+    });
+
+    test('noise and 44.1 kHz sample rate', async () => {
+      const core = createCore({ sampleRate: 44100 });
+      const digits = collectDigits(core);
+
+      await demodulateInChunks(core, addNoise(await core.modulateDigits('0123456789'), 0.3));
+      expect(digits.join('')).toBe('0123456789');
+    });
+
+    test('tones shorter than the minimum duration are rejected', async () => {
+      const core = createCore();
+      const digits = collectDigits(core);
+
+      await demodulateInChunks(core, tonePair(770, 1336, 20));
+      expect(digits).toEqual([]);
+      await demodulateInChunks(core, tonePair(770, 1336, 40));
+      expect(digits).toEqual(['5']);
+    });
+
+    test('twist limits', async () => {
+      const core = createCore();
+      const digits = collectDigits(core);
+
+      // High group 6 dB above the low group exceeds the 4 dB forward twist
+      await demodulateInChunks(core, tonePair(852, 1477, 70, 0.25, 0.5));
+      expect(digits).toEqual([]);
+      expect(core.getStatus().twistRejects).toBeGreaterThan(0);
+
+      // Low group 6 dB above the high group is within the 8 dB reverse twist
+      await demodulateInChunks(core, tonePair(852, 1477, 70, 0.5, 0.25));
+      expect(digits).toEqual(['9']);
+    });
+
+    test('single tones, weak tones and noise are not digits', async () => {
+      const core = createCore();
+      const digits = collectDigits(core);
+
+      await demodulateInChunks(core, tonePair(941, 941, 200));
+      await demodulateInChunks(core, tonePair(697, 1209, 100, 0.005, 0.005));
+      await demodulateInChunks(core, addNoise(silence(2), 0.5, 7));
+      expect(digits).toEqual([]);
+    });
+  });
+
+  describe('Byte API', () => {
+    test('bytes are packed as two digits', async () => {
+      const core = createCore();
+      const digits = collectDigits(core);
+
+      const result = await demodulateInChunks(core, await core.modulateData(new Uint8Array([0x1F, 0xA0])));
+      expect(result).toEqual([0x1F, 0xA0]);
+      expect(digits.join('')).toBe(DTMF_DIGITS[1] + DTMF_DIGITS[15] + DTMF_DIGITS[10] + DTMF_DIGITS[0]);
+    });
+
+    test('roundtrip with noise', async () => {
+      const core = createCore();
+      const data = testData(16);
+
+      expect(await demodulateInChunks(core, addNoise(await core.modulateData(data), 0.2))).toEqual(Array.from(data));
+    });
+
+    test('eod after the sequence and odd digit discarded', async () => {
+      const core = createCore();
+      let eodCount = 0;
+      core.on('eod', () => eodCount++);
+
+      const result = await demodulateInChunks(core, new Float32Array([
+        ...await core.modulateDigits('123'), ...silence(0.3),
+        ...await core.modulateData(new Uint8Array([0x42])), ...silence(0.3)
+      ]));
+      expect(result).toEqual([0x12, 0x42]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const core = createCore({ toneDurationMs: 40, pauseDurationMs: 40 });
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('DTMF')));
+      const chunked = new ChunkedModulator(core);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await core.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      received.push(...await core.demodulateData(silence(0.1)));
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const core = createCore();
+      await core.demodulateData(await core.modulateDigits('7'));
+      core.reset();
+      const status = core.getStatus();
+      expect(status.digits).toBe(0);
+      expect(status.pendingNibble).toBe(false);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
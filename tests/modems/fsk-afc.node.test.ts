@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData } from '../helpers';
+
+describe('FSK Automatic Frequency Control', () => {
+  const config: FSKConfig = { ...DEFAULT_FSK_CONFIG, baudRate: 1200, afcEnabled: true };
+  const payload = testData(32);
+
+  // Transmitter with both tones shifted, received after leading silence
+  async function receive(offset: number, rxConfig: Partial<FSKConfig> = {}, noise = 0) {
+    const tx = new FSKCore();
+    const rx = new FSKCore();
+    tx.configure({ ...config, markFrequency: config.markFrequency + offset, spaceFrequency: config.spaceFrequency + offset });
+    rx.configure({ ...config, ...rxConfig });
+    const signal = new Float32Array([...new Float32Array(1000), ...await tx.modulateData(payload)]);
+    const received = await demodulateInChunks(rx, addNoise(signal, noise));
+    return { rx, received };
+  }
+
+  test('is off by default', async () => {
+    const { rx, received } = await receive(20, { afcEnabled: DEFAULT_FSK_CONFIG.afcEnabled });
+
+    expect(received).toEqual(Array.from(payload));
+    expect(rx.getStatus().afcOffset).toBe(0);
+  });
+
+  test.each([50, -50])('offset of %i Hz is corrected', async (offset) => {
+    const { received } = await receive(offset, { afcEnabled: false });
+    expect(received).not.toEqual(Array.from(payload));
+
+    const { rx, received: corrected } = await receive(offset);
+    expect(corrected).toEqual(Array.from(payload));
+    expect(rx.getStatus().afcOffset).toBeGreaterThan(offset - 5);
+    expect(rx.getStatus().afcOffset).toBeLessThan(offset + 5);
+  });
+
+  test.each([60, 20, -40])('reports the estimated offset of %i Hz with noise', async (offset) => {
+    const { rx, received } = await receive(offset, {}, 0.3);
+
+    expect(received).toEqual(Array.from(payload));
+    expect(rx.getSignalQuality().frequencyOffset).toBeGreaterThan(offset - 3);
+    expect(rx.getSignalQuality().frequencyOffset).toBeLessThan(offset + 3);
+  });
+
+  test('offset is reported without correction when AFC is disabled', async () => {
+    const { rx, received } = await receive(20, { afcEnabled: false });
+
+    expect(received).toEqual(Array.from(payload));
+    expect(rx.getStatus().afcOffset).toBe(0);
+    expect(rx.getSignalQuality().frequencyOffset).toBeCloseTo(20, 0);
+  });
+
+  test('correction is limited to the capture range', async () => {
+    const { rx } = await receive(50, { afcRange: 20 });
+
+    expect(rx.getStatus().afcOffset).toBeGreaterThan(15);
+    expect(rx.getStatus().afcOffset).toBeLessThanOrEqual(20);
+    // The residual beyond the range is still measured
+    expect(rx.getSignalQuality().frequencyOffset).toBeGreaterThan(45);
+    expect(rx.getSignalQuality().frequencyOffset).toBeLessThan(55);
+  });
+
+  test('noise does not move the oscillator', async () => {
+    const rx = new FSKCore();
+    rx.configure(config);
+    await demodulateInChunks(rx, addNoise(new Float32Array(48000), 0.5));
+
+    expect(Math.abs(rx.getStatus().afcOffset)).toBeLessThan(10);
+  });
+
+  test('reset clears the correction', async () => {
+    const { rx } = await receive(40);
+    expect(rx.getStatus().afcOffset).toBeGreaterThan(30);
+
+    rx.reset();
+    expect(rx.getStatus().afcOffset).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig, type FSKReceiveError } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData } from '../helpers';
+
+function createCore(config: Partial<FSKConfig>): FSKCore {
+  const core = new FSKCore();
+  core.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  return core;
+}
+
+// Phase-continuous 8N1 line at the default tones: the preamble, the SFD and the data
+// characters, each followed by the given idle mark in bits
+function lineSignal(data: Uint8Array, idleBits: (index: number) => number): Float32Array {
+  const { sampleRate, baudRate, markFrequency, spaceFrequency } = DEFAULT_FSK_CONFIG;
+  const runs: [bit: number, bits: number][] = [[1, 2]];
+  [0x55, 0x55, 0x7E, ...data].forEach((byte, i) => {
+    runs.push([0, 1]);
+    for (let k = 7; k >= 0; k--) runs.push([(byte >> k) & 1, 1]);
+    runs.push([1, 1 + (i < 2 ? 0 : idleBits(i - 2))]);
+  });
+  runs.push([1, 2]);
+
+  const samples: number[] = [];
+  let phase = 0, bits = 0;
+  for (const [bit, length] of runs) {
+    const end = Math.round((bits += length) * sampleRate / baudRate);
+    while (samples.length < end) {
+      phase += 2 * Math.PI * (bit ? markFrequency : spaceFrequency) / sampleRate;
+      samples.push(Math.sin(phase));
+    }
+  }
+  return new Float32Array(samples);
+}
+
+describe('FSK Character Format', () => {
+  const payload = testData(100);
+
+  test.each([
+    ['7E1', { dataBits: 7, parity: 'even' }],
+    ['8N2', { stopBits: 2 }],
+    ['8N1.5', { stopBits: 1.5 }],
+    ['5N1.5 LSB first', { dataBits: 5, bitOrder: 'lsb', stopBits: 1.5 }],
+    ['8N1 LSB first', { bitOrder: 'lsb' }],
+    ['6O2', { dataBits: 6, parity: 'odd', stopBits: 2 }]
+  ] as [string, Partial<FSKConfig>][])('%s roundtrip with noise', async (_name, config) => {
+    const tx = createCore(config);
+    const rx = createCore(config);
+    const errors: FSKReceiveError[] = [];
+    rx.on('receiveError', event => errors.push(event.data as FSKReceiveError));
+    const mask = (1 << (config.dataBits ?? 8)) - 1;
+
+    const received = await demodulateInChunks(rx, addNoise(await tx.modulateData(payload), 0.3));
+    expect(received).toEqual(Array.from(payload, byte => byte & mask));
+    expect(errors).toEqual([]);
+  });
+
+  test.each([[2, 1], [1.5, 1], [2, 1.5]])('%s stop bits sent into %s received', async (txStopBits, rxStopBits) => {
+    const tx = createCore({ stopBits: txStopBits });
+    const rx = createCore({ stopBits: rxStopBits });
+    const errors: FSKReceiveError[] = [];
+    rx.on('receiveError', event => errors.push(event.data as FSKReceiveError));
+
+    expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(payload), 0.3))).toEqual(Array.from(payload));
+    expect(errors).toEqual([]);
+  });
+
+  test('idle mark between characters', async () => {
+    const rx = createCore({});
+    const errors: FSKReceiveError[] = [];
+    rx.on('receiveError', event => errors.push(event.data as FSKReceiveError));
+    // Fractions of a bit up to three bits, and a pause of half a second every tenth character
+    const signal = lineSignal(payload, i => i % 10 === 9 ? 600 : (i * 0.37) % 3);
+
+    expect(await demodulateInChunks(rx, addNoise(signal, 0.3))).toEqual(Array.from(payload));
+    expect(errors).toEqual([]);
+  });
+
+  test('character length follows the format', async () => {
+    const samplesPerBit = 40;
+    const length = async (config: Partial<FSKConfig>) => (await createCore(config).modulateData(payload)).length;
+    // Preamble, SFD and data characters plus two bits of padding and one character of silence
+    const expected = (bitsPerCharacter: number) => Math.round((3 + payload.length + 1) * bitsPerCharacter * samplesPerBit) + 2 * samplesPerBit;
+
+    expect(await length({})).toBe(expected(10));
+    expect(await length({ dataBits: 7, parity: 'even' })).toBe(expected(10));
+    expect(await length({ stopBits: 1.5 })).toBe(expected(10.5));
+    expect(await length({ dataBits: 5, stopBits: 2 })).toBe(expected(8));
+  });
+
+  test('LSB-first characters read MSB first are bit-reversed', async () => {
+    const tx = createCore({ bitOrder: 'lsb' });
+    // 0x55 sent LSB first is 0xAA on the line; 0x7E is a palindrome
+    const rx = createCore({ preamblePattern: [0xAA, 0xAA] });
+    const reverse = (byte: number) => parseInt(byte.toString(2).padStart(8, '0').split('').reverse().join(''), 2);
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload, reverse));
+  });
+
+  test('soft output has one LLR per data bit', async () => {
+    const tx = createCore({ dataBits: 7, bitOrder: 'lsb' });
+    const rx = createCore({ dataBits: 7, bitOrder: 'lsb' });
+    const signal = await tx.modulateData(payload);
+
+    const bytes: number[] = [];
+    const llr: number[] = [];
+    for (let i = 0; i < signal.length; i += 128) {
+      const result = await rx.demodulateSoft(signal.slice(i, i + 128));
+      bytes.push(...result.bytes);
+      llr.push(...result.llr);
+    }
+    expect(bytes).toEqual(Array.from(payload, byte => byte & 0x7F));
+    expect(llr.length).toBe(bytes.length * 7);
+    // MSB first like the byte, whatever the line order
+    llr.forEach((value, i) => expect(Math.sign(value)).toBe((bytes[Math.floor(i / 7)] >> (6 - i % 7)) & 1 ? 1 : -1));
+  });
+
+  test('rejects unsupported formats', () => {
+    const core = new FSKCore();
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, dataBits: 9 })).toThrow('data bits');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, dataBits: 4 })).toThrow('data bits');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, dataBits: 7.5 })).toThrow('data bits');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, stopBits: 0.5 })).toThrow('stop bits');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, stopBits: 3 })).toThrow('stop bits');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig, type FSKReceiveError } from '../../src/modems/fsk';
+import { demodulateInChunks, testData, replaceBit } from '../helpers';
+
+describe('FSK Receive Errors', () => {
+  const payload = testData(10);
+  let errors: FSKReceiveError[];
+
+  function createPair(config: Partial<FSKConfig> = {}, rxConfig: Partial<FSKConfig> = {}) {
+    const txConfig = { ...DEFAULT_FSK_CONFIG, ...config };
+    const tx = new FSKCore();
+    const rx = new FSKCore();
+    tx.configure(txConfig);
+    rx.configure({ ...txConfig, ...rxConfig });
+    rx.on('receiveError', event => errors.push(event.data as FSKReceiveError));
+    return { tx, rx, txConfig };
+  }
+
+  beforeEach(() => {
+    errors = [];
+  });
+
+  test.each(['even', 'odd'] as const)('%s parity roundtrip reports no errors', async (parity) => {
+    const { tx, rx } = createPair({ parity });
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload));
+    expect(errors).toEqual([]);
+    expect(rx.getStatus()).toMatchObject({ parityErrors: 0, framingErrors: 0, headerErrors: 0 });
+  });
+
+  test('parity error drops the byte and the frame continues', async () => {
+    const { tx, rx, txConfig } = createPair({ parity: 'even' });
+    const signal = await tx.modulateData(payload);
+    // Inverted parity bit of data byte 4 (after 2 preamble bytes and the SFD, 11 bits each)
+    const evenParity = (payload[4].toString(2).split('1').length - 1) & 1;
+    replaceBit(signal, txConfig, (3 + 4) * 11 + 9, evenParity ^ 1);
+
+    const expected = Array.from(payload);
+    expected.splice(4, 1);
+    expect(await demodulateInChunks(rx, signal)).toEqual(expected);
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toMatchObject({ type: 'parity', byteIndex: 4 });
+    expect(rx.getStatus().parityErrors).toBe(1);
+  });
+
+  test('parity mismatch between ends rejects every byte', async () => {
+    const { tx, rx } = createPair({ parity: 'odd' }, { parity: 'even', syncThreshold: 0.8 });
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual([]);
+    expect(errors.map(error => error.type)).toEqual(Array(payload.length).fill('parity'));
+    expect(errors.map(error => error.byteIndex)).toEqual(Array.from(payload, (_, i) => i));
+    expect(rx.getStatus().parityErrors).toBe(payload.length);
+  });
+
+  test('missing stop bit reports a framing error with its position', async () => {
+    const { tx, rx, txConfig } = createPair();
+    const signal = await tx.modulateData(payload);
+    // Stop bit of data byte 6
+    const bitIndex = (3 + 6) * 10 + 9;
+    replaceBit(signal, txConfig, bitIndex, 0);
+
+    const received = await demodulateInChunks(rx, signal);
+    expect(received).toEqual(Array.from(payload.slice(0, 6)));
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toMatchObject({ type: 'framing', byteIndex: 6 });
+    // Detected within the corrupted stop bit, allowing for filter delay
+    const samplesPerBit = Math.floor(txConfig.sampleRate / txConfig.baudRate);
+    expect(errors[0].samplePosition).toBeGreaterThan((2 + bitIndex) * samplesPerBit);
+    expect(errors[0].samplePosition).toBeLessThan((2 + bitIndex + 2) * samplesPerBit);
+    expect(rx.getStatus().framingErrors).toBe(1);
+  });
+
+  test('one call returns every byte of a long frame', async () => {
+    const { tx, rx } = createPair({ baudRate: 4800, markFrequency: 7200, spaceFrequency: 9600 });
+    const data = new Uint8Array(5000).map((_, i) => i & 0xFF);
+
+    // One call for the whole signal: bytes are only collected when it returns
+    const received = await rx.demodulateData(await tx.modulateData(data));
+    expect(Array.from(received)).toEqual(Array.from(data));
+    expect(errors).toEqual([]);
+  });
+
+  test('reset clears error counters', async () => {
+    const { tx, rx } = createPair({ parity: 'odd' }, { parity: 'even', syncThreshold: 0.8 });
+    await demodulateInChunks(rx, await tx.modulateData(payload));
+    expect(rx.getStatus().parityErrors).toBeGreaterThan(0);
+
+    rx.reset();
+    expect(rx.getStatus()).toMatchObject({ parityErrors: 0, framingErrors: 0, headerErrors: 0 });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import type { IModulationStream } from '../../src/core';
+import { testData } from '../helpers';
+
+function createCore(config: Partial<FSKConfig> = {}): FSKCore {
+  const core = new FSKCore();
+  core.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  return core;
+}
+
+// Pulls the whole stream in chunks of the given size
+function drain(stream: IModulationStream, chunkSize: number): Float32Array {
+  const output = new Float32Array(stream.totalSamples);
+  let position = 0;
+  let count: number;
+  while ((count = stream.fillSamples(output.subarray(position, position + chunkSize))) > 0) {
+    position += count;
+  }
+  expect(position).toBe(stream.totalSamples);
+  return output;
+}
+
+const payload = testData(20);
+
+describe('FSK Modulation Stream', () => {
+  test.each([
+    ['default', {}],
+    ['sync framing', { framing: 'sync' as const }],
+    ['7E1 LSB first, 1.5 stop bits', { dataBits: 7, parity: 'even' as const, bitOrder: 'lsb' as const, stopBits: 1.5 }],
+    ['sync word', { syncWord: [1, 1, 1, 1, 1, 0, 0, 1, 1, 0, 1, 0, 1] }],
+    ['transmit envelope', { txRampTime: 0.005, txDelay: 0.02, txTail: 0.01, txLevel: 0.5 }]
+  ] as [string, Partial<FSKConfig>][])('%s: same signal as modulateData in any chunk size', async (_name, config) => {
+    const core = createCore(config);
+    const signal = await core.modulateData(payload);
+
+    for (const chunkSize of [1, 127, 128, 5000]) {
+      const stream = core.createModulationStream(payload);
+      expect(stream.totalSamples).toBe(signal.length);
+      expect(drain(stream, chunkSize)).toEqual(signal);
+    }
+  });
+
+  test('empty data sends the preamble only', async () => {
+    const core = createCore();
+    const stream = core.createModulationStream(new Uint8Array(0));
+    expect(drain(stream, 128)).toEqual(await core.modulateData(new Uint8Array(0)));
+  });
+
+  test('keeps the configuration at creation', async () => {
+    const core = createCore();
+    const signal = await core.modulateData(payload);
+    const stream = core.createModulationStream(payload);
+    const output = new Float32Array(stream.totalSamples);
+    stream.fillSamples(output.subarray(0, 1000));
+
+    core.configure({ ...DEFAULT_FSK_CONFIG, baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 });
+    stream.fillSamples(output.subarray(1000));
+    expect(output).toEqual(signal);
+  });
+
+  test('large payload is generated as it is pulled', () => {
+    const core = createCore({ framing: 'sync' });
+    const data = new Uint8Array(0xFFFF);
+    const stream = core.createModulationStream(data);
+    // Padding, preamble and SFD characters, length header, payload, idle mark and trailing silence
+    expect(stream.totalSamples).toBe((2 + 3 * 10 + 32 + 8 * 0xFFFF + 1 + 10) * 40);
+
+    // Pull only the start and check the signal is the preamble carrier
+    const chunk = new Float32Array(128);
+    stream.fillSamples(chunk);
+    stream.fillSamples(chunk);
+    expect(Math.max(...chunk.map(Math.abs))).toBeGreaterThan(0.99);
+  });
+
+  test('rejects like modulateData', () => {
+    expect(() => new FSKCore().createModulationStream(payload)).toThrow('FSK modulator not configured');
+    expect(() => createCore({ framing: 'sync' }).createModulationStream(new Uint8Array(0x10000))).toThrow('FSK frame too long');
+  });
+});
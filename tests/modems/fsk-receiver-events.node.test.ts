@@ -0,0 +1,91 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig, type FSKCarrierDetect, type FSKSync, type FSKEndOfData } from '../../src/modems/fsk';
+import { addNoise, testData } from '../helpers';
+
+type ReceiverEvent =
+  | { type: 'dcd'; data: FSKCarrierDetect }
+  | { type: 'sync'; data: FSKSync }
+  | { type: 'eod'; data: FSKEndOfData };
+
+// Receiver events in order of arrival
+async function receiveEvents(config: Partial<FSKConfig>, signal: Float32Array, chunkSize = 128) {
+  const rx = new FSKCore();
+  rx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  const events: ReceiverEvent[] = [];
+  for (const type of ['dcd', 'sync', 'eod'] as const) {
+    rx.on(type, event => events.push({ type, data: event.data } as ReceiverEvent));
+  }
+  const received: number[] = [];
+  for (let i = 0; i < signal.length; i += chunkSize) {
+    received.push(...await rx.demodulateData(signal.slice(i, i + chunkSize)));
+  }
+  return { rx, events, received };
+}
+
+async function modulate(config: Partial<FSKConfig>, data: Uint8Array): Promise<Float32Array> {
+  const tx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  return tx.modulateData(data);
+}
+
+const payload = testData(20);
+
+describe('FSK Receiver Events', () => {
+  test('carrier detect brackets the frame, sync and end of data in between', async () => {
+    const signal = await modulate({}, payload);
+    const leading = 4800;
+    const { events, received } = await receiveEvents({}, new Float32Array([...new Float32Array(leading), ...signal, ...new Float32Array(4800)]));
+
+    expect(received).toEqual(Array.from(payload));
+    expect(events.map(event => event.type === 'dcd' ? `dcd:${event.data.active}` : event.type)).toEqual(['dcd:true', 'sync', 'dcd:false', 'eod']);
+    const [carrierOn, sync, carrierOff, endOfData] = events.map(event => event.data.samplePosition);
+    // On within the preamble, after the padding and before the SFD
+    expect(carrierOn).toBeGreaterThan(leading + 2 * 40);
+    expect(carrierOn).toBeLessThan(leading + (2 + 20) * 40);
+    expect(sync).toBeGreaterThan(carrierOn);
+    // Off and end of data within a character of the end of the last byte
+    const end = leading + signal.length - 10 * 40;
+    for (const position of [carrierOff, endOfData]) {
+      expect(position).toBeGreaterThan(end);
+      expect(position).toBeLessThan(end + 10 * 40);
+    }
+  });
+
+  test('sample positions do not depend on the chunk size', async () => {
+    const signal = await modulate({}, payload);
+    const small = await receiveEvents({}, signal, 128);
+    const large = await receiveEvents({}, signal, 1000);
+
+    expect(large.events).toEqual(small.events);
+  });
+
+  test.each([
+    ['discriminator', {}],
+    ['tone', { detector: 'tone' as const, baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 }]
+  ])('%s: noise alone does not raise carrier detect', async (_name, config) => {
+    const { rx, events } = await receiveEvents(config, addNoise(new Float32Array(48000 * 3), 0.5, 7));
+
+    expect(events.filter(event => event.type === 'dcd')).toEqual([]);
+    expect(rx.getStatus().carrierDetected).toBe(false);
+  });
+
+  test('tone detector detects the carrier in noise above the signal level', async () => {
+    const config = { detector: 'tone' as const, baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 };
+    const signal = addNoise(await modulate(config, payload), 1.0);
+    const { events, received } = await receiveEvents(config, signal);
+
+    expect(received).toEqual(Array.from(payload));
+    expect(events[0]).toMatchObject({ type: 'dcd', data: { active: true } });
+  });
+
+  test('reset drops carrier detect without an event', async () => {
+    const signal = await modulate({}, payload);
+    const { rx, events } = await receiveEvents({}, signal.slice(0, signal.length / 2));
+    expect(rx.getStatus().carrierDetected).toBe(true);
+
+    const count = events.length;
+    rx.reset();
+    expect(rx.getStatus().carrierDetected).toBe(false);
+    expect(events.length).toBe(count);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import { addNoise, testData } from '../helpers';
+
+async function receive(signalTransform: (signal: Float32Array) => Float32Array, txConfig: Partial<FSKConfig> = {}) {
+  const tx = new FSKCore();
+  const rx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...txConfig });
+  rx.configure({ ...DEFAULT_FSK_CONFIG });
+  const data = testData(60);
+  const signal = signalTransform(await tx.modulateData(data));
+
+  const received: number[] = [];
+  for (let i = 0; i < signal.length; i += 128) {
+    received.push(...await rx.demodulateData(signal.slice(i, i + 128)));
+  }
+  expect(received).toEqual(Array.from(data));
+  return rx.getSignalQuality();
+}
+
+describe('FSK Signal Quality', () => {
+  test('clean signal has an open eye and no frequency offset', async () => {
+    const quality = await receive(signal => signal);
+
+    // Intersymbol interference of the filters is not counted as noise
+    expect(quality.snr).toBeGreaterThan(14);
+    expect(quality.ber).toBeLessThan(1e-6);
+    expect(quality.eyeOpening).toBeGreaterThan(0.25);
+    expect(quality.phaseJitter).toBeGreaterThan(0);
+    expect(quality.phaseJitter).toBeLessThan(Math.PI / 4);
+    expect(Math.abs(quality.frequencyOffset)).toBeLessThan(5);
+  });
+
+  test('noise lowers SNR and closes the eye', async () => {
+    const clean = await receive(signal => signal);
+    const noisy = await receive(signal => addNoise(signal, 0.4));
+
+    expect(noisy.snr).toBeLessThan(clean.snr);
+    expect(noisy.ber).toBeGreaterThan(clean.ber);
+    expect(noisy.eyeOpening).toBeLessThan(clean.eyeOpening);
+    expect(noisy.phaseJitter).toBeGreaterThan(clean.phaseJitter);
+  });
+
+  test('SNR falls and phase jitter rises with every noise level', async () => {
+    const levels = [0, 0.2, 0.4, 0.5];
+    const qualities = [];
+    for (const level of levels) qualities.push(await receive(signal => addNoise(signal, level)));
+
+    for (let i = 1; i < levels.length; i++) {
+      expect(qualities[i].snr).toBeLessThan(qualities[i - 1].snr);
+      expect(qualities[i].phaseJitter).toBeGreaterThan(qualities[i - 1].phaseJitter);
+    }
+  });
+
+  test.each([10, -10])('reports a carrier offset of %i Hz', async (offset) => {
+    const quality = await receive(signal => signal, {
+      markFrequency: DEFAULT_FSK_CONFIG.markFrequency + offset,
+      spaceFrequency: DEFAULT_FSK_CONFIG.spaceFrequency + offset
+    });
+
+    expect(quality.frequencyOffset).toBeGreaterThan(offset - 3);
+    expect(quality.frequencyOffset).toBeLessThan(offset + 3);
+  });
+
+  test('noise without a frame reports no quality', async () => {
+    const rx = new FSKCore();
+    rx.configure({ ...DEFAULT_FSK_CONFIG });
+    await rx.demodulateData(addNoise(new Float32Array(48000), 0.5));
+
+    expect(rx.getSignalQuality()).toEqual({ snr: 0, ber: 0, eyeOpening: 0, phaseJitter: 0, frequencyOffset: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG } from '../../src/modems/fsk';
+import { addNoise, testData } from '../helpers';
+
+async function demodulateSoftInChunks(core: FSKCore, signal: Float32Array, chunkSize = 128) {
+  const bytes: number[] = [];
+  const llr: number[] = [];
+  for (let i = 0; i < signal.length; i += chunkSize) {
+    const result = await core.demodulateSoft(signal.slice(i, i + chunkSize));
+    bytes.push(...result.bytes);
+    llr.push(...result.llr);
+  }
+  return { bytes, llr };
+}
+
+function hardBits(bytes: number[]): number[] {
+  return bytes.flatMap(byte => Array.from({ length: 8 }, (_, k) => (byte >> (7 - k)) & 1));
+}
+
+describe('FSK Soft Decision', () => {
+  const payload = testData(60);
+
+  function createPair() {
+    const tx = new FSKCore();
+    const rx = new FSKCore();
+    tx.configure({ ...DEFAULT_FSK_CONFIG });
+    rx.configure({ ...DEFAULT_FSK_CONFIG });
+    return { tx, rx };
+  }
+
+  // Noise over data bytes 20-29 (after the leading padding, two preamble bytes and the SFD)
+  async function receiveWithBurst(level: number, seed: number) {
+    const { tx, rx } = createPair();
+    const signal = await tx.modulateData(payload);
+    const samplesPerBit = 40;
+    const start = (2 + (3 + 20) * 10) * samplesPerBit;
+    const end = (2 + (3 + 30) * 10) * samplesPerBit;
+    signal.set(addNoise(signal.slice(start, end), level, seed), start);
+    return demodulateSoftInChunks(rx, signal);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  test('LLR signs follow the hard decisions of a clean signal', async () => {
+    const { tx, rx } = createPair();
+    const { bytes, llr } = await demodulateSoftInChunks(rx, await tx.modulateData(payload));
+
+    expect(bytes).toEqual(Array.from(payload));
+    expect(llr.length).toBe(bytes.length * 8);
+    hardBits(bytes).forEach((bit, i) => expect(Math.sign(llr[i])).toBe(bit ? 1 : -1));
+    expect(mean(llr.map(Math.abs))).toBeGreaterThan(10);
+  });
+
+  test('a noise burst lowers the confidence of the bits it hits', async () => {
+    const { bytes, llr } = await receiveWithBurst(0.8, 1);
+    expect(bytes).toEqual(Array.from(payload));
+
+    const magnitudes = llr.map(Math.abs);
+    expect(mean(magnitudes.slice(20 * 8, 30 * 8))).toBeLessThan(mean(magnitudes.slice(0, 20 * 8)) / 2);
+  });
+
+  test('wrong bits carry low confidence', async () => {
+    const { bytes, llr } = await receiveWithBurst(1.0, 5);
+    expect(bytes.length).toBe(payload.length);
+
+    const sent = hardBits(Array.from(payload));
+    const errors = hardBits(bytes).map((bit, i) => bit !== sent[i]);
+    expect(errors.some(Boolean)).toBe(true);
+    const magnitudes = llr.map(Math.abs);
+    const median = [...magnitudes].sort((a, b) => a - b)[magnitudes.length >> 1];
+    magnitudes.filter((_, i) => errors[i]).forEach(magnitude => expect(magnitude).toBeLessThan(median / 4));
+  });
+
+  test('demodulateData and demodulateSoft share the receive buffer', async () => {
+    const { tx, rx } = createPair();
+    const signal = await tx.modulateData(payload);
+    const half = Math.floor(signal.length / 2);
+
+    const first = await rx.demodulateData(signal.slice(0, half));
+    const second = await rx.demodulateSoft(signal.slice(half));
+    expect([...first, ...second.bytes]).toEqual(Array.from(payload));
+    expect(second.llr.length).toBe(second.bytes.length * 8);
+
+    rx.reset();
+    expect((await rx.demodulateSoft(new Float32Array(128))).llr.length).toBe(0);
+  });
+});
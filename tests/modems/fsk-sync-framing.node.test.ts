@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig, type FSKReceiveError } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData, replaceBit } from '../helpers';
+
+describe('FSK Synchronous Framing', () => {
+  const syncConfig: FSKConfig = { ...DEFAULT_FSK_CONFIG, framing: 'sync' };
+  let errors: FSKReceiveError[];
+
+  function createPair(config: Partial<FSKConfig> = {}) {
+    const tx = new FSKCore();
+    const rx = new FSKCore();
+    tx.configure({ ...syncConfig, ...config });
+    rx.configure({ ...syncConfig, ...config });
+    rx.on('receiveError', event => errors.push(event.data as FSKReceiveError));
+    return { tx, rx };
+  }
+
+  beforeEach(() => {
+    errors = [];
+  });
+
+  test.each([1, 2, 100, 1000])('roundtrip of %i bytes', async (length) => {
+    const { tx, rx } = createPair();
+    const data = testData(length);
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    expect(errors).toEqual([]);
+  });
+
+  test('all-zero and all-one payloads keep bit alignment', async () => {
+    const { tx, rx } = createPair();
+    for (const byte of [0x00, 0xFF]) {
+      const data = new Uint8Array(50).fill(byte);
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    }
+  });
+
+  test('payload takes 8 bits per byte instead of 10', async () => {
+    const data = testData(200);
+    const uart = new FSKCore();
+    uart.configure({ ...DEFAULT_FSK_CONFIG });
+    const { tx } = createPair();
+
+    const uartLength = (await uart.modulateData(data)).length;
+    const syncLength = (await tx.modulateData(data)).length;
+    const samplesPerBit = 40;
+    expect(uartLength - syncLength).toBe((200 * 2 - 32 - 1) * samplesPerBit);
+  });
+
+  test('consecutive frames with noise', async () => {
+    const { tx, rx } = createPair();
+    const first = await tx.modulateData(testData(30));
+    const second = await tx.modulateData(testData(20).map(byte => byte ^ 0xFF));
+    const signal = addNoise(new Float32Array([...first, ...new Float32Array(4800), ...second]), 0.5);
+
+    expect(await demodulateInChunks(rx, signal)).toEqual([...testData(30), ...testData(20).map(byte => byte ^ 0xFF)]);
+  });
+
+  test('empty payload produces no bytes', async () => {
+    const { tx, rx } = createPair();
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(new Uint8Array(0)))).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+
+  test('corrupted length header drops the frame', async () => {
+    const { tx, rx } = createPair();
+    const signal = await tx.modulateData(testData(10));
+    // Lowest bit of the length complement, after 2 preamble bytes and the SFD (10 bits each)
+    replaceBit(signal, syncConfig, 30 + 31, 0);
+
+    expect(await demodulateInChunks(rx, signal)).toEqual([]);
+    expect(errors.map(error => error.type)).toEqual(['header']);
+    expect(rx.getStatus().headerErrors).toBe(1);
+  });
+
+  test('soft output covers the payload bits', async () => {
+    const { tx, rx } = createPair();
+    const data = testData(20);
+    const signal = await tx.modulateData(data);
+
+    const bytes: number[] = [];
+    const llr: number[] = [];
+    for (let i = 0; i < signal.length; i += 128) {
+      const result = await rx.demodulateSoft(signal.slice(i, i + 128));
+      bytes.push(...result.bytes);
+      llr.push(...result.llr);
+    }
+    expect(bytes).toEqual(Array.from(data));
+    expect(llr.length).toBe(data.length * 8);
+    llr.forEach((value, i) => expect(Math.sign(value)).toBe((data[i >> 3] >> (7 - (i & 7))) & 1 ? 1 : -1));
+  });
+
+  test('rejects payloads beyond the 16-bit length header', async () => {
+    const { tx } = createPair();
+    await expect(tx.modulateData(new Uint8Array(0x10000))).rejects.toThrow('too long');
+  });
+});
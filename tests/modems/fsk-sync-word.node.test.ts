@@ -0,0 +1,121 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig, type FSKSync } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData } from '../helpers';
+
+const BARKER_13 = [1, 1, 1, 1, 1, 0, 0, 1, 1, 0, 1, 0, 1];
+// CCSDS attached sync marker 0x1ACFFC1D
+const ACCESS_CODE = Array.from({ length: 32 }, (_, i) => (0x1ACFFC1D >>> (31 - i)) & 1);
+
+const payload = testData(40);
+
+function createPair(config: Partial<FSKConfig> = {}) {
+  const tx = new FSKCore();
+  const rx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  rx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  const syncs: FSKSync[] = [];
+  rx.on('sync', event => syncs.push(event.data as FSKSync));
+  return { tx, rx, syncs };
+}
+
+describe('FSK Sync Word', () => {
+  describe.each([
+    ['Barker-13', BARKER_13],
+    ['32-bit access code', ACCESS_CODE]
+  ])('%s', (_name, syncWord) => {
+    test('roundtrip with noise reports the correlation peak at the frame start', async () => {
+      const { tx, rx, syncs } = createPair({ syncWord });
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(payload), 0.3))).toEqual(Array.from(payload));
+      expect(syncs.length).toBe(1);
+      expect(syncs[0].correlation).toBeGreaterThan(0.9);
+      expect(syncs[0].correlation).toBeLessThanOrEqual(1);
+      // Within two bits after the end of the word: padding, preamble and the word
+      const end = (2 + 20 + syncWord.length) * 40;
+      expect(syncs[0].samplePosition).toBeGreaterThan(end);
+      expect(syncs[0].samplePosition).toBeLessThan(end + 2 * 40);
+    });
+
+    test('sync framing and consecutive frames', async () => {
+      const { tx, rx, syncs } = createPair({ syncWord, framing: 'sync' });
+      const first = await tx.modulateData(payload);
+      const second = await tx.modulateData(new Uint8Array([0x00, 0xFF, 0x42]));
+
+      const signal = addNoise(new Float32Array([...first, ...new Float32Array(4800), ...second]), 0.2);
+      expect(await demodulateInChunks(rx, signal)).toEqual([...payload, 0x00, 0xFF, 0x42]);
+      expect(syncs.length).toBe(2);
+    });
+
+    test('tone detector in noise above the signal level', async () => {
+      const { tx, rx, syncs } = createPair({ syncWord, detector: 'tone', baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 });
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(payload), 1.5))).toEqual(Array.from(payload));
+      expect(syncs.length).toBe(1);
+    });
+  });
+
+  test('sync word takes the place of the SFD characters', async () => {
+    const sfd = createPair();
+    const barker = createPair({ syncWord: BARKER_13 });
+
+    const difference = (await barker.tx.modulateData(payload)).length - (await sfd.tx.modulateData(payload)).length;
+    expect(difference).toBe((13 - 10) * 40);
+  });
+
+  test('carrier offset is corrected over the preamble and the sync word', async () => {
+    const { rx } = createPair({ syncWord: ACCESS_CODE, afcEnabled: true });
+    const tx = new FSKCore();
+    tx.configure({
+      ...DEFAULT_FSK_CONFIG, syncWord: ACCESS_CODE,
+      markFrequency: DEFAULT_FSK_CONFIG.markFrequency + 20, spaceFrequency: DEFAULT_FSK_CONFIG.spaceFrequency + 20
+    });
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload));
+    expect(rx.getStatus().afcOffset).toBeGreaterThan(15);
+    expect(rx.getStatus().afcOffset).toBeLessThan(25);
+  });
+
+  test('32-bit access code is found in noise that hides the SFD', async () => {
+    const sfd = createPair();
+    await demodulateInChunks(sfd.rx, addNoise(await sfd.tx.modulateData(payload), 1.0));
+    expect(sfd.syncs).toEqual([]);
+
+    const { tx, rx, syncs } = createPair({ syncWord: ACCESS_CODE });
+    const clean = createPair({ syncWord: ACCESS_CODE });
+    const signal = await tx.modulateData(payload);
+    await demodulateInChunks(clean.rx, signal);
+    await demodulateInChunks(rx, addNoise(signal, 1.0));
+    expect(syncs.length).toBe(1);
+    expect(Math.abs(syncs[0].samplePosition - clean.syncs[0].samplePosition)).toBeLessThan(20);
+  });
+
+  test('false frame starts on noise follow the configured rate', async () => {
+    const countSyncs = async (syncFalseAlarmRate: number) => {
+      const { rx, syncs } = createPair({ syncWord: BARKER_13, syncFalseAlarmRate });
+      for (let second = 0; second < 10; second++) {
+        await rx.demodulateData(addNoise(new Float32Array(48000), 0.5, second + 1));
+      }
+      return syncs.length;
+    };
+
+    expect(await countSyncs(DEFAULT_FSK_CONFIG.syncFalseAlarmRate)).toBe(0);
+    const count = await countSyncs(10);
+    expect(count).toBeGreaterThan(10 * 10 / 4);
+    expect(count).toBeLessThan(10 * 10 * 2);
+  });
+
+  test('without a sync word the sync event reports the pattern match ratio', async () => {
+    const { tx, rx, syncs } = createPair();
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload));
+    expect(syncs.length).toBe(1);
+    expect(syncs[0].correlation).toBeGreaterThan(DEFAULT_FSK_CONFIG.syncThreshold);
+  });
+
+  test('rejects invalid sync words and false alarm rates', () => {
+    const core = new FSKCore();
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, syncWord: [1, 0, 1, 1, 0] })).toThrow('FSK sync word must be at least 7 bits');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, syncWord: [1, 1, 1, -1, -1, 1, -1] })).toThrow('FSK sync word');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, syncWord: BARKER_13, syncFalseAlarmRate: 0 })).toThrow('FSK sync false alarm rate must be positive');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import { testData } from '../helpers';
+
+// Capture the signal with a receive clock running fast by the given ppm (linear interpolation)
+function resample(signal: Float32Array, ppm: number): Float32Array {
+  const ratio = 1 / (1 + ppm * 1e-6);
+  const output = new Float32Array(Math.floor((signal.length - 1) / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    output[i] = signal[index] * (1 - fraction) + signal[index + 1] * fraction;
+  }
+  return output;
+}
+
+async function receive(config: Partial<FSKConfig>, ppm: number, length: number) {
+  const tx = new FSKCore();
+  const rx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  rx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  const data = testData(length);
+  const signal = resample(await tx.modulateData(data), ppm);
+
+  const received: number[] = [];
+  for (let i = 0; i < signal.length; i += 128) {
+    received.push(...await rx.demodulateData(signal.slice(i, i + 128)));
+  }
+  expect(received).toEqual(Array.from(data));
+  return rx;
+}
+
+describe('FSK Timing Recovery', () => {
+  // Without recovery the sampling point drifts a whole bit within the frame
+  test.each([300, -300, 1000, -1000])('1000 bytes at 1200 baud with %i ppm clock skew', async (ppm) => {
+    const rx = await receive({ baudRate: 1200 }, ppm, 1000);
+
+    expect(rx.getStatus().clockSkew).toBeGreaterThan(ppm - 150);
+    expect(rx.getStatus().clockSkew).toBeLessThan(ppm + 150);
+  });
+
+  test('300 bytes at 300 baud with 1000 ppm clock skew', async () => {
+    const rx = await receive({ baudRate: 300 }, 1000, 300);
+
+    expect(rx.getStatus().clockSkew).toBeGreaterThan(1000 - 150);
+    expect(rx.getStatus().clockSkew).toBeLessThan(1000 + 150);
+  });
+
+  test('matched clocks report no skew', async () => {
+    const rx = await receive({ baudRate: 1200 }, 0, 200);
+
+    expect(Math.abs(rx.getStatus().clockSkew)).toBeLessThan(100);
+  });
+
+  test('reset clears the measured skew', async () => {
+    const rx = await receive({ baudRate: 1200 }, 1000, 200);
+    expect(rx.getStatus().clockSkew).toBeGreaterThan(0);
+
+    rx.reset();
+    expect(rx.getStatus().clockSkew).toBe(0);
+  });
+});
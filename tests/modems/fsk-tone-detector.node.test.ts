@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData } from '../helpers';
+
+// Bell 202 tones at 300 baud: a shift wider than the baud rate suits both detectors
+const WIDE_SHIFT: Partial<FSKConfig> = { baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 };
+const payload = testData(40);
+
+function createPair(detector: FSKConfig['detector'], config: Partial<FSKConfig> = WIDE_SHIFT, txConfig: Partial<FSKConfig> = {}) {
+  const tx = new FSKCore();
+  const rx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...config, ...txConfig });
+  rx.configure({ ...DEFAULT_FSK_CONFIG, ...config, detector });
+  return { tx, rx };
+}
+
+describe.each(['discriminator', 'tone'] as const)('FSK %s detector', (detector) => {
+  test('clean roundtrip', async () => {
+    const { tx, rx } = createPair(detector);
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload));
+    expect(rx.getSignalQuality().snr).toBeGreaterThan(15);
+  });
+
+  test('roundtrip with noise', async () => {
+    const { tx, rx } = createPair(detector);
+
+    expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(payload), 1.0))).toEqual(Array.from(payload));
+  });
+
+  test('consecutive frames across odd chunk sizes', async () => {
+    const { tx, rx } = createPair(detector);
+    const first = await tx.modulateData(payload.slice(0, 10));
+    const second = await tx.modulateData(payload.slice(10, 20));
+
+    expect(await demodulateInChunks(rx, new Float32Array([...first, ...second]), 100)).toEqual(Array.from(payload.slice(0, 20)));
+  });
+
+  test('shares character formats and synchronous framing', async () => {
+    for (const format of [{ dataBits: 7, parity: 'even', stopBits: 1.5 }, { framing: 'sync' }] as Partial<FSKConfig>[]) {
+      const { tx, rx } = createPair(detector, { ...WIDE_SHIFT, ...format });
+      const mask = (1 << (format.dataBits ?? 8)) - 1;
+      expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload, byte => byte & mask));
+    }
+  });
+
+  test('noise alone produces no data', async () => {
+    const { rx } = createPair(detector);
+
+    expect(await demodulateInChunks(rx, addNoise(new Float32Array(48000 * 2), 0.5, 7))).toEqual([]);
+  });
+});
+
+describe('FSK tone detector', () => {
+  test('decodes a shift too wide for the discriminator', async () => {
+    const config: Partial<FSKConfig> = { baudRate: 300, markFrequency: 1000, spaceFrequency: 3000 };
+    const discriminator = createPair('discriminator', config);
+    const tone = createPair('tone', config);
+    const signal = addNoise(await tone.tx.modulateData(payload), 0.5);
+
+    expect(await demodulateInChunks(discriminator.rx, signal)).not.toEqual(Array.from(payload));
+    expect(await demodulateInChunks(tone.rx, signal)).toEqual(Array.from(payload));
+  });
+
+  test('tolerates a carrier offset without AFC and reports none', async () => {
+    const { tx, rx } = createPair('tone', WIDE_SHIFT, { markFrequency: 1230, spaceFrequency: 2230 });
+
+    expect(await demodulateInChunks(rx, await tx.modulateData(payload))).toEqual(Array.from(payload));
+    expect(rx.getStatus().afcOffset).toBe(0);
+    expect(rx.getSignalQuality().frequencyOffset).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import { FSKCore, DEFAULT_FSK_CONFIG, type FSKConfig } from '../../src/modems/fsk';
+import { addNoise, demodulateInChunks, testData } from '../helpers';
+
+async function modulate(config: Partial<FSKConfig>, data: Uint8Array): Promise<Float32Array> {
+  const tx = new FSKCore();
+  tx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+  return tx.modulateData(data);
+}
+
+// Peak magnitude over a range of samples
+function peak(signal: Float32Array, start: number, end: number): number {
+  return signal.subarray(start, end).reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+// First and one past the last non-zero sample
+function carrierBounds(signal: Float32Array): [number, number] {
+  const first = signal.findIndex(sample => sample !== 0);
+  let last = signal.length - 1;
+  while (last > first && signal[last] === 0) last--;
+  return [first, last + 1];
+}
+
+const payload = testData(20);
+const samplesPerBit = 40;
+
+describe('FSK Transmit Envelope', () => {
+  test('default envelope keeps the hard start and stop at full level', async () => {
+    const signal = await modulate({}, payload);
+    const [start, end] = carrierBounds(signal);
+
+    expect(start).toBeLessThanOrEqual(2 * samplesPerBit + 1);
+    expect(peak(signal, start, start + samplesPerBit)).toBeGreaterThan(0.99);
+    expect(peak(signal, end - samplesPerBit, end)).toBeGreaterThan(0.99);
+  });
+
+  test('level scales the output', async () => {
+    const signal = await modulate({ txLevel: 0.25 }, payload);
+
+    expect(peak(signal, 0, signal.length)).toBeGreaterThan(0.24);
+    expect(peak(signal, 0, signal.length)).toBeLessThanOrEqual(0.25);
+  });
+
+  test('raised-cosine ramps start and stop the carrier without a step', async () => {
+    const rampSamples = 0.005 * 48000;
+    const signal = await modulate({ txRampTime: 0.005, txLevel: 0.8 }, payload);
+    const [start, end] = carrierBounds(signal);
+
+    // Both ends fade from silence: tiny first and last samples, no large step anywhere
+    expect(Math.abs(signal[start])).toBeLessThan(0.001);
+    expect(Math.abs(signal[end - 1])).toBeLessThan(0.01);
+    let maxStep = 0;
+    for (let i = 1; i < signal.length; i++) maxStep = Math.max(maxStep, Math.abs(signal[i] - signal[i - 1]));
+    expect(maxStep).toBeLessThan(0.8 * 2 * Math.PI * 1850 / 48000 + 0.01);
+    // Rising over the first ramp, full level after it
+    expect(peak(signal, start, start + rampSamples / 4)).toBeLessThan(0.8 * 0.2);
+    expect(peak(signal, start + rampSamples, start + rampSamples + samplesPerBit)).toBeGreaterThan(0.79);
+    expect(peak(signal, end - rampSamples / 4, end)).toBeLessThan(0.8 * 0.2);
+  });
+
+  test('ramps within the leading padding and trailing silence keep the frame in place', async () => {
+    const hard = await modulate({}, payload);
+    const ramped = await modulate({ txRampTime: 0.001 }, payload);
+
+    expect(ramped.length).toBe(hard.length);
+    // Bits at full level are unchanged
+    const frameStart = 2 * samplesPerBit;
+    expect(Array.from(ramped.subarray(frameStart + 100, frameStart + 200))).toEqual(
+      Array.from(hard.subarray(frameStart, frameStart + 100)).map((_, i) => ramped[frameStart + 100 + i])
+    );
+    expect(peak(ramped, 0, frameStart - 0.001 * 48000)).toBe(0);
+  });
+
+  test('TX delay and tail add mark carrier around the frame', async () => {
+    const hard = await modulate({}, payload);
+    const config = { txRampTime: 0.002, txDelay: 0.05, txTail: 0.02 };
+    const signal = await modulate(config, payload);
+    const [start, end] = carrierBounds(signal);
+
+    const lead = (0.002 + 0.05) * 48000;
+    const tail = (0.02 + 0.002) * 48000;
+    const frame = hard.length - 2 * samplesPerBit - 10 * samplesPerBit;
+    // The carrier starts at zero phase
+    expect(start).toBe(1);
+    expect(end).toBe(lead + frame + tail);
+    // The tail replaces the trailing silence it is longer than
+    expect(signal.length).toBe(end);
+
+    // Lead and tail are the mark tone: zero crossings at twice its frequency
+    const crossings = (from: number, to: number) => {
+      let count = 0;
+      for (let i = from + 1; i < to; i++) if (Math.sign(signal[i]) !== Math.sign(signal[i - 1])) count++;
+      return count;
+    };
+    const leadSeconds = 0.05 - 0.01;
+    expect(crossings(0.005 * 48000, 0.045 * 48000)).toBeCloseTo(2 * 1650 * leadSeconds, -1);
+  });
+
+  test.each([
+    ['ramps', { txRampTime: 0.005 }],
+    ['ramps, TX delay and tail at a low level', { txRampTime: 0.005, txDelay: 0.1, txTail: 0.05, txLevel: 0.1 }],
+    ['tone detector', { txRampTime: 0.005, txDelay: 0.1, detector: 'tone' as const, baudRate: 300, markFrequency: 1200, spaceFrequency: 2200 }],
+    ['sync framing', { txRampTime: 0.005, txTail: 0.05, framing: 'sync' as const }]
+  ] as [string, Partial<FSKConfig>][])('%s: roundtrip with noise', async (_name, config) => {
+    const rx = new FSKCore();
+    rx.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+    const signal = await modulate(config, payload);
+    const level = config.txLevel ?? 1;
+
+    expect(await demodulateInChunks(rx, addNoise(signal, 0.2 * level))).toEqual(Array.from(payload));
+  });
+
+  test('rejects invalid envelopes', () => {
+    const core = new FSKCore();
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, txLevel: 0 })).toThrow('FSK transmit level must be between 0 and 1');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, txLevel: 1.5 })).toThrow('FSK transmit level must be between 0 and 1');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, txRampTime: -0.001 })).toThrow('must not be negative');
+    expect(() => core.configure({ ...DEFAULT_FSK_CONFIG, txDelay: -1 })).toThrow('must not be negative');
+  });
+});
@@ -0,0 +1,199 @@
+// MSK / GMSK Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { GMSKCore, DEFAULT_GMSK_CONFIG } from '../../src/modems/gmsk';
+import { FSKCore, DEFAULT_FSK_CONFIG } from '../../src/modems/fsk';
+import { FFT } from '../../src/dsp/fft';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(GMSKCore, DEFAULT_GMSK_CONFIG);
+
+// Fraction of the signal power (dB) further than `halfWidth` from `center`
+function outOfBandPower(signal: Float32Array, center: number, halfWidth: number, sampleRate = 48000): number {
+  const size = 65536;
+  const fft = new FFT(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < Math.min(size, signal.length); i++) {
+    re[i] = signal[i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / size));
+  }
+  fft.forward(re, im);
+
+  let inBand = 0, outOfBand = 0;
+  for (let k = 0; k < size / 2; k++) {
+    const power = re[k] * re[k] + im[k] * im[k];
+    if (Math.abs(k * sampleRate / size - center) <= halfWidth) inBand += power;
+    else outOfBand += power;
+  }
+  return 10 * Math.log10(outOfBand / (inBand + outOfBand));
+}
+
+describe('GMSK Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new GMSKCore();
+      core.configure({ ...DEFAULT_GMSK_CONFIG });
+      expect(core.type).toBe('FSK');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().bt).toBe(0.5);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new GMSKCore();
+      expect(() => core.configure({ ...DEFAULT_GMSK_CONFIG, carrierFrequency: 500 })).toThrow('Nyquist');
+      expect(() => core.configure({ ...DEFAULT_GMSK_CONFIG, preambleBits: 8 })).toThrow('preamble');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new GMSKCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('constant envelope and continuous phase', async () => {
+      const { tx } = createPair();
+      const signal = await tx.modulateData(testData(16));
+
+      expect(Math.max(...signal.map(Math.abs))).toBeLessThanOrEqual(1);
+      // Instantaneous frequency never exceeds carrier ± baudRate/4, so sample steps stay small
+      const maxStep = 2 * Math.PI * (1800 + 300) / 48000;
+      for (let i = 1; i < signal.length; i++) {
+        expect(Math.abs(signal[i] - signal[i - 1])).toBeLessThanOrEqual(maxStep + 1e-6);
+      }
+    });
+
+    test('Gaussian shaping keeps the spectrum compact', async () => {
+      const data = testData(200);
+      const gmsk = await createPair({ bt: 0.3 }).tx.modulateData(data);
+      const msk = await createPair({ bt: 0 }).tx.modulateData(data);
+      const fsk = new FSKCore();
+      fsk.configure({ ...DEFAULT_FSK_CONFIG, markFrequency: 1500, spaceFrequency: 2100 });
+      const abrupt = await fsk.modulateData(data);
+
+      // Power outside ±0.75 × baud (a channel spacing of 1.5 × baud)
+      const gmskLeak = outOfBandPower(gmsk, 1800, 900);
+      expect(gmskLeak).toBeLessThan(-35);
+      expect(gmskLeak).toBeLessThan(outOfBandPower(msk, 1800, 900) - 10);
+      expect(gmskLeak).toBeLessThan(outOfBandPower(abrupt, 1800, 900) - 10);
+    });
+  });
+
+  describe.each([
+    ['MSK', 0],
+    ['GMSK BT=0.3', 0.3],
+    ['GMSK BT=0.5', 0.5]
+  ])('%s', (_name, bt) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ bt });
+      const data = testData(100);
+      const result = await demodulateInChunks(rx, await tx.modulateData(data));
+
+      expect(result).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ bt });
+      const data = testData(100);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.5))).toEqual(Array.from(data));
+    });
+  });
+
+  describe('Robustness', () => {
+    test('adjacent channels 1.5 × baud apart', async () => {
+      const first = createPair({ carrierFrequency: 1500, bt: 0.3 });
+      const second = createPair({ carrierFrequency: 3300, bt: 0.3 });
+      const firstData = testData(100);
+      const secondData = firstData.map(byte => byte ^ 0x5A);
+      const a = await first.tx.modulateData(firstData);
+      const b = await second.tx.modulateData(secondData);
+      const mixed = a.map((sample, i) => sample + (b[i] ?? 0));
+
+      expect(await demodulateInChunks(first.rx, mixed)).toEqual(Array.from(firstData));
+      expect(await demodulateInChunks(second.rx, mixed)).toEqual(Array.from(secondData));
+    });
+
+    test('arbitrary start offset and gain', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(30);
+      const signal = (await tx.modulateData(data)).map(sample => 0.05 * sample);
+
+      expect(await demodulateInChunks(rx, new Float32Array([...new Float32Array(1234), ...signal]))).toEqual(Array.from(data));
+    });
+
+    test('timing tracks sample clock offset', async () => {
+      const { tx, rx } = createPair({}, { sampleRate: 48100 });
+      const data = testData(200);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('44.1 kHz sample rate', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+      const data = testData(100);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 3), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(rx.getStatus().headerErrors + rx.getStatus().carrierLosses);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('truncated frame is dropped on carrier loss', async () => {
+      const { tx, rx } = createPair();
+      const truncated = (await tx.modulateData(testData(20))).slice(0, 40 * 100);
+      const complete = await tx.modulateData(new Uint8Array([0x42]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...truncated, ...new Float32Array(4800), ...complete]));
+      expect(result).toEqual([0x42]);
+      expect(rx.getStatus().carrierLosses).toBe(1);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const { tx, rx } = createPair();
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('GMSK')));
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.syncDetections).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// MFSK Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { MFSKCore, DEFAULT_MFSK_CONFIG } from '../../src/modems/mfsk';
+import { Goertzel } from '../../src/dsp/goertzel';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, applyChannel, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(MFSKCore, DEFAULT_MFSK_CONFIG);
+
+describe('MFSK Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new MFSKCore();
+      core.configure({ ...DEFAULT_MFSK_CONFIG });
+      expect(core.type).toBe('FSK');
+      expect(core.isReady()).toBe(true);
+      expect(core.bitsPerSymbol).toBe(4);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new MFSKCore();
+      expect(() => core.configure({ ...DEFAULT_MFSK_CONFIG, order: 6 })).toThrow('Unsupported MFSK order');
+      expect(() => core.configure({ ...DEFAULT_MFSK_CONFIG, order: 32, toneSpacing: 1000 })).toThrow('Nyquist');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new MFSKCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('each symbol is a single tone with Gray-coded value', async () => {
+      const { tx } = createPair();
+      // Values 4, 5, 6, 7 sit on tones 7, 6, 4, 5: neighbouring tones differ in one bit
+      const signal = await tx.modulateData(new Uint8Array([0x45, 0x67]));
+      const symbolLength = 480;
+      const dataStart = (8 + 8) * symbolLength;
+
+      const tones = [0, 1, 2, 3].map(n => {
+        const symbol = signal.subarray(dataStart + n * symbolLength, dataStart + (n + 1) * symbolLength);
+        const powers = Array.from({ length: 16 }, (_, m) => Goertzel.power(symbol, 1000 + m * 100, 48000));
+        expect(Math.max(...powers)).toBeCloseTo(1, 2);
+        return powers.indexOf(Math.max(...powers));
+      });
+      expect(tones).toEqual([7, 6, 4, 5]);
+    });
+  });
+
+  describe.each([4, 8, 16, 32])('%i tones', (order) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(50);
+      const result = await demodulateInChunks(rx, await tx.modulateData(data));
+
+      expect(result).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(40);
+      const result = await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 1.5));
+
+      expect(result).toEqual(Array.from(data));
+    });
+  });
+
+  describe('Robustness', () => {
+    test('room echo', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(100);
+      // Direct path plus early reflections and a late echo (5, 12 and 40 ms)
+      const channel: [number, number][] = [[0, 0.5], [240, 0.25], [576, -0.2], [1920, 0.15]];
+      const result = await demodulateInChunks(rx, applyChannel(await tx.modulateData(data), channel));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test.each([4, 32])('room echo with %i tones', async (order) => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(100);
+      const channel: [number, number][] = [[0, 0.5], [240, 0.25], [576, -0.2], [1920, 0.15]];
+      const result = await demodulateInChunks(rx, applyChannel(await tx.modulateData(data), channel));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('echo and noise together', async () => {
+      const { tx, rx } = createPair({ order: 8 });
+      const data = testData(60);
+      const channel: [number, number][] = [[0, 0.5], [300, 0.2], [1500, 0.15]];
+      const result = await demodulateInChunks(rx, addNoise(applyChannel(await tx.modulateData(data), channel), 0.5));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('arbitrary start offset and gain', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(30);
+      const signal = (await tx.modulateData(data)).map(sample => 0.05 * sample);
+
+      expect(await demodulateInChunks(rx, new Float32Array([...new Float32Array(1234), ...signal]))).toEqual(Array.from(data));
+    });
+
+    test('timing tracks sample clock offset', async () => {
+      const { tx, rx } = createPair({}, { sampleRate: 48100 });
+      const data = testData(200);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('44.1 kHz sample rate', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+      const data = testData(40);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 3), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().headerErrors + rx.getStatus().syncDetections).toBe(rx.getStatus().headerErrors);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('empty frame emits eod', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(new Uint8Array(0)))).toEqual([]);
+      expect(eodCount).toBe(1);
+    });
+
+    test('truncated frame is dropped on carrier loss', async () => {
+      const { tx, rx } = createPair();
+      const truncated = (await tx.modulateData(testData(20))).slice(0, 480 * 20);
+      const complete = await tx.modulateData(new Uint8Array([0x42]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...truncated, ...new Float32Array(4800), ...complete]));
+      expect(result).toEqual([0x42]);
+      expect(rx.getStatus().carrierLosses).toBe(1);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const { tx, rx } = createPair();
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('MFSK')));
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.syncDetections).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
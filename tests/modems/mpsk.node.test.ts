@@ -0,0 +1,137 @@
+// M-ary PSK Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { MPSKCore, DEFAULT_MPSK_CONFIG } from '../../src/modems/mpsk';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(MPSKCore, DEFAULT_MPSK_CONFIG);
+
+describe('MPSK Core', () => {
+  describe('Configuration', () => {
+    test('default configuration is QPSK', () => {
+      const core = new MPSKCore();
+      core.configure({ ...DEFAULT_MPSK_CONFIG });
+      expect(core.getConfig().order).toBe(4);
+      expect(core.bitsPerSymbol).toBe(2);
+      expect(core.type).toBe('PSK');
+      expect(core.isReady()).toBe(true);
+    });
+
+    test('8-PSK carries 3 bits per symbol', () => {
+      const core = new MPSKCore();
+      core.configure({ ...DEFAULT_MPSK_CONFIG, order: 8 });
+      expect(core.bitsPerSymbol).toBe(3);
+    });
+
+    test('rejects unsupported order', () => {
+      const core = new MPSKCore();
+      expect(() => core.configure({ ...DEFAULT_MPSK_CONFIG, order: 16 as 4 })).toThrow('Unsupported PSK order');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new MPSKCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('QPSK symbol count is half of bit count', async () => {
+      const { tx } = createPair({ order: 4 });
+      const samplesPerSymbol = DEFAULT_MPSK_CONFIG.sampleRate / DEFAULT_MPSK_CONFIG.baudRate;
+
+      const signal1 = await tx.modulateData(testData(4));
+      const signal2 = await tx.modulateData(testData(5));
+      expect(signal2.length - signal1.length).toBe(4 * samplesPerSymbol);
+    });
+
+    test('8-PSK pads partial symbols', async () => {
+      const { tx } = createPair({ order: 8 });
+      const samplesPerSymbol = DEFAULT_MPSK_CONFIG.sampleRate / DEFAULT_MPSK_CONFIG.baudRate;
+
+      // Header + 1 byte = 40 bits -> 14 symbols, header + 2 bytes = 48 bits -> 16 symbols
+      const signal1 = await tx.modulateData(testData(1));
+      const signal2 = await tx.modulateData(testData(2));
+      expect(signal2.length - signal1.length).toBe(2 * samplesPerSymbol);
+    });
+  });
+
+  describe.each([4, 8] as const)('%i-PSK roundtrip', (order) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(9);
+      const result = await rx.demodulateData(await tx.modulateData(data));
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('lengths that do not fill the last symbol', async () => {
+      const { tx, rx } = createPair({ order });
+      for (const length of [0, 1, 2, 3, 7]) {
+        const data = testData(length);
+        const result = await demodulateInChunks(rx, await tx.modulateData(data));
+        expect(result).toEqual(Array.from(data));
+      }
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(64);
+      const result = await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.6));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('resolves 180° carrier phase ambiguity', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(16);
+      const signal = (await tx.modulateData(data)).map(sample => -sample);
+
+      expect(await demodulateInChunks(rx, signal)).toEqual(Array.from(data));
+    });
+
+    test('tracks carrier frequency offset', async () => {
+      const { tx, rx } = createPair({ order, carrierFrequency: 1820 }, { carrierFrequency: 1800 });
+      const data = testData(128);
+      const result = await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.3));
+
+      expect(result).toEqual(Array.from(data));
+      expect(rx.getStatus().carrierFrequencyError).toBeCloseTo(20, 0);
+    });
+
+    test('consecutive frames are received', async () => {
+      const { tx, rx } = createPair({ order });
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair({ order });
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 2), 0.5, 7));
+
+      expect(result.length).toBe(0);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('XModem packet survives roundtrip', async () => {
+      const { tx, rx } = createPair({ order: 8 });
+      const payload = new TextEncoder().encode('8-PSK under XModem');
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, payload));
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(packet))).toEqual(Array.from(packet));
+    });
+
+    test('emits eod after the announced length', async () => {
+      const { tx, rx } = createPair({});
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      expect(eodCount).toBe(1);
+    });
+  });
+});
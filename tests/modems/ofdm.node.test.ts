@@ -0,0 +1,198 @@
+// OFDM Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { OFDMCore, DEFAULT_OFDM_CONFIG } from '../../src/modems/ofdm';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, applyChannel, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(OFDMCore, DEFAULT_OFDM_CONFIG);
+
+describe('OFDM Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new OFDMCore();
+      core.configure({ ...DEFAULT_OFDM_CONFIG });
+      const config = core.getConfig();
+      expect(core.type).toBe('OFDM');
+      expect(core.isReady()).toBe(true);
+      // 48 subcarriers, every 8th is a pilot -> 42 QPSK data subcarriers
+      expect(core.bitsPerSymbol).toBe(84);
+      expect(config.baudRate).toBe(48000 / (512 + 128));
+    });
+
+    test('BPSK subcarriers carry one bit', () => {
+      const core = new OFDMCore();
+      core.configure({ ...DEFAULT_OFDM_CONFIG, subcarrierModulation: 'BPSK' });
+      expect(core.bitsPerSymbol).toBe(42);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new OFDMCore();
+      expect(() => core.configure({ ...DEFAULT_OFDM_CONFIG, fftSize: 500 })).toThrow('power of two');
+      expect(() => core.configure({ ...DEFAULT_OFDM_CONFIG, cyclicPrefixLength: 300 })).toThrow('Cyclic prefix');
+      expect(() => core.configure({ ...DEFAULT_OFDM_CONFIG, firstSubcarrier: 240 })).toThrow('Nyquist');
+      expect(() => core.configure({ ...DEFAULT_OFDM_CONFIG, pilotSpacing: 1 })).toThrow('pilot');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new OFDMCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('signal length is a whole number of symbols', async () => {
+      const { tx } = createPair();
+      const symbolLength = 512 + 128;
+
+      // Header + 10 bytes = 112 bits -> 2 symbols, header + 11 bytes = 120 bits -> 2 symbols
+      const signal1 = await tx.modulateData(testData(10));
+      const signal2 = await tx.modulateData(testData(11));
+      const signal3 = await tx.modulateData(testData(20));
+      expect(signal1.length % symbolLength).toBe(0);
+      expect(signal2.length).toBe(signal1.length);
+      expect(signal3.length - signal1.length).toBe(symbolLength);
+    });
+
+    test('energy stays within the configured subcarrier band', async () => {
+      const { tx } = createPair({ fftSize: 256, cyclicPrefixLength: 64, firstSubcarrier: 16, subcarrierCount: 32 });
+      const signal = await tx.modulateData(testData(64));
+
+      // Goertzel power at an in-band and an out-of-band frequency (bin spacing 187.5 Hz)
+      const power = (frequency: number) => {
+        const coeff = 2 * Math.cos(2 * Math.PI * frequency / 48000);
+        let s1 = 0, s2 = 0;
+        for (const sample of signal) {
+          const s0 = sample + coeff * s1 - s2;
+          s2 = s1;
+          s1 = s0;
+        }
+        return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+      };
+      expect(power(4500)).toBeGreaterThan(power(12000) * 100);
+      expect(Math.max(...signal.map(Math.abs))).toBeLessThanOrEqual(1);
+    });
+
+    test('works with ChunkedModulator', async () => {
+      const { tx, rx } = createPair();
+      const data = testData(32);
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(data);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(data));
+    });
+  });
+
+  describe.each(['BPSK', 'QPSK'] as const)('%s subcarriers', (subcarrierModulation) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      const data = testData(100);
+      const result = await rx.demodulateData(await tx.modulateData(data));
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('lengths around symbol boundaries', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      for (const length of [0, 1, 6, 7, 17]) {
+        const data = testData(length);
+        expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+      }
+    });
+
+    test('arbitrary start offset and gain', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      const data = testData(64);
+      const signal = (await tx.modulateData(data)).map(sample => -0.1 * sample);
+
+      const result = await demodulateInChunks(rx, new Float32Array([...new Float32Array(777), ...signal]));
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      const data = testData(200);
+      const result = await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.1));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('multipath within the cyclic prefix', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      const data = testData(200);
+      const channel: [number, number][] = [[0, 0.6], [40, 0.5], [95, -0.3]];
+      const result = await demodulateInChunks(rx, applyChannel(await tx.modulateData(data), channel));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('pilots track sample clock offset', async () => {
+      const { tx, rx } = createPair({ subcarrierModulation });
+      const data = testData(300);
+      const signal = await tx.modulateData(data);
+
+      // Linear interpolation resampling by 200 ppm
+      const ratio = 1.0002;
+      const resampled = new Float32Array(Math.floor(signal.length / ratio));
+      for (let i = 0; i < resampled.length; i++) {
+        const position = i * ratio, index = Math.floor(position), fraction = position - index;
+        resampled[i] = signal[index] * (1 - fraction) + (signal[index + 1] ?? 0) * fraction;
+      }
+      expect(await demodulateInChunks(rx, resampled)).toEqual(Array.from(data));
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair({ subcarrierModulation });
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 2), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(0);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames are received', async () => {
+      const { tx, rx } = createPair();
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(rx.getStatus().syncDetections).toBe(2);
+    });
+
+    test('XModem packet survives roundtrip', async () => {
+      const { tx, rx } = createPair();
+      const payload = new TextEncoder().encode('OFDM under XModem');
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, payload));
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(packet))).toEqual(Array.from(packet));
+    });
+
+    test('emits eod after the announced length', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      expect(eodCount).toBe(1);
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.syncDetections).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// OOK / ASK Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { OOKCore, DEFAULT_OOK_CONFIG } from '../../src/modems/ook';
+import { ChunkedModulator } from '../../src/webaudio/chunked-modulator';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(OOKCore, DEFAULT_OOK_CONFIG);
+
+// Mean absolute amplitude of each chip
+function chipLevels(signal: Float32Array, samplesPerChip: number, first: number, count: number): number[] {
+  return Array.from({ length: count }, (_, n) => {
+    const chip = signal.subarray((first + n) * samplesPerChip, (first + n + 1) * samplesPerChip);
+    return chip.reduce((sum, sample) => sum + Math.abs(sample), 0) / chip.length;
+  });
+}
+
+describe('OOK Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new OOKCore();
+      core.configure({ ...DEFAULT_OOK_CONFIG });
+      expect(core.type).toBe('ASK');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().modulationDepth).toBe(1);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new OOKCore();
+      expect(() => core.configure({ ...DEFAULT_OOK_CONFIG, carrierFrequency: 500 })).toThrow('carrier');
+      expect(() => core.configure({ ...DEFAULT_OOK_CONFIG, carrierFrequency: 23900 })).toThrow('Nyquist');
+      expect(() => core.configure({ ...DEFAULT_OOK_CONFIG, modulationDepth: 0 })).toThrow('depth');
+      expect(() => core.configure({ ...DEFAULT_OOK_CONFIG, preambleBits: 8 })).toThrow('preamble');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new OOKCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('sync word keys the carrier on and off', async () => {
+      const { tx } = createPair();
+      const signal = await tx.modulateData(new Uint8Array(0));
+      const levels = chipLevels(signal, 160, 32, 16);
+
+      // 0x2DD4 after 32 preamble bits
+      expect(levels.map(level => level > 0.3 ? 1 : 0)).toEqual([0, 0, 1, 0, 1, 1, 0, 1, 1, 1, 0, 1, 0, 1, 0, 0]);
+      expect(Math.min(...levels.filter(level => level < 0.3))).toBe(0);
+    });
+
+    test('Manchester sends each bit as two half bits', async () => {
+      const { tx } = createPair({ manchester: true });
+      const signal = await tx.modulateData(new Uint8Array(0));
+      const levels = chipLevels(signal, 80, 64, 8);
+
+      // 0, 0, 1, 0 -> off/on, off/on, on/off, off/on
+      expect(levels.map(level => level > 0.3 ? 1 : 0)).toEqual([0, 1, 0, 1, 1, 0, 0, 1]);
+    });
+
+    test('ASK keeps a reduced carrier for zeros', async () => {
+      const { tx } = createPair({ modulationDepth: 0.5 });
+      const levels = chipLevels(await tx.modulateData(new Uint8Array(0)), 160, 32, 3);
+
+      // 0, 0, 1: half amplitude for zeros
+      expect(levels[0] / levels[2]).toBeCloseTo(0.5, 1);
+      expect(levels[1] / levels[2]).toBeCloseTo(0.5, 1);
+    });
+  });
+
+  describe.each([
+    ['NRZ', false],
+    ['Manchester', true]
+  ])('%s', (_name, manchester) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ manchester });
+      const data = testData(60);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ manchester });
+      const data = testData(60);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 1.0))).toEqual(Array.from(data));
+    });
+
+    test('long runs of zeros', async () => {
+      const { tx, rx } = createPair({ manchester });
+      const data = new Uint8Array(20);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.3))).toEqual(Array.from(data));
+    });
+
+    test('weak signal with offset', async () => {
+      const { tx, rx } = createPair({ manchester });
+      const data = testData(30);
+      const signal = (await tx.modulateData(data)).map(sample => 0.02 * sample);
+
+      expect(await demodulateInChunks(rx, addNoise(new Float32Array([...new Float32Array(777), ...signal]), 0.01))).toEqual(Array.from(data));
+    });
+
+    test('near-ultrasonic carrier at 1200 baud', async () => {
+      const { tx, rx } = createPair({ manchester, carrierFrequency: 18500, baudRate: 1200 });
+      const data = testData(60);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.3))).toEqual(Array.from(data));
+    });
+
+    test('timing tracks sample clock offset', async () => {
+      const { tx, rx } = createPair({ manchester }, { sampleRate: 48200 });
+      const data = testData(60);
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(data))).toEqual(Array.from(data));
+    });
+  });
+
+  describe('Robustness', () => {
+    test('square wave buzzer transmitter', async () => {
+      const { tx, rx } = createPair({ manchester: true });
+      const data = testData(30);
+      // A piezo driven from a GPIO pin: the carrier is a square wave
+      const signal = (await tx.modulateData(data)).map(sample => Math.abs(sample) > 0.05 ? Math.sign(sample) : 0);
+
+      expect(await demodulateInChunks(rx, signal)).toEqual(Array.from(data));
+    });
+
+    test.each([false, true])('ASK with depth 0.5 (AGC %s)', async (agcEnabled) => {
+      const { tx, rx } = createPair({ modulationDepth: 0.5, agcEnabled });
+      const data = testData(60);
+
+      expect(await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.2))).toEqual(Array.from(data));
+    });
+
+    test('weaker transmitter after a strong one', async () => {
+      const { tx, rx } = createPair();
+      const strong = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const weak = (await tx.modulateData(new Uint8Array([0x03]))).map(sample => 0.05 * sample);
+
+      const result = await demodulateInChunks(rx, new Float32Array([...strong, ...new Float32Array(4800), ...weak]));
+      expect(result).toEqual([0x01, 0x02, 0x03]);
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair();
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 3), 0.5, 7));
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(rx.getStatus().headerErrors);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive frames emit eod each', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+      expect(eodCount).toBe(2);
+    });
+
+    test('truncated Manchester frame is dropped on carrier loss', async () => {
+      const { tx, rx } = createPair({ manchester: true });
+      const truncated = (await tx.modulateData(testData(20))).slice(0, 160 * 100);
+      const complete = await tx.modulateData(new Uint8Array([0x42]));
+
+      const result = await demodulateInChunks(rx, new Float32Array([...truncated, ...new Float32Array(4800), ...complete]));
+      expect(result).toEqual([0x42]);
+      expect(rx.getStatus().carrierLosses).toBe(1);
+    });
+
+    test('XModem packet via ChunkedModulator', async () => {
+      const { tx, rx } = createPair({ baudRate: 1200, carrierFrequency: 8000 });
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, new TextEncoder().encode('OOK')));
+      const chunked = new ChunkedModulator(tx);
+      await chunked.startModulation(packet);
+
+      const received: number[] = [];
+      let chunk;
+      while ((chunk = chunked.getNextSamples(128))) {
+        received.push(...await rx.demodulateData(chunk.signal));
+        if (chunk.isComplete) break;
+      }
+      expect(received).toEqual(Array.from(packet));
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.onLevel).toBe(0);
+      expect(status.syncDetections).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// PSK Core tests - Node.js compatible
+import { describe, test, expect, beforeEach } from 'vitest';
+import { PSKCore, PSKConfig, DEFAULT_PSK_CONFIG } from '../../src/modems/psk';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, demodulateInChunks } from '../helpers';
+
+describe('PSK Core', () => {
+  let tx: PSKCore;
+  let rx: PSKCore;
+
+  const configureBoth = (config: Partial<PSKConfig>) => {
+    tx.configure({ ...DEFAULT_PSK_CONFIG, ...config } as PSKConfig);
+    rx.configure({ ...DEFAULT_PSK_CONFIG, ...config } as PSKConfig);
+  };
+
+  beforeEach(() => {
+    tx = new PSKCore();
+    rx = new PSKCore();
+    configureBoth({});
+  });
+
+  describe('Configuration', () => {
+    test('default configuration is applied', () => {
+      const config = tx.getConfig();
+      expect(config.mode).toBe('DBPSK');
+      expect(config.carrierFrequency).toBe(1800);
+      expect(config.baudRate).toBe(1200);
+      expect(tx.isReady()).toBe(true);
+      expect(tx.name).toBe('PSK');
+      expect(tx.type).toBe('PSK');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new PSKCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+
+    test('status of an unconfigured core', () => {
+      const status = new PSKCore().getStatus();
+      expect(status.ready).toBe(false);
+      expect(status.carrierFrequencyError).toBe(0);
+    });
+  });
+
+  describe('Modulation', () => {
+    test('signal length follows UART framing', async () => {
+      const config = tx.getConfig();
+      const samplesPerBit = Math.floor(config.sampleRate / config.baudRate);
+      const bitsPerByte = config.startBits + 8 + config.stopBits;
+
+      const signal1 = await tx.modulateData(new Uint8Array([0x01]));
+      const signal2 = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      expect(signal2.length - signal1.length).toBe(bitsPerByte * samplesPerBit);
+    });
+
+    test('envelope is constant during symbols', async () => {
+      const signal = await tx.modulateData(new Uint8Array([0xA5]));
+      expect(Math.max(...signal)).toBeLessThanOrEqual(1.0);
+      expect(Math.max(...signal)).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe.each(['BPSK', 'DBPSK'] as const)('%s roundtrip', (mode) => {
+    beforeEach(() => configureBoth({ mode }));
+
+    test('exact roundtrip', async () => {
+      const data = new Uint8Array([0x48, 0x65, 0x6C, 0x6C, 0x6F, 0x00, 0xFF, 0x7E, 0x55]);
+      const signal = await tx.modulateData(data);
+      const result = await rx.demodulateData(signal);
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('roundtrip with 128-sample chunks', async () => {
+      const data = new Uint8Array(Array.from({ length: 64 }, (_, i) => (i * 37) & 0xFF));
+      const signal = await tx.modulateData(data);
+      const result = await demodulateInChunks(rx, signal);
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const data = new Uint8Array(Array.from({ length: 32 }, (_, i) => (i * 7) & 0xFF));
+      const signal = addNoise(await tx.modulateData(data), 0.8);
+      const result = await rx.demodulateData(signal);
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+    });
+
+    test('tolerates inverted signal polarity', async () => {
+      const data = new Uint8Array([0x12, 0x34, 0x56]);
+      const signal = (await tx.modulateData(data)).map(sample => -sample);
+      const result = await rx.demodulateData(signal);
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+    });
+
+    test('tolerates carrier frequency offset', async () => {
+      tx.configure({ ...DEFAULT_PSK_CONFIG, mode, carrierFrequency: 1830 });
+      const data = new Uint8Array(Array.from({ length: 64 }, (_, i) => (i * 13) & 0xFF));
+      const result = await rx.demodulateData(await tx.modulateData(data));
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+    });
+
+    test('consecutive frames are received', async () => {
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04]));
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04]);
+      expect(rx.getStatus().syncDetections).toBe(2);
+    });
+
+    test('no false detection on noise', async () => {
+      const noise = addNoise(new Float32Array(48000 * 2), 0.5, 7);
+      const result = await rx.demodulateData(noise);
+
+      expect(result.length).toBe(0);
+      expect(rx.getStatus().syncDetections).toBe(0);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('XModem packet survives roundtrip', async () => {
+      const payload = new TextEncoder().encode('PSK under XModem');
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, payload));
+
+      const result = await demodulateInChunks(rx, await tx.modulateData(packet));
+      expect(result).toEqual(Array.from(packet));
+    });
+
+    test('emits eod at end of frame', async () => {
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      await rx.demodulateData(await tx.modulateData(new Uint8Array([0x42])));
+      expect(eodCount).toBe(1);
+    });
+
+    test('reset clears state', async () => {
+      await rx.demodulateData(await tx.modulateData(new Uint8Array([0x42])));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.syncDetections).toBe(0);
+      expect(status.byteBufferLength).toBe(0);
+    });
+  });
+});
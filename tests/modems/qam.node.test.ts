@@ -0,0 +1,177 @@
+// QAM Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { QAMCore, DEFAULT_QAM_CONFIG } from '../../src/modems/qam';
+import { XModemPacket } from '../../src/transports/xmodem/packet';
+import { addNoise, applyChannel, demodulateInChunks, pairFactory, testData } from '../helpers';
+
+const createPair = pairFactory(QAMCore, DEFAULT_QAM_CONFIG);
+
+describe('QAM Core', () => {
+  describe('Configuration', () => {
+    test('default configuration is 16-QAM', () => {
+      const core = new QAMCore();
+      core.configure({ ...DEFAULT_QAM_CONFIG });
+      expect(core.getConfig().order).toBe(16);
+      expect(core.bitsPerSymbol).toBe(4);
+      expect(core.type).toBe('QAM');
+      expect(core.isReady()).toBe(true);
+    });
+
+    test('64-QAM carries 6 bits per symbol', () => {
+      const core = new QAMCore();
+      core.configure({ ...DEFAULT_QAM_CONFIG, order: 64 });
+      expect(core.bitsPerSymbol).toBe(6);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new QAMCore();
+      expect(() => core.configure({ ...DEFAULT_QAM_CONFIG, order: 32 as 16 })).toThrow('Unsupported QAM order');
+      expect(() => core.configure({ ...DEFAULT_QAM_CONFIG, equalizerTaps: 4 })).toThrow('odd');
+      expect(() => core.configure({ ...DEFAULT_QAM_CONFIG, trainingLength: 8 })).toThrow('Training sequence');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new QAMCore();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('16-QAM carries one byte in two symbols', async () => {
+      const { tx } = createPair({ order: 16 });
+      const samplesPerSymbol = DEFAULT_QAM_CONFIG.sampleRate / DEFAULT_QAM_CONFIG.baudRate;
+
+      const signal1 = await tx.modulateData(testData(4));
+      const signal2 = await tx.modulateData(testData(5));
+      expect(signal2.length - signal1.length).toBe(2 * samplesPerSymbol);
+    });
+
+    test('signal stays within full scale', async () => {
+      const { tx } = createPair({ order: 64 });
+      const signal = await tx.modulateData(testData(64));
+      expect(Math.max(...signal.map(Math.abs))).toBeLessThanOrEqual(0.9 + 1e-6);
+    });
+  });
+
+  describe.each([16, 64] as const)('%i-QAM roundtrip', (order) => {
+    test('exact roundtrip', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(9);
+      const result = await rx.demodulateData(await tx.modulateData(data));
+
+      expect(Array.from(result)).toEqual(Array.from(data));
+      expect(rx.getStatus().syncDetections).toBe(1);
+    });
+
+    test('lengths that do not fill the last symbol', async () => {
+      const { tx, rx } = createPair({ order });
+      for (const length of [0, 1, 2, 3, 7]) {
+        const data = testData(length);
+        const result = await demodulateInChunks(rx, await tx.modulateData(data));
+        expect(result).toEqual(Array.from(data));
+      }
+    });
+
+    test('roundtrip with additive noise', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(200);
+      const result = await demodulateInChunks(rx, addNoise(await tx.modulateData(data), 0.05));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('training sequence resolves gain and carrier phase', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(64);
+      const signal = (await tx.modulateData(data)).map(sample => -0.3 * sample);
+
+      expect(await demodulateInChunks(rx, signal)).toEqual(Array.from(data));
+    });
+
+    test('equalizer compensates a two-path channel', async () => {
+      const { tx, rx } = createPair({ order });
+      const data = testData(128);
+      const result = await demodulateInChunks(rx, applyChannel(await tx.modulateData(data), [[0, 1], [9, 0.3]]));
+
+      expect(result).toEqual(Array.from(data));
+    });
+
+    test('tracks carrier frequency offset', async () => {
+      const { tx, rx } = createPair({ order, carrierFrequency: 4805 }, { carrierFrequency: 4800 });
+      const data = testData(128);
+      const result = await demodulateInChunks(rx, await tx.modulateData(data));
+
+      expect(result).toEqual(Array.from(data));
+      expect(rx.getSignalQuality().frequencyOffset).toBeCloseTo(5, 0);
+    });
+
+    test('consecutive frames are received', async () => {
+      const { tx, rx } = createPair({ order });
+      const first = await tx.modulateData(new Uint8Array([0x01, 0x02]));
+      const second = await tx.modulateData(new Uint8Array([0x03, 0x04, 0x05]));
+      const result = await demodulateInChunks(rx, new Float32Array([...first, ...second]));
+
+      expect(result).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+    });
+
+    test('noise does not produce data', async () => {
+      const { rx } = createPair({ order });
+      const result = await rx.demodulateData(addNoise(new Float32Array(48000 * 2), 0.5, 7));
+
+      expect(result.length).toBe(0);
+    });
+  });
+
+  describe('Signal quality', () => {
+    test('SNR is derived from equalizer EVM', async () => {
+      const { tx, rx } = createPair({ order: 16 });
+      const signal = await tx.modulateData(testData(128));
+
+      await rx.demodulateData(addNoise(signal, 0.02));
+      const high = rx.getSignalQuality();
+      rx.reset();
+      await rx.demodulateData(addNoise(signal, 0.15));
+      const low = rx.getSignalQuality();
+
+      expect(high.snr).toBeGreaterThan(30);
+      expect(low.snr).toBeGreaterThan(15);
+      expect(low.snr).toBeLessThan(high.snr - 10);
+      expect(low.phaseJitter).toBeGreaterThan(high.phaseJitter);
+      expect(rx.getStatus().evm).toBeCloseTo(Math.pow(10, -low.snr / 20), 6);
+    });
+
+    test('reports zero before any frame', () => {
+      const { rx } = createPair({});
+      expect(rx.getSignalQuality().snr).toBe(0);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('XModem packet survives roundtrip', async () => {
+      const { tx, rx } = createPair({ order: 64 });
+      const payload = new TextEncoder().encode('64-QAM under XModem');
+      const packet = XModemPacket.serialize(XModemPacket.createData(1, payload));
+
+      expect(await demodulateInChunks(rx, await tx.modulateData(packet))).toEqual(Array.from(packet));
+    });
+
+    test('emits eod after the announced length', async () => {
+      const { tx, rx } = createPair({});
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      expect(eodCount).toBe(1);
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair({});
+      await rx.demodulateData(await tx.modulateData(testData(3)));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.frameStarted).toBe(false);
+      expect(status.syncDetections).toBe(0);
+      expect(status.byteBufferLength).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// RTTY Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { RTTYCore, DEFAULT_RTTY_CONFIG } from '../../src/modems/rtty';
+import { Goertzel } from '../../src/dsp/goertzel';
+import { addNoise, demodulateInChunks, pairFactory, silence } from '../helpers';
+
+async function receiveText(core: RTTYCore, signal: Float32Array, chunkSize = 128): Promise<string> {
+  return new TextDecoder().decode(new Uint8Array(await demodulateInChunks(core, signal, chunkSize)));
+}
+
+const createPair = pairFactory(RTTYCore, DEFAULT_RTTY_CONFIG);
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('RTTY Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new RTTYCore();
+      core.configure({ ...DEFAULT_RTTY_CONFIG });
+      expect(core.type).toBe('FSK');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().baudRate).toBe(45.45);
+      expect(core.getConfig().stopBits).toBe(1.5);
+    });
+
+    test('rejects invalid configuration', () => {
+      const core = new RTTYCore();
+      expect(() => core.configure({ ...DEFAULT_RTTY_CONFIG, stopBits: 3 })).toThrow('stop bits');
+      expect(() => core.configure({ ...DEFAULT_RTTY_CONFIG, sampleRate: 4000 })).toThrow('Nyquist');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new RTTYCore();
+      await expect(core.modulateData(ascii('A'))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test('character is start bit, five bits LSB first and 1.5 stop bits', async () => {
+      const { tx } = createPair({ baudRate: 50 });
+      const signal = await tx.modulateData(ascii('E'));
+      const bitSamples = 48000 / 50;
+      // Mark idle (7.5 bits), two LTRS, 'E' without another shift, mark idle
+      expect(signal.length).toBe((7.5 + 3 * 7.5 + 7.5) * bitSamples);
+
+      const characterStart = (7.5 + 2 * 7.5) * bitSamples;
+      const bits = Array.from({ length: 7 }, (_, n) => {
+        const bit = signal.subarray(characterStart + n * bitSamples, characterStart + (n + 1) * bitSamples);
+        return Goertzel.power(bit, 2125, 48000) > Goertzel.power(bit, 2295, 48000) ? 1 : 0;
+      });
+      // Start (space), E = 00001 sent LSB first, stop (mark)
+      expect(bits).toEqual([0, 1, 0, 0, 0, 0, 1]);
+    });
+  });
+
+  describe('Roundtrip', () => {
+    test.each([45.45, 50])('%s baud', async (baudRate) => {
+      const { tx, rx } = createPair({ baudRate });
+      const text = 'CQ CQ DE JA1ZZZ 599 73\r\n';
+
+      expect(await receiveText(rx, await tx.modulateData(ascii(text)))).toBe(text);
+      expect(rx.getStatus().framingErrors).toBe(0);
+    });
+
+    test('letters and figures shifts', async () => {
+      const { tx, rx } = createPair();
+      const text = 'RST 599 QTH TOKYO, PWR 100W (ANT: 3EL YAGI) 12/34 1.5-2?';
+
+      expect(await receiveText(rx, await tx.modulateData(ascii(text)))).toBe(text);
+    });
+
+    test('US figure set without unshift on space', async () => {
+      const { tx, rx } = createPair({ figureSet: 'us', unshiftOnSpace: false });
+      const text = 'PRICE $5 "OK" 1 2 3 & #4;';
+
+      expect(await receiveText(rx, await tx.modulateData(ascii(text)))).toBe(text);
+    });
+
+    test('one stop bit and two stop bits', async () => {
+      for (const stopBits of [1, 2]) {
+        const { tx, rx } = createPair({ stopBits });
+        expect(await receiveText(rx, await tx.modulateData(ascii('RYRYRY 123')))).toBe('RYRYRY 123');
+      }
+    });
+
+    test.each([[2, 1.5], [2, 1], [1.5, 1]])('%s stop bits sent into %s received', async (stopBits, rxStopBits) => {
+      const { tx, rx } = createPair({ stopBits }, { stopBits: rxStopBits });
+      const text = 'RYRYRY CQ DE JA1ZZZ 73';
+
+      expect(await receiveText(rx, await tx.modulateData(ascii(text)))).toBe(text);
+      expect(rx.getStatus().framingErrors).toBe(0);
+    });
+
+    test('idle mark between characters', async () => {
+      const { tx, rx } = createPair({ baudRate: 50 });
+      const bitSamples = 48000 / 50;
+      const text = 'RYRY CQ CQ DE JAZZZ K';
+      const signal = await tx.modulateData(ascii(text));
+      // 384 samples are 17 cycles of the 2125 Hz mark: repeating the end of a stop bit extends it
+      const cycle = 384;
+      const parts: Float32Array[] = [];
+      let position = 0;
+      for (let i = 0; i < text.length; i++) {
+        // After the idle and the two LTRS; a typing pause of a second after 'RYRY'
+        const stopEnd = (7.5 + (i + 3) * 7.5) * bitSamples;
+        parts.push(signal.subarray(position, stopEnd));
+        for (let n = 0; n < (i === 3 ? 125 : i % 4); n++) parts.push(signal.subarray(stopEnd - cycle, stopEnd));
+        position = stopEnd;
+      }
+      parts.push(signal.subarray(position));
+      const paused = new Float32Array(parts.flatMap(part => Array.from(part)));
+
+      expect(await receiveText(rx, addNoise(paused, 0.2))).toBe(text);
+      expect(rx.getStatus().framingErrors).toBe(0);
+    });
+  });
+
+  describe('Robustness', () => {
+    test('noise, level and offset', async () => {
+      const { tx, rx } = createPair();
+      const text = 'THE QUICK BROWN FOX JUMPS OVER THE LAZY DOG 0123456789';
+      const signal = (await tx.modulateData(ascii(text))).map(sample => 0.1 * sample);
+
+      expect(await receiveText(rx, addNoise(new Float32Array([...silence(0.0123), ...signal]), 0.3))).toBe(text);
+    });
+
+    test('44.1 kHz sample rate', async () => {
+      const { tx, rx } = createPair({ sampleRate: 44100 });
+
+      expect(await receiveText(rx, await tx.modulateData(ascii('RYRY TEST 73')))).toBe('RYRY TEST 73');
+    });
+
+    test('tolerates transmitter baud rate error', async () => {
+      const { tx, rx } = createPair({}, { baudRate: 45.45 * 1.02 });
+
+      expect(await receiveText(rx, await tx.modulateData(ascii('RYRYRY 73 73')))).toBe('RYRYRY 73 73');
+    });
+
+    test('silence below squelch produces nothing', async () => {
+      const { rx } = createPair();
+
+      expect(await receiveText(rx, addNoise(silence(1), 0.005, 7))).toBe('');
+      expect(rx.getStatus().characters).toBe(0);
+    });
+
+    test('framing errors are counted and dropped', async () => {
+      const { tx, rx } = createPair({ baudRate: 50 });
+      const bitSamples = 48000 / 50;
+      const signal = await tx.modulateData(ascii('EE'));
+      // Space tone over the stop bits of the first 'E', after the idle and the two LTRS
+      const stopStart = (7.5 + 2 * 7.5 + 6) * bitSamples;
+      for (let i = stopStart; i < stopStart + 1.5 * bitSamples; i++) signal[i] = Math.sin(2 * Math.PI * 2295 * i / 48000);
+
+      expect(await receiveText(rx, signal)).toBe('');
+      expect(rx.getStatus().framingErrors).toBe(1);
+    });
+  });
+
+  describe('Transport compatibility', () => {
+    test('consecutive transmissions emit eod each', async () => {
+      const { tx, rx } = createPair();
+      let eodCount = 0;
+      rx.on('eod', () => eodCount++);
+
+      const result = await receiveText(rx, new Float32Array([
+        ...await tx.modulateData(ascii('FIRST 1')), ...silence(0.3),
+        ...await tx.modulateData(ascii('SECOND')), ...silence(0.3)
+      ]));
+      expect(result).toBe('FIRST 1SECOND');
+      expect(eodCount).toBe(2);
+    });
+
+    test('reset clears state', async () => {
+      const { tx, rx } = createPair();
+      await rx.demodulateData(await tx.modulateData(ascii('123')));
+      rx.reset();
+      const status = rx.getStatus();
+      expect(status.characters).toBe(0);
+      expect(status.figuresShift).toBe(false);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// ITU-T V.21 Core tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { V21Core, V21Config, DEFAULT_V21_CONFIG, V21_CHANNELS } from '../../src/modems/v21';
+import type { FSKReceiveError } from '../../src/modems/fsk';
+import { addNoise, tonePower, demodulateInChunks, testData } from '../helpers';
+
+// Sum of scaled signals, padded to the longest one plus trailing silence
+function mix(...signals: [signal: Float32Array, gain: number][]): Float32Array {
+  const output = new Float32Array(Math.max(...signals.map(([signal]) => signal.length)) + 4800);
+  for (const [signal, gain] of signals) {
+    signal.forEach((sample, i) => output[i] += gain * sample);
+  }
+  return output;
+}
+
+function createPair(config: Partial<V21Config> = {}) {
+  const originate = new V21Core();
+  const answer = new V21Core();
+  originate.configure({ ...DEFAULT_V21_CONFIG, ...config, role: 'originate' });
+  answer.configure({ ...DEFAULT_V21_CONFIG, ...config, role: 'answer' });
+  return { originate, answer };
+}
+
+describe('V.21 Core', () => {
+  describe('Configuration', () => {
+    test('default configuration', () => {
+      const core = new V21Core();
+      core.configure({ ...DEFAULT_V21_CONFIG });
+      expect(core.type).toBe('FSK');
+      expect(core.isReady()).toBe(true);
+      expect(core.getConfig().baudRate).toBe(300);
+      expect(core.getStatus().role).toBe('originate');
+    });
+
+    test('roles select opposite channels', () => {
+      const { originate, answer } = createPair();
+      expect([originate.txChannel, originate.rxChannel]).toEqual([1, 2]);
+      expect([answer.txChannel, answer.rxChannel]).toEqual([2, 1]);
+    });
+
+    test('rejects unknown role', () => {
+      const core = new V21Core();
+      expect(() => core.configure({ ...DEFAULT_V21_CONFIG, role: 'caller' as never })).toThrow('Unknown V.21 role');
+    });
+
+    test('throws when not configured', async () => {
+      const core = new V21Core();
+      await expect(core.modulateData(new Uint8Array([1]))).rejects.toThrow('not configured');
+      await expect(core.demodulateData(new Float32Array(10))).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('Modulation', () => {
+    test.each([
+      ['originate', V21_CHANNELS[1], V21_CHANNELS[2]],
+      ['answer', V21_CHANNELS[2], V21_CHANNELS[1]]
+    ] as const)('%s transmits on its own channel', async (_role, own, other) => {
+      const pair = createPair();
+      const core = _role === 'originate' ? pair.originate : pair.answer;
+      const signal = await core.modulateData(testData(16));
+
+      expect(tonePower(signal, own.markFrequency)).toBeGreaterThan(tonePower(signal, other.markFrequency) * 100);
+      expect(tonePower(signal, own.spaceFrequency)).toBeGreaterThan(tonePower(signal, other.spaceFrequency) * 100);
+    });
+  });
+
+  describe('Full duplex', () => {
+    test('half-duplex roundtrip in both directions', async () => {
+      const { originate, answer } = createPair();
+      const data = testData(32);
+
+      expect(await demodulateInChunks(answer, await originate.modulateData(data))).toEqual(Array.from(data));
+      expect(await demodulateInChunks(originate, await answer.modulateData(data))).toEqual(Array.from(data));
+    });
+
+    test('own transmission is not received', async () => {
+      const { originate } = createPair();
+      const result = await demodulateInChunks(originate, await originate.modulateData(testData(32)));
+
+      expect(result).toEqual([]);
+      expect(originate.getStatus().syncDetections).toBe(0);
+    });
+
+    test('simultaneous transmission with strong local echo', async () => {
+      const { originate, answer } = createPair();
+      const toAnswer = testData(40);
+      const toOriginate = testData(40, 53);
+      const originateSignal = await originate.modulateData(toAnswer);
+      const answerSignal = await answer.modulateData(toOriginate);
+
+      // Each side hears the peer 26 dB below its own transmitter
+      const atOriginate = mix([originateSignal, 1.0], [answerSignal, 0.05]);
+      const atAnswer = mix([answerSignal, 1.0], [originateSignal, 0.05]);
+
+      expect(await demodulateInChunks(originate, atOriginate)).toEqual(Array.from(toOriginate));
+      expect(await demodulateInChunks(answer, atAnswer)).toEqual(Array.from(toAnswer));
+    });
+
+    test('duplex with additive noise', async () => {
+      const { originate, answer } = createPair();
+      const toAnswer = testData(40);
+      const originateSignal = await originate.modulateData(toAnswer);
+      const answerSignal = await answer.modulateData(testData(40, 53));
+      const atAnswer = addNoise(mix([answerSignal, 0.5], [originateSignal, 0.2]), 0.1);
+
+      expect(await demodulateInChunks(answer, atAnswer)).toEqual(Array.from(toAnswer));
+    });
+
+    test('emits eod when the peer stops', async () => {
+      const { originate, answer } = createPair();
+      let eodCount = 0;
+      answer.on('eod', () => eodCount++);
+      const signal = await originate.modulateData(testData(4));
+
+      await demodulateInChunks(answer, new Float32Array([...signal, ...new Float32Array(48000 / 10)]));
+      expect(eodCount).toBeGreaterThanOrEqual(1);
+    });
+
+    test('forwards carrier detect and sync of the peer channel', async () => {
+      const { originate, answer } = createPair();
+      const events: string[] = [];
+      for (const eventName of ['dcd', 'sync', 'eod']) {
+        answer.on(eventName, () => events.push(eventName));
+      }
+      const signal = await originate.modulateData(testData(4));
+
+      await demodulateInChunks(answer, new Float32Array([...signal, ...new Float32Array(48000 / 10)]));
+      expect(events).toEqual(['dcd', 'sync', 'dcd', 'eod']);
+    });
+
+    test('forwards receive errors of the peer channel', async () => {
+      const originate = new V21Core();
+      const answer = new V21Core();
+      originate.configure({ ...DEFAULT_V21_CONFIG, parity: 'even', role: 'originate' });
+      answer.configure({ ...DEFAULT_V21_CONFIG, parity: 'odd', syncThreshold: 0.8, role: 'answer' });
+      const errors: string[] = [];
+      answer.on('receiveError', event => errors.push((event.data as FSKReceiveError).type));
+
+      await demodulateInChunks(answer, await originate.modulateData(testData(4)));
+      expect(errors).toEqual(['parity', 'parity', 'parity', 'parity']);
+    });
+
+    test('reset clears receiver state', async () => {
+      const { originate, answer } = createPair();
+      await answer.demodulateData(await originate.modulateData(testData(4)));
+      answer.reset();
+      const status = answer.getStatus();
+      expect(status.syncDetections).toBe(0);
+      expect(status.byteBufferLength).toBe(0);
+      expect(status.totalSamplesProcessed).toBe(0);
+    });
+  });
+});
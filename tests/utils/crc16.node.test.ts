@@ -134,4 +134,23 @@ describe('CRC16 - CRC-16-CCITT Implementation', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('CRC-16/X.25 (HDLC FCS)', () => {
+    test('ASCII string "123456789" check value', () => {
+      const data = new TextEncoder().encode('123456789');
+      expect(CRC16.calculateX25(data)).toBe(0x906E);
+    });
+
+    test('Empty data', () => {
+      expect(CRC16.calculateX25(new Uint8Array(0))).toBe(0x0000);
+    });
+
+    test('Appending FCS low byte first yields the good FCS residue', () => {
+      const data = new Uint8Array([0x82, 0xA0, 0xA4, 0xA6, 0x40, 0x40, 0x60]);
+      const fcs = CRC16.calculateX25(data);
+      const withFcs = new Uint8Array([...data, fcs & 0xFF, fcs >> 8]);
+      // Residue 0xF0B8 before final XOR -> 0x0F47 after
+      expect(CRC16.calculateX25(withFcs)).toBe(0x0F47);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import { ITA2Encoder, ITA2Decoder, ITA2_FIGS, ITA2_LTRS, ITA2_SPACE } from '../../src/utils/ita2';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+function decodeAll(decoder: ITA2Decoder, codes: number[]): string {
+  return codes.map(code => decoder.decode(code)).filter(char => char !== null).map(char => String.fromCharCode(char!)).join('');
+}
+
+describe('ITA2', () => {
+  test('letters use the Baudot-Murray codes', () => {
+    const encoder = new ITA2Encoder();
+    // E=1, T=16, A=3, O=24 (bit 1 is the LSB)
+    expect(encoder.encode(ascii('ETAO'))).toEqual([ITA2_LTRS, 0x01, 0x10, 0x03, 0x18]);
+  });
+
+  test('shifts are inserted only when needed', () => {
+    const encoder = new ITA2Encoder('ita2', false);
+    // R=4 in figures, 5=T in figures, space shared by both shifts
+    expect(encoder.encode(ascii('R5 45A'))).toEqual([
+      ITA2_LTRS, 0x0A, ITA2_FIGS, 0x10, ITA2_SPACE, 0x0A, 0x10, ITA2_LTRS, 0x03
+    ]);
+  });
+
+  test('unshift on space repeats FIGS after a space', () => {
+    const encoder = new ITA2Encoder('ita2', true);
+    expect(encoder.encode(ascii('1 2'))).toEqual([ITA2_FIGS, 0x17, ITA2_SPACE, ITA2_FIGS, 0x13]);
+  });
+
+  test('lower case is sent as upper case and unknown characters are dropped', () => {
+    const encoder = new ITA2Encoder();
+    const decoder = new ITA2Decoder();
+    expect(decodeAll(decoder, encoder.encode(ascii('cq de jA1zz ~%')))).toBe('CQ DE JA1ZZ ');
+  });
+
+  test('figure sets differ in the national positions', () => {
+    const ita2 = new ITA2Decoder('ita2');
+    const us = new ITA2Decoder('us');
+    const codes = [ITA2_FIGS, 0x05, 0x09, 0x11, 0x1E];
+    expect(decodeAll(ita2, codes)).toBe('\'\x05+=');
+    expect(decodeAll(us, codes)).toBe('\x07$";');
+  });
+
+  test.each(['ita2', 'us'] as const)('%s roundtrip of printable text', (figureSet) => {
+    const text = figureSet === 'ita2'
+      ? 'THE QUICK BROWN FOX 0123456789 -?:().,/=+\'\r\n'
+      : 'THE QUICK BROWN FOX 0123456789 -?:().,/;"$!&#\'\r\n';
+    const encoder = new ITA2Encoder(figureSet);
+    const decoder = new ITA2Decoder(figureSet);
+    expect(decodeAll(decoder, encoder.encode(ascii(text)))).toBe(text);
+  });
+
+  test('decoder follows shifts across calls and resets to letters', () => {
+    const decoder = new ITA2Decoder('ita2', false);
+    decoder.decode(ITA2_FIGS);
+    expect(decoder.figuresShift).toBe(true);
+    expect(decoder.decode(0x04)).toBe(0x20);
+    expect(decoder.decode(0x17)).toBe('1'.charCodeAt(0));
+    decoder.reset();
+    expect(decoder.decode(0x17)).toBe('Q'.charCodeAt(0));
+  });
+});
@@ -0,0 +1,44 @@
+// Spreading code tests - Node.js compatible
+import { describe, test, expect } from 'vitest';
+import { BARKER_CODES, mSequence, goldCode } from '../../src/utils/spreading-codes';
+
+// Periodic correlation values over all non-zero shifts
+function periodicCorrelation(a: number[], b: number[], includeZero = false): number[] {
+  const values = new Set<number>();
+  for (let shift = includeZero ? 0 : 1; shift < a.length; shift++) {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[(i + shift) % b.length];
+    values.add(sum);
+  }
+  return [...values].sort((x, y) => x - y);
+}
+
+describe('Spreading codes', () => {
+  test('Barker codes have aperiodic sidelobes of at most 1', () => {
+    for (const code of Object.values(BARKER_CODES)) {
+      for (let shift = 1; shift < code.length; shift++) {
+        let sum = 0;
+        for (let i = 0; i + shift < code.length; i++) sum += code[i] * code[i + shift];
+        expect(Math.abs(sum)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  test('m-sequence has length 2^n - 1 and two-valued autocorrelation', () => {
+    const code = mSequence([5, 2]);
+    expect(code.length).toBe(31);
+    expect(code.filter(chip => chip === -1).length).toBe(16);
+    expect(periodicCorrelation(code, code)).toEqual([-1]);
+  });
+
+  test('rejects non-primitive taps and zero seed', () => {
+    expect(() => mSequence([5, 3, 1])).toThrow('primitive');
+    expect(() => mSequence([5, 2], 0)).toThrow('non-zero');
+  });
+
+  test('Gold codes have three-valued cross-correlation', () => {
+    expect(periodicCorrelation(goldCode(5, 1), goldCode(5, 10), true)).toEqual([-9, -1, 7]);
+    expect(periodicCorrelation(goldCode(7, 3), goldCode(7, 40), true)).toEqual([-17, -1, 15]);
+    expect(() => goldCode(6, 0)).toThrow('preferred pair');
+  });
+});
@@ -1,7 +1,8 @@
 // ChunkedModulator tests - Node.js compatible
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { FSKCore, FSKConfig, DEFAULT_FSK_CONFIG } from '../../src/modems/fsk';
 import { ChunkedModulator, ChunkResult } from '../../src/webaudio/chunked-modulator';
+import { DTMFCore, DEFAULT_DTMF_CONFIG } from '../../src/modems/dtmf';
 
 describe('ChunkedModulator', () => {
   let fskCore: FSKCore;
@@ -46,6 +47,25 @@ describe('ChunkedModulator', () => {
       }
     });
     
+    test('keeps the transmit envelope across chunk boundaries', async () => {
+      fskCore.configure({ ...DEFAULT_FSK_CONFIG, txLevel: 0.5, txRampTime: 0.005, txDelay: 0.02, txTail: 0.01 } as FSKConfig);
+      const testData = new Uint8Array([0x41, 0x42]);
+      const directSignal = await fskCore.modulateData(testData);
+
+      await chunkedModulator.startModulation(testData);
+      const chunkedSignal: number[] = [];
+      let result: ChunkResult | null;
+      while ((result = chunkedModulator.getNextSamples(128)) !== null) {
+        chunkedSignal.push(...result.signal);
+        if (result.isComplete) break;
+      }
+
+      expect(chunkedSignal).toEqual(Array.from(directSignal));
+      // Fades in from silence at the first chunk
+      expect(Math.max(...chunkedSignal.slice(0, 16).map(Math.abs))).toBeLessThan(0.01);
+      expect(Math.max(...chunkedSignal.map(Math.abs))).toBeLessThanOrEqual(0.5);
+    });
+
     test('handles empty data correctly', async () => {
       await chunkedModulator.startModulation(new Uint8Array(0));
       
@@ -219,6 +239,61 @@ describe('ChunkedModulator', () => {
     });
   });
   
+  describe('Streaming', () => {
+    test('pulls samples from the modulation stream without modulating in full', async () => {
+      const testData = new Uint8Array([0x41, 0x42, 0x43]);
+      const directSignal = await fskCore.modulateData(testData);
+      const modulateData = vi.spyOn(fskCore, 'modulateData');
+
+      await chunkedModulator.startModulation(testData);
+      const chunkedSignal: number[] = [];
+      let result: ChunkResult | null;
+      while ((result = chunkedModulator.getNextSamples(100)) !== null) {
+        chunkedSignal.push(...result.signal);
+        if (result.isComplete) break;
+      }
+
+      expect(modulateData).not.toHaveBeenCalled();
+      expect(chunkedSignal).toEqual(Array.from(directSignal));
+    });
+
+    test('fills the output buffer in place', async () => {
+      const testData = new Uint8Array([0x41]);
+      const directSignal = await fskCore.modulateData(testData);
+      await chunkedModulator.startModulation(testData);
+
+      const output = new Float32Array(128);
+      const chunkedSignal: number[] = [];
+      let result: ChunkResult | null;
+      while ((result = chunkedModulator.fillNextSamples(output)) !== null) {
+        expect(result.signal.buffer).toBe(output.buffer);
+        chunkedSignal.push(...result.signal);
+        if (result.isComplete) break;
+      }
+
+      expect(chunkedSignal).toEqual(Array.from(directSignal));
+      expect(chunkedModulator.isModulating()).toBe(false);
+    });
+
+    test('modulators without a stream are modulated in full', async () => {
+      const dtmf = new DTMFCore();
+      dtmf.configure({ ...DEFAULT_DTMF_CONFIG });
+      const directSignal = await dtmf.modulateData(new Uint8Array([0x12]));
+      const modulator = new ChunkedModulator(dtmf);
+
+      await modulator.startModulation(new Uint8Array([0x12]));
+      const output = new Float32Array(128);
+      const chunkedSignal: number[] = [];
+      let result: ChunkResult | null;
+      while ((result = modulator.fillNextSamples(output)) !== null) {
+        chunkedSignal.push(...result.signal);
+        if (result.isComplete) break;
+      }
+
+      expect(chunkedSignal).toEqual(Array.from(directSignal));
+    });
+  });
+
   describe('Demodulation Verification', () => {
     test('generated signal can be demodulated correctly', async () => {
       const originalData = new Uint8Array([0x41, 0x42]); // "AB"
@@ -242,6 +242,82 @@ describe('FSKProcessor', () => {
     });
   });
 
+  test('forwards receiver events to the main thread', async () => {
+    await sendMessage({
+      id: 'config',
+      type: 'configure',
+      data: { config: { sampleRate: 44100, baudRate: 300 } }
+    });
+    const { FSKCore, DEFAULT_FSK_CONFIG } = await import('../../src/modems/fsk.js');
+    const fskCore = new FSKCore();
+    fskCore.configure({ ...DEFAULT_FSK_CONFIG, sampleRate: 44100, baudRate: 300 });
+    const signal = await fskCore.modulateData(new Uint8Array([0x48, 0x69]));
+    mockPort.postMessage.mockClear();
+
+    const input = new Float32Array([...signal, ...new Float32Array(44100 / 4)]);
+    for (let i = 0; i < input.length; i += 128) {
+      processor.process([[input.slice(i, i + 128)]], [[new Float32Array(128)]]);
+    }
+
+    const events = mockPort.postMessage.mock.calls.map(([message]: any[]) => message).filter((message: any) => message.type === 'event');
+    expect(events.map((message: any) => message.data.event)).toEqual(['dcd', 'sync', 'dcd', 'eod']);
+    expect(events[0]).toEqual({ id: null, type: 'event', data: { event: 'dcd', detail: { active: true, samplePosition: expect.any(Number) } } });
+    expect(events[1].data.detail).toEqual({ correlation: expect.any(Number), samplePosition: expect.any(Number) });
+    expect(events[3].data.detail.samplePosition).toBeGreaterThan(events[1].data.detail.samplePosition);
+
+    // The core catches demodulation errors and emits them
+    vi.spyOn(processor.core, 'processSample').mockImplementation(() => { throw new Error('FSK demodulation failed'); });
+    mockPort.postMessage.mockClear();
+    processor.process([[input.slice(0, 128)]], [[new Float32Array(128)]]);
+    expect(mockPort.postMessage).toHaveBeenCalledWith({ id: null, type: 'event', data: { event: 'error', detail: { message: 'FSK demodulation failed' } } });
+  });
+
+  test('forwards receive errors to the main thread', async () => {
+    await sendMessage({
+      id: 'config',
+      type: 'configure',
+      data: { config: { sampleRate: 44100, baudRate: 300, parity: 'odd', syncThreshold: 0.8 } }
+    });
+    const { FSKCore, DEFAULT_FSK_CONFIG } = await import('../../src/modems/fsk.js');
+    const fskCore = new FSKCore();
+    fskCore.configure({ ...DEFAULT_FSK_CONFIG, sampleRate: 44100, baudRate: 300, parity: 'even' });
+    const signal = await fskCore.modulateData(new Uint8Array([0x48, 0x69]));
+    mockPort.postMessage.mockClear();
+
+    for (let i = 0; i < signal.length; i += 128) {
+      processor.process([[signal.slice(i, i + 128)]], [[new Float32Array(128)]]);
+    }
+
+    const errors = mockPort.postMessage.mock.calls.map(([message]: any[]) => message)
+      .filter((message: any) => message.type === 'event' && message.data.event === 'receiveError');
+    expect(errors.map((message: any) => message.data.detail.type)).toEqual(['parity', 'parity']);
+  });
+
+  test('reports overrun when received bytes are not read', async () => {
+    const config = { sampleRate: 44100, baudRate: 2400, markFrequency: 3600, spaceFrequency: 4800 };
+    await sendMessage({ id: 'config', type: 'configure', data: { config } });
+    const { FSKCore, DEFAULT_FSK_CONFIG } = await import('../../src/modems/fsk.js');
+    const fskCore = new FSKCore();
+    fskCore.configure({ ...DEFAULT_FSK_CONFIG, ...config });
+    const signal = await fskCore.modulateData(new Uint8Array(1030).map((_, i) => i & 0xFF));
+    mockPort.postMessage.mockClear();
+
+    for (let i = 0; i < signal.length; i += 128) {
+      processor.process([[signal.slice(i, i + 128)]], [[new Float32Array(128)]]);
+      await Promise.resolve();
+    }
+
+    // The 1024-byte receive buffer keeps the newest bytes
+    const errors = mockPort.postMessage.mock.calls.map(([message]: any[]) => message)
+      .filter((message: any) => message.type === 'event' && message.data.event === 'receiveError');
+    expect(errors.map((message: any) => message.data.detail.byteIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(errors.every((message: any) => message.data.detail.type === 'overrun')).toBe(true);
+    await sendMessage({ id: 'status', type: 'status', data: {} });
+    expect(mockPort.postMessage).toHaveBeenLastCalledWith({
+      id: 'status', type: 'result', data: expect.objectContaining({ demodulatedBufferLength: 1024, overrunErrors: 6 })
+    });
+  });
+
   test('should handle multiple messages in sequence', async () => {
     // Configure
     await sendMessage({
@@ -555,4 +631,52 @@ describe('FSKProcessor', () => {
       });
     });
   });
+
+  describe('V.21 full duplex', () => {
+    test('role in config selects the V.21 core', async () => {
+      const { DEFAULT_V21_CONFIG } = await import('../../src/modems/v21.js');
+      await sendMessage({
+        id: 'config',
+        type: 'configure',
+        data: { config: { ...DEFAULT_V21_CONFIG, sampleRate: 44100, role: 'answer' } }
+      });
+      await sendMessage({ id: 'status', type: 'status', data: {} });
+
+      expect(mockPort.postMessage).toHaveBeenCalledWith({
+        id: 'status',
+        type: 'result',
+        data: expect.objectContaining({ fullDuplex: true, role: 'answer', txChannel: 2, rxChannel: 1 })
+      });
+    });
+
+    test('receives the peer while transmitting', async () => {
+      const { V21Core, DEFAULT_V21_CONFIG } = await import('../../src/modems/v21.js');
+      await sendMessage({
+        id: 'config',
+        type: 'configure',
+        data: { config: { ...DEFAULT_V21_CONFIG, sampleRate: 44100, role: 'answer' } }
+      });
+      const peer = new V21Core();
+      peer.configure({ ...DEFAULT_V21_CONFIG, sampleRate: 44100, role: 'originate' });
+      const peerSignal = await peer.modulateData(new Uint8Array([0x56, 0x32, 0x31]));
+
+      const done = sendMessage({ id: 'modulate', type: 'modulate', data: { bytes: [0x41, 0x4E, 0x53] } });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // Input is the peer signal plus our own output looped back
+      let echo = new Float32Array(128);
+      for (let i = 0; i < peerSignal.length + 44100 / 2; i += 128) {
+        const input = new Float32Array(128);
+        input.set(peerSignal.subarray(i, i + 128));
+        const outputs = [[new Float32Array(128)]];
+        processor.process([[input.map((sample, n) => sample + echo[n])]], outputs);
+        echo = outputs[0][0];
+      }
+      await done;
+      await sendMessage({ id: 'demod', type: 'demodulate', data: {} });
+
+      expect(mockPort.postMessage).toHaveBeenCalledWith({ id: 'modulate', type: 'result', data: { success: true } });
+      expect(mockPort.postMessage).toHaveBeenCalledWith({ id: 'demod', type: 'result', data: { bytes: [0x56, 0x32, 0x31] } });
+    });
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * OFDMProcessor Unit Tests - Testing via port messaging interface
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock AudioWorkletProcessor for Node.js testing
+class MockAudioWorkletProcessor {
+  port = {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    postMessage: vi.fn()
+  };
+}
+
+const mockRegisterProcessor = vi.fn();
+vi.stubGlobal('AudioWorkletProcessor', MockAudioWorkletProcessor);
+vi.stubGlobal('registerProcessor', mockRegisterProcessor);
+vi.stubGlobal('sampleRate', 48000);
+
+const processorModule = await import('../../src/webaudio/processors/ofdm-processor.js') as any;
+const OFDMProcessor = processorModule.OFDMProcessor;
+const registrations = [...mockRegisterProcessor.mock.calls];
+const { OFDMCore, DEFAULT_OFDM_CONFIG } = await import('../../src/modems/ofdm.js');
+
+describe('OFDMProcessor', () => {
+  let processor: any;
+  let mockPort: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    processor = new OFDMProcessor();
+    mockPort = processor.port;
+  });
+
+  const sendMessage = async (message: any) => {
+    await mockPort.onmessage({ data: message } as MessageEvent);
+  };
+
+  const runAudio = (samples: Float32Array, blockSize = 128) => {
+    const output = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i += blockSize) {
+      const block = new Float32Array(blockSize);
+      block.set(samples.subarray(i, i + blockSize));
+      const outputs = [[new Float32Array(blockSize)]];
+      processor.process([[block]], outputs);
+      output.set(outputs[0][0].subarray(0, Math.min(blockSize, samples.length - i)), i);
+    }
+    return output;
+  };
+
+  test('registers as ofdm-processor', () => {
+    expect(registrations).toContainEqual(['ofdm-processor', OFDMProcessor]);
+  });
+
+  test('handles configure message', async () => {
+    await sendMessage({ id: 'cfg', type: 'configure', data: { config: { ...DEFAULT_OFDM_CONFIG } } });
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({ id: 'cfg', type: 'result', data: { success: true } });
+  });
+
+  test('reports configuration errors', async () => {
+    await sendMessage({ id: 'cfg', type: 'configure', data: { config: { ...DEFAULT_OFDM_CONFIG, fftSize: 500 } } });
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({
+      id: 'cfg',
+      type: 'error',
+      data: { message: expect.stringContaining('power of two') }
+    });
+  });
+
+  test('modulate output is demodulated by OFDMCore', async () => {
+    await sendMessage({ id: 'cfg', type: 'configure', data: { config: { ...DEFAULT_OFDM_CONFIG } } });
+    const data = [0x4F, 0x46, 0x44, 0x4D];
+
+    const done = sendMessage({ id: 'mod', type: 'modulate', data: { bytes: data } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const output = runAudio(new Float32Array(48000));
+    await done;
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({ id: 'mod', type: 'result', data: { success: true } });
+    const rx = new OFDMCore();
+    rx.configure({ ...DEFAULT_OFDM_CONFIG });
+    expect(Array.from(await rx.demodulateData(output))).toEqual(data);
+  });
+
+  test('demodulates audio input', async () => {
+    await sendMessage({ id: 'cfg', type: 'configure', data: { config: { ...DEFAULT_OFDM_CONFIG } } });
+    const tx = new OFDMCore();
+    tx.configure({ ...DEFAULT_OFDM_CONFIG });
+    runAudio(await tx.modulateData(new Uint8Array([0x12, 0x34, 0x56])));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await sendMessage({ id: 'demod', type: 'demodulate', data: {} });
+    expect(mockPort.postMessage).toHaveBeenCalledWith({ id: 'demod', type: 'result', data: { bytes: [0x12, 0x34, 0x56] } });
+  });
+
+  test('status includes OFDM core status', async () => {
+    await sendMessage({ id: 'cfg', type: 'configure', data: { config: { ...DEFAULT_OFDM_CONFIG } } });
+    await sendMessage({ id: 'status', type: 'status', data: {} });
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({
+      id: 'status',
+      type: 'result',
+      data: expect.objectContaining({ ofdmCoreReady: true, bitsPerSymbol: 84, syncDetections: 0 })
+    });
+  });
+
+  test('handles unknown message type', async () => {
+    await sendMessage({ id: 'x', type: 'unknown', data: {} });
+
+    expect(mockPort.postMessage).toHaveBeenCalledWith({
+      id: 'x',
+      type: 'error',
+      data: { message: 'Unknown message type: unknown' }
+    });
+  });
+});